@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryCache, hashQueryKey } from '../../src/cache/QueryCache';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('QueryCache', () => {
+  it('deduplicates concurrent fetches for the same key', async () => {
+    const cache = new QueryCache();
+    const fetcher = vi.fn().mockResolvedValue(['a']);
+
+    await Promise.all([
+      cache.fetch(['topics'], fetcher),
+      cache.fetch(['topics'], fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getState(['topics']).data).toEqual(['a']);
+  });
+
+  it('keeps the previous data while revalidating', async () => {
+    const cache = new QueryCache();
+    await cache.fetch(['topics'], async () => ['old']);
+
+    const next = deferred<string[]>();
+    const pending = cache.fetch(['topics'], () => next.promise, { force: true });
+
+    expect(cache.getState(['topics'])).toMatchObject({ data: ['old'], fetching: true });
+
+    next.resolve(['new']);
+    await pending;
+    expect(cache.getState(['topics'])).toMatchObject({ data: ['new'], fetching: false });
+  });
+
+  it('does not refetch on mount within staleTime', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    const fetcher = vi.fn().mockResolvedValue(1);
+
+    await cache.mount(['unread_count'], fetcher);
+    await cache.mount(['unread_count'], fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores errors and wraps non-Error rejections', async () => {
+    const cache = new QueryCache();
+    await cache.fetch(['topics'], () => Promise.reject('boom'));
+
+    const { error, fetching } = cache.getState(['topics']);
+    expect(error).toBeInstanceOf(Error);
+    expect(error?.message).toBe('boom');
+    expect(fetching).toBe(false);
+  });
+
+  it('refetches subscribed queries matching an invalidated prefix', async () => {
+    const cache = new QueryCache({ staleTime: 60_000 });
+    const page1 = vi.fn().mockResolvedValue('page 1');
+    const page2 = vi.fn().mockResolvedValue('page 2');
+    const other = vi.fn().mockResolvedValue('other');
+
+    cache.subscribe(['tickets', { page: 1 }], () => {});
+    cache.subscribe(['ticket', 't1'], () => {});
+    await cache.mount(['tickets', { page: 1 }], page1);
+    await cache.mount(['tickets', { page: 2 }], page2);
+    await cache.mount(['ticket', 't1'], other);
+
+    await cache.invalidate(['tickets']);
+
+    expect(page1).toHaveBeenCalledTimes(2);
+    // 購読されていないクエリは次のマウントまで取得しない
+    expect(page2).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(1);
+
+    await cache.mount(['tickets', { page: 2 }], page2);
+    expect(page2).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts the in-flight fetch when the last subscriber leaves', () => {
+    const cache = new QueryCache();
+    let signal!: AbortSignal;
+    const unsubscribe = cache.subscribe(['ticket', 't1'], () => {});
+    cache.mount(['ticket', 't1'], (s) => {
+      signal = s;
+      return new Promise(() => {});
+    });
+
+    unsubscribe();
+
+    expect(signal.aborted).toBe(true);
+    expect(cache.getState(['ticket', 't1']).fetching).toBe(false);
+  });
+
+  it('ignores results of a fetch superseded by a forced refetch', async () => {
+    const cache = new QueryCache();
+    const first = deferred<string>();
+    const stale = cache.fetch(['ticket', 't1'], () => first.promise);
+    const fresh = cache.fetch(['ticket', 't1'], async () => 'fresh', { force: true });
+
+    await fresh;
+    first.resolve('stale');
+    await stale;
+
+    expect(cache.getState(['ticket', 't1']).data).toBe('fresh');
+  });
+
+  it('updates cached data of every query under a prefix', async () => {
+    const cache = new QueryCache();
+    await cache.fetch(['tickets', { page: 1 }], async () => [1, 2]);
+    await cache.fetch(['tickets', { page: 2 }], async () => [3]);
+
+    cache.setQueriesData<number[]>(['tickets'], (data) => data.map((n) => n * 10));
+
+    expect(cache.getState(['tickets', { page: 1 }]).data).toEqual([10, 20]);
+    expect(cache.getState(['tickets', { page: 2 }]).data).toEqual([30]);
+  });
+
+  describe('garbage collection', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('removes a query gcTime after its last subscriber leaves', async () => {
+      const cache = new QueryCache({ gcTime: 1000 });
+      const unsubscribe = cache.subscribe(['topics'], () => {});
+      await cache.mount(['topics'], async () => ['a']);
+
+      unsubscribe();
+      vi.advanceTimersByTime(999);
+      expect(cache.getState(['topics']).data).toEqual(['a']);
+
+      vi.advanceTimersByTime(1);
+      expect(cache.getState(['topics']).data).toBeUndefined();
+    });
+
+    it('keeps a query that is subscribed again before gcTime', async () => {
+      const cache = new QueryCache({ gcTime: 1000 });
+      await cache.fetch(['topics'], async () => ['a']);
+
+      vi.advanceTimersByTime(500);
+      cache.subscribe(['topics'], () => {});
+      vi.advanceTimersByTime(1000);
+
+      expect(cache.getState(['topics']).data).toEqual(['a']);
+    });
+
+    it('keeps local state that cannot be fetched again', () => {
+      const cache = new QueryCache({ gcTime: 1000 });
+      const unsubscribe = cache.subscribe(['outgoing', 't1'], () => {});
+      cache.setData(['outgoing', 't1'], () => ['pending']);
+
+      unsubscribe();
+      vi.advanceTimersByTime(1000);
+
+      expect(cache.getState(['outgoing', 't1']).data).toEqual(['pending']);
+    });
+  });
+});
+
+describe('hashQueryKey', () => {
+  it('is independent of object key order and ignores undefined values', () => {
+    expect(hashQueryKey(['tickets', { page: 1, per_page: 20 }])).toBe(
+      hashQueryKey(['tickets', { per_page: 20, page: 1, q: undefined }]),
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QueryCache, type InfiniteData } from '../../src/cache/QueryCache';
+import { addMessageToCache } from '../../src/cache/messages';
+import type { Message, MessageListResponse, TicketWithMessages } from '../../src/types';
+
+function message(id: string): Message {
+  return { id, sender_type: 'operator', sender_id: 'op-1', body: id, created_at: `2026-01-01T00:00:0${id.slice(-1)}Z` };
+}
+
+function page(messages: Message[], current: number, total: number): MessageListResponse {
+  return { messages, meta: { current_page: current, total_pages: total, total_count: 9, per_page: 2 } };
+}
+
+describe('addMessageToCache', () => {
+  it('appends to the loaded ticket detail once', () => {
+    const cache = new QueryCache();
+    cache.setData<TicketWithMessages>(['ticket', 't1'], () => ({
+      id: 't1',
+      messages: [message('m1')],
+    } as TicketWithMessages));
+
+    addMessageToCache(cache, 't1', message('m2'));
+    addMessageToCache(cache, 't1', message('m2'));
+
+    const ticket = cache.getState<TicketWithMessages>(['ticket', 't1']).data!;
+    expect(ticket.messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(ticket.updated_at).toBe('2026-01-01T00:00:02Z');
+  });
+
+  it('prepends to the newest page of a newest-first list', () => {
+    const cache = new QueryCache();
+    const key = ['messages', 't1', 'infinite', { order: 'desc' }];
+    cache.setData<InfiniteData<MessageListResponse>>(key, () => ({
+      pages: [page([message('m3'), message('m2')], 1, 3), page([message('m1')], 2, 3)],
+    }));
+
+    addMessageToCache(cache, 't1', message('m4'));
+
+    const data = cache.getState<InfiniteData<MessageListResponse>>(key).data!;
+    expect(data.pages[0].messages.map((m) => m.id)).toEqual(['m4', 'm3', 'm2']);
+    expect(data.pages[1].messages.map((m) => m.id)).toEqual(['m1']);
+  });
+
+  it('appends to an oldest-first list only when its last page is loaded', () => {
+    const cache = new QueryCache();
+    const complete = ['messages', 't1', 'infinite', null];
+    const partial = ['messages', 't1', 'infinite', { per_page: 1 }];
+    cache.setData<InfiniteData<MessageListResponse>>(complete, () => ({
+      pages: [page([message('m1')], 1, 1)],
+    }));
+    cache.setData<InfiniteData<MessageListResponse>>(partial, () => ({
+      pages: [page([message('m1')], 1, 2)],
+    }));
+
+    addMessageToCache(cache, 't1', message('m2'));
+
+    expect(cache.getState<InfiniteData<MessageListResponse>>(complete).data!.pages[0].messages.map((m) => m.id))
+      .toEqual(['m1', 'm2']);
+    expect(cache.getState<InfiniteData<MessageListResponse>>(partial).data!.pages[0].messages.map((m) => m.id))
+      .toEqual(['m1']);
+  });
+
+  it('refetches paged lists but not accumulated ones', async () => {
+    const cache = new QueryCache();
+    const paged = vi.fn().mockResolvedValue(page([], 1, 1));
+    const infinite = vi.fn().mockResolvedValue({ pages: [page([], 1, 1)] });
+    cache.subscribe(['messages', 't1', null], () => {});
+    cache.subscribe(['messages', 't1', 'infinite', null], () => {});
+    await cache.fetch(['messages', 't1', null], paged);
+    await cache.fetch(['messages', 't1', 'infinite', null], infinite);
+
+    addMessageToCache(cache, 't1', message('m1'));
+
+    expect(paged).toHaveBeenCalledTimes(2);
+    expect(infinite).toHaveBeenCalledTimes(1);
+  });
+});
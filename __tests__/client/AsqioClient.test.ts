@@ -1,6 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AsqioClient } from '../../src/client/AsqioClient';
-import { AsqioError, AsqioNetworkError } from '../../src/client/errors';
+import { createXhrFetch } from '../../src/client/attachments';
+import {
+  AsqioAbortError,
+  AsqioAttachmentError,
+  AsqioError,
+  AsqioNetworkError,
+  AsqioRateLimitError,
+  AsqioTimeoutError,
+} from '../../src/client/errors';
 import type { AsqioConfig } from '../../src/types/config';
 
 // Mock device-info module so createTicket auto-fill is deterministic
@@ -27,6 +35,8 @@ function createConfig(overrides: Partial<AsqioConfig> = {}): AsqioConfig {
     baseUrl: BASE_URL,
     tenantKey: TENANT_KEY,
     getToken: async () => TOKEN,
+    // Retries are exercised separately in the "retry" block below
+    retry: false,
     ...overrides,
   };
 }
@@ -78,6 +88,25 @@ function errorNonJson(status: number): Response {
   } as unknown as Response;
 }
 
+/** Build a 429 response, optionally with a Retry-After header */
+function rateLimited(retryAfter?: string): Response {
+  const headers = new Headers();
+  if (retryAfter !== undefined) headers.set('Retry-After', retryAfter);
+  return {
+    ok: false,
+    status: 429,
+    json: async () => ({ error: 'Rate limit exceeded', code: 'RATE_LIMITED' }),
+    headers,
+  } as unknown as Response;
+}
+
+/** Build an unsigned JWT whose payload carries the given exp (seconds) */
+function jwt(exp: number, sub = 'user-1'): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub, exp })}.signature`;
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -171,6 +200,125 @@ describe('AsqioClient', () => {
       const [url] = fetchMock.mock.calls[0];
       expect(url).toBe(`${BASE_URL}/tickets`);
     });
+
+    it('appends a single status filter', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(ticketListResponse));
+
+      await client.getTickets({ status: 'open' });
+
+      const [url] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets?status=open`);
+    });
+
+    it('appends multiple status filters as an array', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(ticketListResponse));
+
+      await client.getTickets({ page: 1, status: ['resolved', 'closed'] });
+
+      const [url] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets?page=1&status%5B%5D=resolved&status%5B%5D=closed`);
+    });
+
+    it('appends search, filter and sort params', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(ticketListResponse));
+
+      await client.getTickets({
+        q: ' login ',
+        topic_id: 'topic-1',
+        unread: true,
+        updated_from: '2026-01-01T00:00:00.000Z',
+        updated_to: '2026-01-31T23:59:59.999Z',
+        sort: 'created_asc',
+      });
+
+      const [url] = fetchMock.mock.calls[0];
+      const search = new URL(url).searchParams;
+      expect(search.get('q')).toBe('login');
+      expect(search.get('topic_id')).toBe('topic-1');
+      expect(search.get('unread')).toBe('true');
+      expect(search.get('updated_from')).toBe('2026-01-01T00:00:00.000Z');
+      expect(search.get('updated_to')).toBe('2026-01-31T23:59:59.999Z');
+      expect(search.get('sort')).toBe('created_asc');
+    });
+
+    it('omits blank search and false unread', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(ticketListResponse));
+
+      await client.getTickets({ q: '  ', unread: false });
+
+      const [url] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets`);
+    });
+  });
+
+  // =======================================================================
+  // iterateTickets / iterateMessages
+  // =======================================================================
+
+  describe('iterateTickets', () => {
+    const page = (ids: string[], current: number, total: number) => ({
+      tickets: ids.map((id) => ({ id, title: id })),
+      meta: { current_page: current, total_pages: total, total_count: 3, per_page: 2 },
+    });
+
+    it('walks every page in order', async () => {
+      fetchMock
+        .mockResolvedValueOnce(okJson(page(['t1', 't2'], 1, 2)))
+        .mockResolvedValueOnce(okJson(page(['t3'], 2, 2)));
+
+      const ids: string[] = [];
+      for await (const ticket of client.iterateTickets({ per_page: 2, status: 'open', page: 5 })) {
+        ids.push(ticket.id);
+      }
+
+      expect(ids).toEqual(['t1', 't2', 't3']);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/tickets?page=1&per_page=2&status=open`);
+      expect(fetchMock.mock.calls[1][0]).toBe(`${BASE_URL}/tickets?page=2&per_page=2&status=open`);
+    });
+
+    it('stops requesting when the caller breaks out early', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(page(['t1', 't2'], 1, 5)));
+
+      for await (const ticket of client.iterateTickets()) {
+        expect(ticket.id).toBe('t1');
+        break;
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops on an empty page even if meta claims more', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(page([], 1, 3)));
+
+      const tickets = [];
+      for await (const ticket of client.iterateTickets()) tickets.push(ticket);
+
+      expect(tickets).toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('iterateMessages', () => {
+    it('walks every page of a ticket', async () => {
+      fetchMock
+        .mockResolvedValueOnce(okJson({
+          messages: [{ id: 'm1' }],
+          meta: { current_page: 1, total_pages: 2, total_count: 2, per_page: 1 },
+        }))
+        .mockResolvedValueOnce(okJson({
+          messages: [{ id: 'm2' }],
+          meta: { current_page: 2, total_pages: 2, total_count: 2, per_page: 1 },
+        }));
+
+      const ids: string[] = [];
+      for await (const message of client.iterateMessages('t1', { per_page: 1 })) {
+        ids.push(message.id);
+      }
+
+      expect(ids).toEqual(['m1', 'm2']);
+      expect(fetchMock.mock.calls[1][0]).toBe(`${BASE_URL}/tickets/t1/messages?page=2&per_page=1`);
+    });
   });
 
   // =======================================================================
@@ -327,6 +475,15 @@ describe('AsqioClient', () => {
       const [url] = fetchMock.mock.calls[0];
       expect(url).toBe(`${BASE_URL}/tickets/t1/messages?page=3&per_page=50`);
     });
+
+    it('appends the sort order', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(messageListResponse));
+
+      await client.getMessages('t1', { page: 1, order: 'desc' });
+
+      const [url] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets/t1/messages?page=1&order=desc`);
+    });
   });
 
   // =======================================================================
@@ -350,6 +507,253 @@ describe('AsqioClient', () => {
       expect(body).toEqual({ message: { body: 'Hello there' } });
       expect(result).toEqual(message);
     });
+
+    it('includes attachment_ids when attachments are given', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(message));
+
+      await client.sendMessage('t1', { body: '', attachment_ids: ['a1', 'a2'] });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+      expect(body).toEqual({ message: { body: '', attachment_ids: ['a1', 'a2'] } });
+    });
+  });
+
+  // =======================================================================
+  // redaction
+  // =======================================================================
+
+  describe('redaction', () => {
+    it('sends bodies and context unchanged by default', async () => {
+      fetchMock.mockResolvedValueOnce(okJson({ id: 'm1' }));
+
+      await client.sendMessage('t1', { body: 'a@example.com' });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).message.body).toBe('a@example.com');
+      expect(client.findSensitiveData('a@example.com')).toEqual([]);
+    });
+
+    it('redacts createTicket message, title and context', async () => {
+      const redacting = new AsqioClient(createConfig({ redaction: true }));
+      fetchMock.mockResolvedValueOnce(okJson({ id: 't1' }));
+
+      await redacting.createTicket({
+        title: 'Card 4242 4242 4242 4242',
+        message: 'Reach me at a@example.com',
+        context: { token: 'abc', note: 'tel 090-1234-5678' },
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.title).toBe('Card [redacted:credit_card]');
+      expect(body.message).toBe('Reach me at [redacted:email]');
+      expect(body.context).toEqual({ token: '[redacted]', note: 'tel [redacted:phone]' });
+    });
+
+    it('redacts sendMessage bodies', async () => {
+      const redacting = new AsqioClient(createConfig({ redaction: { detectors: ['email'] } }));
+      fetchMock.mockResolvedValueOnce(okJson({ id: 'm1' }));
+
+      await redacting.sendMessage('t1', { body: 'a@example.com' });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).message.body).toBe('[redacted:email]');
+    });
+
+    it('exposes detection and the confirm flag for the UI', () => {
+      const redacting = new AsqioClient(createConfig({ redaction: { confirm: true } }));
+
+      expect(redacting.confirmRedaction).toBe(true);
+      expect(redacting.findSensitiveData('a@example.com')).toEqual([
+        { type: 'email', value: 'a@example.com', index: 0 },
+      ]);
+      expect(client.confirmRedaction).toBe(false);
+    });
+  });
+
+  // =======================================================================
+  // uploadAttachment
+  // =======================================================================
+
+  describe('uploadAttachment', () => {
+    const attachment = {
+      id: 'a1',
+      filename: 'screen.png',
+      content_type: 'image/png',
+      byte_size: 4,
+      url: 'https://cdn.example/screen.png',
+    };
+
+    function png(size = 4): File {
+      return new File(['x'.repeat(size)], 'screen.png', { type: 'image/png' });
+    }
+
+    it('sends POST /attachments as multipart form data', async () => {
+      fetchMock.mockResolvedValueOnce(okJson(attachment));
+
+      const result = await client.uploadAttachment(png());
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/attachments`);
+      expect(init.method).toBe('POST');
+      expect(init.body).toBeInstanceOf(FormData);
+      expect((init.body as FormData).get('file')).toBeInstanceOf(File);
+      // ブラウザが boundary 付きで設定するため、JSON の Content-Type は付けない
+      expect(init.headers['Content-Type']).toBeUndefined();
+      expect(init.headers['Idempotency-Key']).toEqual(expect.any(String));
+      expect(result).toEqual(attachment);
+    });
+
+    it('rejects files larger than maxBytes without sending a request', async () => {
+      const limited = new AsqioClient(createConfig({ attachments: { maxBytes: 2 } }));
+
+      const err = await limited.uploadAttachment(png(4)).catch((e) => e);
+
+      expect(err).toBeInstanceOf(AsqioAttachmentError);
+      expect((err as AsqioAttachmentError).reason).toBe('too_large');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects files whose type is not accepted', async () => {
+      const file = new File(['x'], 'run.exe', { type: 'application/x-msdownload' });
+
+      const err = await client.uploadAttachment(file).catch((e) => e);
+
+      expect(err).toBeInstanceOf(AsqioAttachmentError);
+      expect((err as AsqioAttachmentError).reason).toBe('type_not_allowed');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('reports completion as progress when fetch is injected', async () => {
+      const customFetch = vi.fn().mockResolvedValueOnce(okJson(attachment));
+      const injected = new AsqioClient(createConfig({ fetch: customFetch }));
+      const onProgress = vi.fn();
+
+      await injected.uploadAttachment(png(), { onProgress });
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenCalledWith({ loaded: 4, total: 4 });
+    });
+
+    it('reports upload progress through XMLHttpRequest', async () => {
+      const OriginalXhr = globalThis.XMLHttpRequest;
+      class FakeXhr {
+        static last: FakeXhr;
+        upload: { onprogress: ((e: ProgressEvent) => void) | null } = { onprogress: null };
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        status = 201;
+        statusText = 'Created';
+        responseText = JSON.stringify(attachment);
+        method = '';
+        url = '';
+        headers: Record<string, string> = {};
+        constructor() {
+          FakeXhr.last = this;
+        }
+        open(method: string, url: string) {
+          this.method = method;
+          this.url = url;
+        }
+        setRequestHeader(name: string, value: string) {
+          this.headers[name] = value;
+        }
+        getAllResponseHeaders() {
+          return 'content-type: application/json\r\n';
+        }
+        abort() {}
+        send() {
+          this.upload.onprogress?.({ lengthComputable: true, loaded: 2, total: 4 } as ProgressEvent);
+          this.onload?.();
+        }
+      }
+      globalThis.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+      try {
+        const onProgress = vi.fn();
+
+        const result = await client.uploadAttachment(png(), { onProgress });
+
+        expect(result).toEqual(attachment);
+        expect(onProgress).toHaveBeenCalledWith({ loaded: 2, total: 4 });
+        expect(FakeXhr.last.method).toBe('POST');
+        expect(FakeXhr.last.url).toBe(`${BASE_URL}/attachments`);
+        expect(FakeXhr.last.headers['Authorization']).toBe(`Bearer ${TOKEN}`);
+        expect(fetchMock).not.toHaveBeenCalled();
+      } finally {
+        globalThis.XMLHttpRequest = OriginalXhr;
+      }
+    });
+
+    it('removes the abort listener once the XMLHttpRequest upload settles', async () => {
+      const OriginalXhr = globalThis.XMLHttpRequest;
+      class FakeXhr {
+        static fail = false;
+        upload = { onprogress: null };
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        status = 201;
+        statusText = 'Created';
+        responseText = '{}';
+        open() {}
+        setRequestHeader() {}
+        getAllResponseHeaders() {
+          return '';
+        }
+        abort() {}
+        send() {
+          if (FakeXhr.fail) this.onerror?.();
+          else this.onload?.();
+        }
+      }
+      globalThis.XMLHttpRequest = FakeXhr as unknown as typeof XMLHttpRequest;
+      try {
+        const { signal } = new AbortController();
+        const add = vi.spyOn(signal, 'addEventListener');
+        const remove = vi.spyOn(signal, 'removeEventListener');
+        const xhrFetch = createXhrFetch(vi.fn());
+
+        await xhrFetch(`${BASE_URL}/attachments`, { method: 'POST', signal });
+        FakeXhr.fail = true;
+        await expect(xhrFetch(`${BASE_URL}/attachments`, { method: 'POST', signal })).rejects.toThrow(TypeError);
+
+        expect(add).toHaveBeenCalledTimes(2);
+        expect(remove).toHaveBeenCalledTimes(2);
+        expect(remove.mock.calls[0][1]).toBe(add.mock.calls[0][1]);
+        expect(remove.mock.calls[1][1]).toBe(add.mock.calls[1][1]);
+      } finally {
+        globalThis.XMLHttpRequest = OriginalXhr;
+      }
+    });
+  });
+
+  // =======================================================================
+  // closeTicket / reopenTicket
+  // =======================================================================
+
+  describe('closeTicket', () => {
+    it('sends POST to /tickets/:id/close and returns the ticket', async () => {
+      const closed = { id: 't1', title: 'Help', status: 'closed' };
+      fetchMock.mockResolvedValueOnce(okJson(closed));
+
+      const result = await client.closeTicket('t1');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets/t1/close`);
+      expect(init.method).toBe('POST');
+      expect(init.headers['Idempotency-Key']).toEqual(expect.any(String));
+      expect(result).toEqual(closed);
+    });
+  });
+
+  describe('reopenTicket', () => {
+    it('sends POST to /tickets/:id/reopen and returns the ticket', async () => {
+      const reopened = { id: 't1', title: 'Help', status: 'open' };
+      fetchMock.mockResolvedValueOnce(okJson(reopened));
+
+      const result = await client.reopenTicket('t1');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`${BASE_URL}/tickets/t1/reopen`);
+      expect(init.method).toBe('POST');
+      expect(result).toEqual(reopened);
+    });
   });
 
   // =======================================================================
@@ -536,6 +940,667 @@ describe('AsqioClient', () => {
     });
   });
 
+  // =======================================================================
+  // retry
+  // =======================================================================
+
+  describe('retry', () => {
+    function retryClient(retry: AsqioConfig['retry'] = {}) {
+      return new AsqioClient(
+        createConfig({ retry: retry && { baseDelayMs: 0, ...retry } }),
+      );
+    }
+
+    it('retries GET requests on network failure and returns the eventual response', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(okJson({ unread_count: 2 }));
+
+      const result = await retryClient().getUnreadCount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result).toBe(2);
+    });
+
+    it('retries GET requests on retryable 5xx statuses', async () => {
+      fetchMock
+        .mockResolvedValueOnce(errorNonJson(503))
+        .mockResolvedValueOnce(okJson({ unread_count: 1 }));
+
+      const result = await retryClient().getUnreadCount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result).toBe(1);
+    });
+
+    it('does not retry non-retryable statuses', async () => {
+      fetchMock.mockResolvedValueOnce(
+        errorJson(404, { error: 'Not found', code: 'NOT_FOUND' }),
+      );
+
+      await expect(retryClient().getTicket('t1')).rejects.toThrow(AsqioError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after maxAttempts and throws the last error', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(
+        retryClient({ maxAttempts: 4 }).getTickets(),
+      ).rejects.toThrow(AsqioNetworkError);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('does not retry POST requests without an idempotency key', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(
+        retryClient().markAsRead('t1'),
+      ).rejects.toThrow(AsqioNetworkError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies onRetry before each retry', async () => {
+      const onRetry = vi.fn();
+      fetchMock
+        .mockResolvedValueOnce(errorNonJson(502))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(okJson({ unread_count: 0 }));
+
+      await retryClient({ onRetry }).getUnreadCount();
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({
+        attempt: 1,
+        method: 'GET',
+        path: '/unread_count',
+        delayMs: 0,
+      });
+      expect(onRetry.mock.calls[0][0].error).toBeInstanceOf(AsqioError);
+      expect(onRetry.mock.calls[1][0].attempt).toBe(2);
+      expect(onRetry.mock.calls[1][0].error).toBeInstanceOf(AsqioNetworkError);
+    });
+
+    it('lets shouldRetry override the default classification', async () => {
+      fetchMock
+        .mockResolvedValueOnce(errorJson(404, { error: 'Not found', code: 'NOT_FOUND' }))
+        .mockResolvedValueOnce(okJson({ unread_count: 3 }));
+
+      const result = await retryClient({ shouldRetry: () => true }).getUnreadCount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result).toBe(3);
+    });
+
+    it('falls back to the defaults for options given as undefined', async () => {
+      const onRetry = vi.fn();
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(okJson({ unread_count: 0 }));
+      const client = new AsqioClient(createConfig({
+        retry: { maxAttempts: undefined, baseDelayMs: undefined, maxDelayMs: undefined, onRetry },
+      }));
+
+      await client.getUnreadCount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const { delayMs } = onRetry.mock.calls[0][0];
+      expect(delayMs).toBeGreaterThanOrEqual(0);
+      expect(delayMs).toBeLessThanOrEqual(300);
+    });
+
+    it('makes a single attempt when retry is false', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(retryClient(false).getTickets()).rejects.toThrow(AsqioNetworkError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // =======================================================================
+  // idempotency keys
+  // =======================================================================
+
+  describe('idempotency keys', () => {
+    function idempotencyKey(callIndex = 0): string | undefined {
+      const [, init] = fetchMock.mock.calls[callIndex];
+      return (init.headers as Record<string, string>)['Idempotency-Key'];
+    }
+
+    it('sends a generated Idempotency-Key on createTicket, sendMessage and registerDevice', async () => {
+      fetchMock.mockResolvedValue(okJson({}));
+
+      await client.createTicket({ message: 'Help' });
+      await client.sendMessage('t1', { body: 'Hi' });
+      await client.registerDevice({ platform: 'web', push_token: 'tok', token_type: 'fcm' });
+
+      const keys = [idempotencyKey(0), idempotencyKey(1), idempotencyKey(2)];
+      keys.forEach((key) => expect(key).toMatch(/^[0-9a-f-]{36}$/));
+      expect(new Set(keys).size).toBe(3);
+    });
+
+    it('does not send an Idempotency-Key on other requests', async () => {
+      fetchMock.mockResolvedValue(noContent());
+
+      await client.markAsRead('t1');
+
+      expect(idempotencyKey()).toBeUndefined();
+    });
+
+    it('uses the caller-provided key', async () => {
+      fetchMock.mockResolvedValue(okJson({}));
+
+      await client.sendMessage('t1', { body: 'Hi' }, { idempotencyKey: 'my-key' });
+
+      expect(idempotencyKey()).toBe('my-key');
+    });
+
+    it('keeps the same key across retries and retries the POST', async () => {
+      const retrying = new AsqioClient(createConfig({ retry: { baseDelayMs: 0 } }));
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(errorNonJson(503))
+        .mockResolvedValueOnce(okJson({ id: 'ticket-1' }));
+
+      await retrying.createTicket({ message: 'Help' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(idempotencyKey(1)).toBe(idempotencyKey(0));
+      expect(idempotencyKey(2)).toBe(idempotencyKey(0));
+    });
+  });
+
+  // =======================================================================
+  // rate limiting
+  // =======================================================================
+
+  describe('rate limiting', () => {
+    it('throws AsqioRateLimitError with the parsed Retry-After delay', async () => {
+      fetchMock.mockResolvedValueOnce(rateLimited('120'));
+
+      try {
+        await client.getTickets();
+        expect.unreachable();
+      } catch (e) {
+        expect(e).toBeInstanceOf(AsqioRateLimitError);
+        expect(e).toBeInstanceOf(AsqioError);
+        const err = e as AsqioRateLimitError;
+        expect(err.code).toBe('RATE_LIMITED');
+        expect(err.statusCode).toBe(429);
+        expect(err.retryAfterMs).toBe(120_000);
+      }
+    });
+
+    it('parses HTTP-date Retry-After values', async () => {
+      const date = new Date(Date.now() + 30_000).toUTCString();
+      fetchMock.mockResolvedValueOnce(rateLimited(date));
+
+      const err = await client.getTickets().catch((e) => e as AsqioRateLimitError);
+
+      expect(err.retryAfterMs).toBeGreaterThan(25_000);
+      expect(err.retryAfterMs).toBeLessThanOrEqual(30_000);
+    });
+
+    it('sets retryAfterMs to null when the header is missing', async () => {
+      fetchMock.mockResolvedValueOnce(rateLimited());
+
+      const err = await client.getTickets().catch((e) => e as AsqioRateLimitError);
+
+      expect(err.retryAfterMs).toBeNull();
+    });
+
+    it('waits for Retry-After and retries, including POST requests', async () => {
+      const retrying = new AsqioClient(createConfig({ retry: { baseDelayMs: 0 } }));
+      const message = { id: 'm1', sender_type: 'user', sender_id: 'u1', body: 'Hi', created_at: '' };
+      fetchMock
+        .mockResolvedValueOnce(rateLimited('0'))
+        .mockResolvedValueOnce(okJson(message));
+
+      const result = await retrying.sendMessage('t1', { body: 'Hi' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(message);
+    });
+
+    it('does not wait when Retry-After exceeds maxRetryAfterMs', async () => {
+      const retrying = new AsqioClient(
+        createConfig({ retry: { baseDelayMs: 0, maxRetryAfterMs: 1000 } }),
+      );
+      fetchMock.mockResolvedValueOnce(rateLimited('3600'));
+
+      await expect(retrying.getTickets()).rejects.toThrow(AsqioRateLimitError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not hold back later requests when Retry-After exceeds maxRetryAfterMs', async () => {
+      const timed = new AsqioClient(createConfig({ timeoutMs: 1000 }));
+      fetchMock
+        .mockResolvedValueOnce(rateLimited('3600'))
+        .mockResolvedValueOnce(okJson({ topics: [] }));
+
+      await expect(timed.getTickets()).rejects.toThrow(AsqioRateLimitError);
+      await expect(timed.getTopics()).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails fast without fetching when the Retry-After wait exceeds the timeout', async () => {
+      const timed = new AsqioClient(createConfig({ timeoutMs: 1000, retry: false }));
+      fetchMock.mockResolvedValueOnce(rateLimited('30'));
+
+      await expect(timed.getTickets()).rejects.toThrow(AsqioRateLimitError);
+      const err = await timed.getTopics().catch((e) => e as AsqioRateLimitError);
+
+      expect(err).toBeInstanceOf(AsqioRateLimitError);
+      expect(err.retryAfterMs).toBeGreaterThan(29_000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // =======================================================================
+  // cancellation
+  // =======================================================================
+
+  describe('cancellation', () => {
+    it('aborts the fetch when the caller signal is aborted', async () => {
+      const controller = new AbortController();
+      fetchMock.mockReturnValueOnce(new Promise(() => {}));
+
+      const promise = client.getUnreadCount({ signal: controller.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      const [, init] = fetchMock.mock.calls[0];
+      expect(init.signal.aborted).toBe(false);
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AsqioAbortError);
+      expect(init.signal.aborted).toBe(true);
+    });
+
+    it('throws AsqioAbortError without calling fetch when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.getTicket('t1', { signal: controller.signal }),
+      ).rejects.toThrow(AsqioAbortError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('throws AsqioAbortError and does not retry when aborted during fetch', async () => {
+      const retrying = new AsqioClient(createConfig({ retry: { baseDelayMs: 0 } }));
+      const controller = new AbortController();
+      fetchMock.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      });
+
+      await expect(
+        retrying.getTickets(undefined, { signal: controller.signal }),
+      ).rejects.toThrow(AsqioAbortError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting between retries when aborted', async () => {
+      const retrying = new AsqioClient(createConfig({ retry: { baseDelayMs: 60_000, jitter: false } }));
+      const controller = new AbortController();
+      fetchMock.mockResolvedValueOnce(errorNonJson(503));
+
+      const promise = retrying.getTickets(undefined, { signal: controller.signal });
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AsqioAbortError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // =======================================================================
+  // timeouts
+  // =======================================================================
+
+  describe('timeouts', () => {
+    it('throws AsqioTimeoutError when the request exceeds timeoutMs', async () => {
+      const timed = new AsqioClient(createConfig({ timeoutMs: 20 }));
+      fetchMock.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('The operation was aborted.', 'AbortError')),
+            );
+          }),
+      );
+
+      const err = await timed.getTickets().catch((e) => e);
+
+      expect(err).toBeInstanceOf(AsqioTimeoutError);
+      expect(err).toBeInstanceOf(AsqioNetworkError);
+      expect((err as AsqioTimeoutError).timeoutMs).toBe(20);
+      expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('times out a hung getToken', async () => {
+      const timed = new AsqioClient(
+        createConfig({ timeoutMs: 20, getToken: () => new Promise(() => {}) }),
+      );
+
+      await expect(timed.getTickets()).rejects.toThrow(AsqioTimeoutError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('lets a per-call timeoutMs override the config', async () => {
+      const timed = new AsqioClient(createConfig({ timeoutMs: 60_000 }));
+      fetchMock.mockReturnValueOnce(new Promise(() => {}));
+
+      await expect(timed.getUnreadCount({ timeoutMs: 20 })).rejects.toThrow(AsqioTimeoutError);
+    });
+
+    it('retries timed out GET requests like other network errors', async () => {
+      const timed = new AsqioClient(
+        createConfig({ timeoutMs: 20, retry: { baseDelayMs: 0 } }),
+      );
+      fetchMock
+        .mockReturnValueOnce(new Promise(() => {}))
+        .mockResolvedValueOnce(okJson({ unread_count: 4 }));
+
+      await expect(timed.getUnreadCount()).resolves.toBe(4);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  // =======================================================================
+  // middleware
+  // =======================================================================
+
+  describe('middleware', () => {
+    it('lets onRequest add headers and rewrite the URL', async () => {
+      const withMiddleware = new AsqioClient(
+        createConfig({
+          middleware: [
+            {
+              onRequest: (ctx) => {
+                ctx.init.headers['X-Trace-Id'] = 'trace-1';
+              },
+            },
+            {
+              onRequest: (ctx) => ({
+                ...ctx,
+                url: ctx.url.replace(BASE_URL, 'https://proxy.example.com'),
+              }),
+            },
+          ],
+        }),
+      );
+      fetchMock.mockResolvedValueOnce(okJson({ unread_count: 0 }));
+
+      await withMiddleware.getUnreadCount();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://proxy.example.com/unread_count');
+      expect(init.headers['X-Trace-Id']).toBe('trace-1');
+      expectStandardHeaders();
+    });
+
+    it('passes the response and context to onResponse', async () => {
+      const onResponse = vi.fn();
+      const withMiddleware = new AsqioClient(createConfig({ middleware: [{ onResponse }] }));
+      const response = okJson({ unread_count: 0 });
+      fetchMock.mockResolvedValueOnce(response);
+
+      await withMiddleware.getUnreadCount();
+
+      expect(onResponse).toHaveBeenCalledWith(
+        response,
+        expect.objectContaining({ method: 'GET', path: '/unread_count', attempt: 1 }),
+      );
+    });
+
+    it('lets onResponse replace the response', async () => {
+      const withMiddleware = new AsqioClient(
+        createConfig({ middleware: [{ onResponse: () => okJson({ unread_count: 9 }) }] }),
+      );
+      fetchMock.mockResolvedValueOnce(errorNonJson(500));
+
+      await expect(withMiddleware.getUnreadCount()).resolves.toBe(9);
+    });
+
+    it('lets onError transform the thrown error', async () => {
+      class CustomError extends Error {}
+      const withMiddleware = new AsqioClient(
+        createConfig({
+          middleware: [{ onError: (error) => new CustomError(error.message) }],
+        }),
+      );
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const err = await withMiddleware.getTickets().catch((e) => e);
+
+      expect(err).toBeInstanceOf(CustomError);
+      expect(err.message).toBe('Network request failed');
+    });
+
+    it('runs for every retry attempt', async () => {
+      const onRequest = vi.fn();
+      const onError = vi.fn();
+      const withMiddleware = new AsqioClient(
+        createConfig({ retry: { baseDelayMs: 0 }, middleware: [{ onRequest, onError }] }),
+      );
+      fetchMock
+        .mockResolvedValueOnce(errorNonJson(503))
+        .mockResolvedValueOnce(okJson({ unread_count: 0 }));
+
+      await withMiddleware.getUnreadCount();
+
+      expect(onRequest).toHaveBeenCalledTimes(2);
+      expect(onRequest.mock.calls[1][0].attempt).toBe(2);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(AsqioError);
+    });
+  });
+
+  // =======================================================================
+  // fetch injection
+  // =======================================================================
+
+  describe('fetch injection', () => {
+    it('uses the fetch passed in config instead of the global one', async () => {
+      const customFetch = vi.fn().mockResolvedValueOnce(okJson({ unread_count: 1 }));
+      const injected = new AsqioClient(createConfig({ fetch: customFetch }));
+
+      await expect(injected.getUnreadCount()).resolves.toBe(1);
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch.mock.calls[0][0]).toBe(`${BASE_URL}/unread_count`);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('calls the injected fetch without the client as receiver', async () => {
+      let receiver: unknown = 'unset';
+      const customFetch = vi.fn(function (this: unknown) {
+        receiver = this;
+        return Promise.resolve(okJson({ unread_count: 0 }));
+      });
+      const injected = new AsqioClient(createConfig({ fetch: customFetch as unknown as typeof fetch }));
+
+      await injected.getUnreadCount();
+
+      expect(receiver).toBeUndefined();
+    });
+
+    it('can be constructed without a global fetch and fails on request', async () => {
+      const originalFetch = globalThis.fetch;
+      // @ts-expect-error simulate an environment without fetch
+      delete globalThis.fetch;
+      try {
+        const noFetch = new AsqioClient(createConfig());
+
+        const err = await noFetch.getTickets().catch((e) => e);
+
+        expect(err).toBeInstanceOf(AsqioNetworkError);
+        expect((err as AsqioNetworkError).cause).toBeInstanceOf(TypeError);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
+  // =======================================================================
+  // auth
+  // =======================================================================
+
+  describe('auth', () => {
+    const unauthorized = () =>
+      errorJson(401, { error: 'Token expired', code: 'UNAUTHORIZED' });
+
+    it('caches a JWT until shortly before it expires', async () => {
+      const token = jwt(Math.floor(Date.now() / 1000) + 3600);
+      const getToken = vi.fn(async () => token);
+      const cached = new AsqioClient(createConfig({ getToken }));
+      fetchMock.mockResolvedValue(okJson({ unread_count: 0 }));
+
+      await cached.getUnreadCount();
+      await cached.getUnreadCount();
+
+      expect(getToken).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[1][1].headers['Authorization']).toBe(`Bearer ${token}`);
+    });
+
+    it('shares the cached token and refreshes through getAuthToken / refreshAuthToken', async () => {
+      const token = jwt(Math.floor(Date.now() / 1000) + 3600);
+      const getToken = vi.fn(async () => token);
+      const fresh = jwt(Math.floor(Date.now() / 1000) + 7200);
+      const refreshToken = vi.fn(async () => fresh);
+      const cached = new AsqioClient(createConfig({ getToken, refreshToken }));
+      fetchMock.mockResolvedValue(okJson({ unread_count: 0 }));
+
+      await cached.getUnreadCount();
+      await expect(cached.getAuthToken()).resolves.toBe(token);
+      expect(getToken).toHaveBeenCalledTimes(1);
+
+      await expect(cached.refreshAuthToken(token)).resolves.toBe(fresh);
+      await cached.getUnreadCount();
+      expect(fetchMock.mock.calls[1][1].headers['Authorization']).toBe(`Bearer ${fresh}`);
+    });
+
+    it('fetches a new token once the cached JWT is about to expire', async () => {
+      const getToken = vi.fn(async () => jwt(Math.floor(Date.now() / 1000) + 10));
+      const cached = new AsqioClient(createConfig({ getToken }));
+      fetchMock.mockResolvedValue(okJson({ unread_count: 0 }));
+
+      await cached.getUnreadCount();
+      await cached.getUnreadCount();
+
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('calls getToken for every request when the token is not a JWT', async () => {
+      const getToken = vi.fn(async () => TOKEN);
+      const opaque = new AsqioClient(createConfig({ getToken }));
+      fetchMock.mockResolvedValue(okJson({ unread_count: 0 }));
+
+      await opaque.getUnreadCount();
+      await opaque.getUnreadCount();
+
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('refreshes the token on 401 and replays the request', async () => {
+      const refreshToken = vi.fn(async () => 'fresh-token');
+      const refreshing = new AsqioClient(createConfig({ refreshToken }));
+      fetchMock
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(okJson({ unread_count: 3 }));
+
+      await expect(refreshing.getUnreadCount()).resolves.toBe(3);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].headers['Authorization']).toBe('Bearer fresh-token');
+    });
+
+    it('replays POST requests after refreshing', async () => {
+      const refreshing = new AsqioClient(
+        createConfig({ refreshToken: async () => 'fresh-token' }),
+      );
+      const message = { id: 'm1', sender_type: 'user', sender_id: 'u1', body: 'Hi', created_at: '' };
+      fetchMock
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(okJson(message));
+
+      await expect(refreshing.sendMessage('t1', { body: 'Hi' })).resolves.toEqual(message);
+    });
+
+    it('falls back to getToken when refreshToken is not provided', async () => {
+      const getToken = vi.fn()
+        .mockResolvedValueOnce('stale-token')
+        .mockResolvedValueOnce('fresh-token');
+      const refreshing = new AsqioClient(createConfig({ getToken }));
+      fetchMock
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(okJson({ unread_count: 0 }));
+
+      await refreshing.getUnreadCount();
+
+      expect(getToken).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].headers['Authorization']).toBe('Bearer fresh-token');
+    });
+
+    it('throws UNAUTHORIZED when the replayed request is rejected again', async () => {
+      const refreshToken = vi.fn(async () => 'fresh-token');
+      const refreshing = new AsqioClient(createConfig({ refreshToken }));
+      fetchMock.mockResolvedValue(unauthorized());
+
+      const err = await refreshing.getUnreadCount().catch((e) => e as AsqioError);
+
+      expect(err.code).toBe('UNAUTHORIZED');
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws the original 401 when refreshing fails', async () => {
+      const refreshing = new AsqioClient(
+        createConfig({
+          refreshToken: async () => {
+            throw new Error('Session expired');
+          },
+        }),
+      );
+      fetchMock.mockResolvedValueOnce(unauthorized());
+
+      const err = await refreshing.getUnreadCount().catch((e) => e as AsqioError);
+
+      expect(err).toBeInstanceOf(AsqioError);
+      expect(err.statusCode).toBe(401);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('coalesces concurrent refreshes into a single call', async () => {
+      let current = 'stale-token';
+      const refreshToken = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        current = 'fresh-token';
+        return current;
+      });
+      const refreshing = new AsqioClient(
+        createConfig({ getToken: async () => current, refreshToken }),
+      );
+      fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>;
+        if (headers['Authorization'] === 'Bearer stale-token') return unauthorized();
+        if (_url.endsWith('/topics')) return okJson({ topics: [] });
+        if (_url.endsWith('/unread_count')) return okJson({ unread_count: 0 });
+        return okJson({ tickets: [], meta: {} });
+      });
+
+      await Promise.all([
+        refreshing.getTickets(),
+        refreshing.getUnreadCount(),
+        refreshing.getTopics(),
+      ]);
+
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // =======================================================================
   // baseUrl trailing slash normalization
   // =======================================================================
@@ -171,4 +171,50 @@ describe('detectDeviceInfo', () => {
       expect(info.timezone.length).toBeGreaterThan(0);
     });
   });
+
+  // -----------------------------------------------------------------------
+  // Non-browser environments
+  // -----------------------------------------------------------------------
+
+  describe('non-browser environments', () => {
+    it('falls back to defaults when navigator is undefined', () => {
+      Object.defineProperty(globalThis, 'navigator', {
+        value: undefined,
+        writable: true,
+        configurable: true,
+      });
+
+      const info = detectDeviceInfo();
+
+      expect(info).toEqual({
+        platform: 'web',
+        os_version: 'Unknown',
+        device_model: 'Unknown',
+        locale: 'en',
+        timezone: expect.any(String),
+      });
+    });
+
+    it('falls back to "en" when navigator.language is missing', () => {
+      Object.defineProperty(globalThis, 'navigator', {
+        value: { userAgent: 'Node.js/22' },
+        writable: true,
+        configurable: true,
+      });
+
+      expect(detectDeviceInfo().locale).toBe('en');
+    });
+
+    it('falls back to UTC when Intl.DateTimeFormat throws', () => {
+      const spy = vi.spyOn(Intl, 'DateTimeFormat').mockImplementation(() => {
+        throw new Error('Intl unavailable');
+      });
+
+      try {
+        expect(detectDeviceInfo().timezone).toBe('UTC');
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
 });
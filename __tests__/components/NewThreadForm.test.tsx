@@ -21,6 +21,43 @@ vi.mock('../../src/hooks/useCreateTicket', () => ({
   }),
 }));
 
+const mockClearAttachments = vi.fn();
+const mockAddAttachments = vi.fn();
+let uploadedAttachments: { id: string }[] = [];
+
+vi.mock('../../src/hooks/useAttachmentUpload', () => ({
+  useAttachmentUpload: () => ({
+    attachments: [],
+    uploaded: uploadedAttachments,
+    uploading: false,
+    accept: 'image/*',
+    add: mockAddAttachments,
+    remove: vi.fn(),
+    clear: mockClearAttachments,
+  }),
+}));
+
+let findSensitiveData: ((text: string) => { type: string; value: string; index: number }[]) | undefined;
+
+vi.mock('../../src/hooks/useSensitiveDataCheck', () => ({
+  useSensitiveDataCheck: () => findSensitiveData,
+}));
+
+let diagnosticsCollector: { summarize: () => unknown } | null = null;
+
+vi.mock('../../src/context/AsqioContext', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/context/AsqioContext')>()),
+  useDiagnostics: () => diagnosticsCollector,
+}));
+
+const mockCaptureScreenshot = vi.fn();
+const mockRedactScreenshot = vi.fn();
+
+vi.mock('../../src/screenshot/capture', () => ({
+  captureScreenshot: () => mockCaptureScreenshot(),
+  redactScreenshot: (...args: unknown[]) => mockRedactScreenshot(...args),
+}));
+
 let topicsReturnValue = { topics: mockTopics, loading: false, error: null, refetch: vi.fn() };
 
 vi.mock('../../src/hooks/useTopics', () => ({
@@ -47,10 +84,14 @@ describe('NewThreadForm', () => {
     vi.clearAllMocks();
     mockCreate.mockResolvedValue(sampleTicket);
     topicsReturnValue = { topics: mockTopics, loading: false, error: null, refetch: vi.fn() };
+    uploadedAttachments = [];
+    diagnosticsCollector = null;
+    findSensitiveData = undefined;
   });
 
   afterEach(() => {
     cleanup();
+    vi.unstubAllGlobals();
   });
 
   it('should render topic selector when topics are available', () => {
@@ -91,7 +132,7 @@ describe('NewThreadForm', () => {
         title: undefined,
         topic_id: 'topic-1',
         context: undefined,
-      });
+      }, { idempotencyKey: expect.any(String) });
     });
   });
 
@@ -113,7 +154,181 @@ describe('NewThreadForm', () => {
         title: undefined,
         topic_id: undefined,
         context: undefined,
-      });
+      }, { idempotencyKey: expect.any(String) });
+    });
+  });
+
+  it('should reuse the idempotency key until the input changes or the ticket is created', async () => {
+    // 作成が終わらない間の連打
+    mockCreate.mockReturnValue(new Promise(() => {}));
+    render(<NewThreadForm />);
+    const textarea = screen.getByPlaceholderText('お問い合わせ内容を入力してください');
+
+    fireEvent.change(textarea, { target: { value: 'テストメッセージ' } });
+    fireEvent.click(screen.getByText('送信'));
+    fireEvent.click(screen.getByText('送信'));
+    fireEvent.change(textarea, { target: { value: '別のメッセージ' } });
+    fireEvent.click(screen.getByText('送信'));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledTimes(3);
     });
+    const keys = mockCreate.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  it('should use a new idempotency key after the ticket is created', async () => {
+    render(<NewThreadForm />);
+    const textarea = screen.getByPlaceholderText('お問い合わせ内容を入力してください');
+
+    fireEvent.change(textarea, { target: { value: 'テストメッセージ' } });
+    fireEvent.click(screen.getByText('送信'));
+    await waitFor(() => {
+      expect(mockClearAttachments).toHaveBeenCalledTimes(1);
+    });
+    fireEvent.click(screen.getByText('送信'));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+    });
+    const keys = mockCreate.mock.calls.map(([, options]) => options.idempotencyKey);
+    expect(keys[1]).not.toBe(keys[0]);
+  });
+
+  it('should submit uploaded attachment ids with the ticket', async () => {
+    uploadedAttachments = [{ id: 'att-1' }, { id: 'att-2' }];
+    render(<NewThreadForm />);
+
+    fireEvent.change(screen.getByPlaceholderText('お問い合わせ内容を入力してください'), {
+      target: { value: 'スクリーンショットを添付します' },
+    });
+    fireEvent.click(screen.getByText('送信'));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ attachment_ids: ['att-1', 'att-2'] }),
+        { idempotencyKey: expect.any(String) },
+      );
+    });
+    expect(mockClearAttachments).toHaveBeenCalled();
+  });
+
+  it('should merge the diagnostics summary into the context', async () => {
+    const summary = { collected_at: '2026-01-01T00:00:00Z', entries: [], dropped: 0 };
+    diagnosticsCollector = { summarize: () => summary };
+    render(<NewThreadForm context={{ page: '/checkout' }} />);
+
+    fireEvent.change(screen.getByPlaceholderText('お問い合わせ内容を入力してください'), {
+      target: { value: '決済できません' },
+    });
+    fireEvent.click(screen.getByText('送信'));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ context: { page: '/checkout', diagnostics: summary } }),
+        { idempotencyKey: expect.any(String) },
+      );
+    });
+  });
+
+  it('should warn before creating a ticket with sensitive data', async () => {
+    findSensitiveData = () => [{ type: 'phone', value: '090-1234-5678', index: 0 }];
+    render(<NewThreadForm />);
+
+    fireEvent.change(screen.getByPlaceholderText('お問い合わせ内容を入力してください'), {
+      target: { value: '090-1234-5678 に連絡ください' },
+    });
+    fireEvent.click(screen.getByText('送信'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('電話番号が含まれている可能性があります');
+    expect(mockCreate).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('このまま送信'));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ message: '090-1234-5678 に連絡ください' }),
+        { idempotencyKey: expect.any(String) },
+      );
+    });
+  });
+
+  // ---- Screenshot ------------------------------------------------------------
+
+  it('should not offer a screenshot unless enabled', () => {
+    render(<NewThreadForm />);
+
+    expect(screen.queryByText('このページのスクリーンショットを添付')).not.toBeInTheDocument();
+  });
+
+  it('should capture, redact and attach a screenshot of the page', async () => {
+    // jsdom には PointerEvent が無いため、座標を持てるよう MouseEvent で代用する
+    class FakePointerEvent extends MouseEvent {
+      pointerId: number;
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 0;
+      }
+    }
+    vi.stubGlobal('PointerEvent', FakePointerEvent);
+
+    const canvas = { toDataURL: () => 'data:image/png;base64,AAAA' };
+    mockCaptureScreenshot.mockResolvedValue({ canvas, width: 400, height: 200 });
+    mockRedactScreenshot.mockResolvedValue(new Blob(['png'], { type: 'image/png' }));
+    render(<NewThreadForm screenshot />);
+
+    fireEvent.click(screen.getByText('このページのスクリーンショットを添付'));
+
+    const image = await screen.findByAltText('スクリーンショット');
+    const stage = image.parentElement!;
+    stage.getBoundingClientRect = () => ({
+      left: 0, top: 0, width: 200, height: 100, x: 0, y: 0, right: 200, bottom: 100, toJSON: () => ({}),
+    });
+
+    // 表示は半分の大きさなので、座標は 2 倍になる
+    fireEvent.pointerDown(stage, { clientX: 10, clientY: 10, pointerId: 1 });
+    fireEvent.pointerMove(stage, { clientX: 60, clientY: 40, pointerId: 1 });
+    fireEvent.pointerUp(stage, { clientX: 60, clientY: 40, pointerId: 1 });
+    fireEvent.click(screen.getByText('添付する'));
+
+    await waitFor(() => {
+      expect(mockAddAttachments).toHaveBeenCalledWith([expect.any(File)]);
+    });
+    expect(mockRedactScreenshot).toHaveBeenCalledWith(
+      expect.objectContaining({ width: 400 }),
+      [{ x: 20, y: 20, width: 100, height: 60 }],
+    );
+    const [[files]] = mockAddAttachments.mock.calls;
+    expect(files[0].type).toBe('image/png');
+    // 編集が終わったらフォームに戻る
+    expect(screen.getByPlaceholderText('お問い合わせ内容を入力してください')).toBeInTheDocument();
+  });
+
+  it('should keep the form input when the screenshot is cancelled', async () => {
+    mockCaptureScreenshot.mockResolvedValue({
+      canvas: { toDataURL: () => 'data:image/png;base64,AAAA' },
+      width: 400,
+      height: 200,
+    });
+    render(<NewThreadForm screenshot />);
+
+    fireEvent.change(screen.getByPlaceholderText('お問い合わせ内容を入力してください'), {
+      target: { value: '画面が崩れています' },
+    });
+    fireEvent.click(screen.getByText('このページのスクリーンショットを添付'));
+    fireEvent.click(await screen.findByText('キャンセル'));
+
+    expect(screen.getByPlaceholderText('お問い合わせ内容を入力してください')).toHaveValue('画面が崩れています');
+    expect(mockAddAttachments).not.toHaveBeenCalled();
+  });
+
+  it('should show an error when the page cannot be captured', async () => {
+    mockCaptureScreenshot.mockRejectedValue(new Error('Canvas is not supported'));
+    render(<NewThreadForm screenshot />);
+
+    fireEvent.click(screen.getByText('このページのスクリーンショットを添付'));
+
+    expect(await screen.findByText('スクリーンショットを撮影できませんでした')).toBeInTheDocument();
   });
 });
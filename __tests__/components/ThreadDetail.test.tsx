@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, cleanup } from '@testing-library/react';
 import { ThreadDetail } from '../../src/components/ThreadDetail/ThreadDetail';
-import type { TicketWithMessages, Message } from '../../src/types';
+import type { TicketWithMessages, Message, LocalMessage, SensitiveDataMatch } from '../../src/types';
 
 // ---------------------------------------------------------------------------
 // Mock hooks at the module level
@@ -10,9 +10,22 @@ import type { TicketWithMessages, Message } from '../../src/types';
 const mockRefetch = vi.fn();
 const mockMarkAsRead = vi.fn();
 const mockSend = vi.fn();
+const mockRetry = vi.fn();
+const mockDiscard = vi.fn();
+const mockAddFiles = vi.fn();
+const mockRemoveAttachment = vi.fn();
+const mockClearAttachments = vi.fn();
+const mockCloseTicket = vi.fn();
+const mockFetchOlder = vi.fn();
+const mockRefetchMessages = vi.fn();
+const mockReopenTicket = vi.fn();
+
+vi.mock('../../src/hooks/useTicketSummary', () => ({
+  useTicketSummary: vi.fn(),
+}));
 
-vi.mock('../../src/hooks/useTicket', () => ({
-  useTicket: vi.fn(),
+vi.mock('../../src/hooks/useInfiniteMessages', () => ({
+  useInfiniteMessages: vi.fn(),
 }));
 
 vi.mock('../../src/hooks/useMarkAsRead', () => ({
@@ -23,13 +36,45 @@ vi.mock('../../src/hooks/useSendMessage', () => ({
   useSendMessage: vi.fn(),
 }));
 
-import { useTicket } from '../../src/hooks/useTicket';
+vi.mock('../../src/hooks/useOutgoingMessages', () => ({
+  useOutgoingMessages: vi.fn(),
+}));
+
+vi.mock('../../src/hooks/useAttachmentUpload', () => ({
+  useAttachmentUpload: vi.fn(),
+}));
+
+vi.mock('../../src/hooks/useSensitiveDataCheck', () => ({
+  useSensitiveDataCheck: vi.fn(),
+}));
+
+vi.mock('../../src/hooks/useCloseTicket', () => ({
+  useCloseTicket: vi.fn(),
+}));
+
+vi.mock('../../src/hooks/useReopenTicket', () => ({
+  useReopenTicket: vi.fn(),
+}));
+
+import { useTicketSummary } from '../../src/hooks/useTicketSummary';
+import { useInfiniteMessages } from '../../src/hooks/useInfiniteMessages';
 import { useMarkAsRead } from '../../src/hooks/useMarkAsRead';
 import { useSendMessage } from '../../src/hooks/useSendMessage';
-
-const mockedUseTicket = vi.mocked(useTicket);
+import { useOutgoingMessages } from '../../src/hooks/useOutgoingMessages';
+import { useAttachmentUpload, type PendingAttachment } from '../../src/hooks/useAttachmentUpload';
+import { useSensitiveDataCheck } from '../../src/hooks/useSensitiveDataCheck';
+import { useCloseTicket } from '../../src/hooks/useCloseTicket';
+import { useReopenTicket } from '../../src/hooks/useReopenTicket';
+
+const mockedUseTicketSummary = vi.mocked(useTicketSummary);
+const mockedUseInfiniteMessages = vi.mocked(useInfiniteMessages);
 const mockedUseMarkAsRead = vi.mocked(useMarkAsRead);
 const mockedUseSendMessage = vi.mocked(useSendMessage);
+const mockedUseOutgoingMessages = vi.mocked(useOutgoingMessages);
+const mockedUseAttachmentUpload = vi.mocked(useAttachmentUpload);
+const mockedUseSensitiveDataCheck = vi.mocked(useSensitiveDataCheck);
+const mockedUseCloseTicket = vi.mocked(useCloseTicket);
+const mockedUseReopenTicket = vi.mocked(useReopenTicket);
 
 // ---------------------------------------------------------------------------
 // Test data
@@ -57,6 +102,7 @@ const sampleTicket: TicketWithMessages = {
   context: null,
   device_info: null,
   unread: false,
+  status: 'open',
   created_at: '2026-01-01T00:00:00Z',
   updated_at: '2026-01-15T10:05:00Z',
   messages: [sampleMessage1, sampleMessage2],
@@ -67,6 +113,11 @@ const untitledTicket: TicketWithMessages = {
   title: null,
 };
 
+const closedTicket: TicketWithMessages = {
+  ...sampleTicket,
+  status: 'closed',
+};
+
 // ---------------------------------------------------------------------------
 // Helper to set up default mocks
 // ---------------------------------------------------------------------------
@@ -76,14 +127,32 @@ function setupDefaultMocks(overrides?: {
   loading?: boolean;
   error?: Error | null;
   sending?: boolean;
+  outgoing?: LocalMessage[];
+  attachments?: PendingAttachment[];
+  findSensitiveData?: (text: string) => SensitiveDataMatch[];
+  hasOlderMessages?: boolean;
+  fetchingOlderMessages?: boolean;
 }) {
-  mockedUseTicket.mockReturnValue({
-    ticket: overrides?.ticket !== undefined ? overrides.ticket : sampleTicket,
+  const ticket = overrides?.ticket !== undefined ? overrides.ticket : sampleTicket;
+  mockedUseTicketSummary.mockReturnValue({
+    ticket,
     loading: overrides?.loading ?? false,
     error: overrides?.error ?? null,
     refetch: mockRefetch,
   });
 
+  // useInfiniteMessages は order: 'desc' で新しい順に返す
+  mockedUseInfiniteMessages.mockReturnValue({
+    messages: [...(ticket?.messages ?? [])].reverse(),
+    meta: null,
+    loading: overrides?.loading ?? false,
+    error: null,
+    hasNextPage: overrides?.hasOlderMessages ?? false,
+    fetchingNextPage: overrides?.fetchingOlderMessages ?? false,
+    fetchNextPage: mockFetchOlder,
+    refetch: mockRefetchMessages,
+  });
+
   mockMarkAsRead.mockResolvedValue(undefined);
   mockedUseMarkAsRead.mockReturnValue({
     markAsRead: mockMarkAsRead,
@@ -93,9 +162,40 @@ function setupDefaultMocks(overrides?: {
 
   mockedUseSendMessage.mockReturnValue({
     send: mockSend,
+    retry: mockRetry,
+    discard: mockDiscard,
     loading: overrides?.sending ?? false,
     error: null,
   });
+
+  mockedUseOutgoingMessages.mockReturnValue(overrides?.outgoing ?? []);
+
+  const attachments = overrides?.attachments ?? [];
+  mockedUseAttachmentUpload.mockReturnValue({
+    attachments,
+    uploaded: attachments.flatMap((a) => (a.attachment ? [a.attachment] : [])),
+    uploading: attachments.some((a) => a.status === 'uploading'),
+    accept: 'image/*',
+    add: mockAddFiles,
+    remove: mockRemoveAttachment,
+    clear: mockClearAttachments,
+  });
+
+  mockedUseSensitiveDataCheck.mockReturnValue(overrides?.findSensitiveData);
+
+  mockCloseTicket.mockResolvedValue(undefined);
+  mockedUseCloseTicket.mockReturnValue({
+    closeTicket: mockCloseTicket,
+    loading: false,
+    error: null,
+  });
+
+  mockReopenTicket.mockResolvedValue(undefined);
+  mockedUseReopenTicket.mockReturnValue({
+    reopenTicket: mockReopenTicket,
+    loading: false,
+    error: null,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -213,21 +313,426 @@ describe('ThreadDetail', () => {
     expect(screen.getByText('送信')).toBeInTheDocument();
   });
 
-  it('should disable message input while sending', () => {
+  it('should keep the message input enabled while sending', () => {
     setupDefaultMocks({ sending: true });
 
     render(<ThreadDetail ticketId="ticket-1" />);
 
+    expect(screen.getByPlaceholderText('メッセージを入力...')).not.toBeDisabled();
+  });
+
+  // ---- Optimistic messages ---------------------------------------------------
+
+  it('should send the message without waiting for a refetch', () => {
+    setupDefaultMocks();
+    mockSend.mockResolvedValue(sampleMessage1);
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    fireEvent.change(screen.getByPlaceholderText('メッセージを入力...'), {
+      target: { value: 'New message' },
+    });
+    fireEvent.click(screen.getByText('送信'));
+
+    expect(mockSend).toHaveBeenCalledWith('ticket-1', 'New message', []);
+    expect(mockRefetch).not.toHaveBeenCalled();
+  });
+
+  it('should render pending messages after the loaded ones', () => {
+    setupDefaultMocks({
+      outgoing: [{
+        id: 'local-1',
+        client_id: 'local-1',
+        sender_type: 'user',
+        sender_id: '',
+        body: 'Sending now',
+        created_at: '2026-01-15T10:10:00Z',
+        status: 'pending',
+      }],
+    });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('Sending now')).toBeInTheDocument();
+    expect(screen.getByText('送信中...')).toBeInTheDocument();
+  });
+
+  it('should offer retry and delete for failed messages', () => {
+    setupDefaultMocks({
+      outgoing: [{
+        id: 'local-1',
+        client_id: 'local-1',
+        sender_type: 'user',
+        sender_id: '',
+        body: 'Could not send',
+        created_at: '2026-01-15T10:10:00Z',
+        status: 'failed',
+      }],
+    });
+    mockRetry.mockResolvedValue(sampleMessage1);
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('送信できませんでした')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('再送'));
+    expect(mockRetry).toHaveBeenCalledWith('ticket-1', 'local-1');
+
+    fireEvent.click(screen.getByText('削除'));
+    expect(mockDiscard).toHaveBeenCalledWith('ticket-1', 'local-1');
+  });
+
+  it('should hide local messages once the server copy is loaded', () => {
+    setupDefaultMocks({
+      outgoing: [{
+        ...sampleMessage1,
+        client_id: 'local-1',
+        status: 'sent',
+      }],
+    });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getAllByText('Hello, I have a question.')).toHaveLength(1);
+  });
+
+  // ---- Redaction ------------------------------------------------------------
+
+  it('should ask for confirmation before sending sensitive data', () => {
+    setupDefaultMocks({
+      findSensitiveData: (text) => (text.includes('@')
+        ? [{ type: 'email', value: 'taro@example.com', index: 0 }]
+        : []),
+    });
+    mockSend.mockResolvedValue(sampleMessage1);
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    const input = screen.getByPlaceholderText('メッセージを入力...');
+    fireEvent.change(input, { target: { value: 'taro@example.com です' } });
+    fireEvent.click(screen.getByText('送信'));
+
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('メールアドレスが含まれている可能性があります');
+
+    fireEvent.click(screen.getByText('このまま送信'));
+
+    expect(mockSend).toHaveBeenCalledWith('ticket-1', 'taro@example.com です', []);
+    expect(input).toHaveValue('');
+  });
+
+  it('should keep the text when the user chooses to edit it', () => {
+    setupDefaultMocks({
+      findSensitiveData: () => [{ type: 'credit_card', value: '4242424242424242', index: 0 }],
+    });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    const input = screen.getByPlaceholderText('メッセージを入力...');
+    fireEvent.change(input, { target: { value: '4242424242424242' } });
+    fireEvent.click(screen.getByText('送信'));
+    fireEvent.click(screen.getByText('修正する'));
+
+    expect(mockSend).not.toHaveBeenCalled();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(input).toHaveValue('4242424242424242');
+  });
+
+  // ---- Attachments ---------------------------------------------------------
+
+  it('should send uploaded attachments with the message and clear them', () => {
+    const attachment = {
+      id: 'att-1',
+      filename: 'screen.png',
+      content_type: 'image/png',
+      byte_size: 2048,
+      url: 'https://cdn.example/screen.png',
+    };
+    setupDefaultMocks({
+      attachments: [{
+        id: 'local-att-1',
+        file: new File(['x'], 'screen.png', { type: 'image/png' }),
+        status: 'uploaded',
+        progress: 1,
+        attachment,
+        error: null,
+      }],
+    });
+    mockSend.mockResolvedValue(sampleMessage1);
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    // 本文が空でも添付があれば送信できる
+    fireEvent.click(screen.getByText('送信'));
+
+    expect(mockSend).toHaveBeenCalledWith('ticket-1', '', [attachment]);
+    expect(mockClearAttachments).toHaveBeenCalled();
+  });
+
+  it('should not allow sending while an attachment is uploading', () => {
+    setupDefaultMocks({
+      attachments: [{
+        id: 'local-att-1',
+        file: new File(['x'], 'report.pdf', { type: 'application/pdf' }),
+        status: 'uploading',
+        progress: 0.5,
+        attachment: null,
+        error: null,
+      }],
+    });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    fireEvent.change(screen.getByPlaceholderText('メッセージを入力...'), {
+      target: { value: 'With a file' },
+    });
+
+    expect(screen.getByText('report.pdf')).toBeInTheDocument();
+    expect(screen.getByText('送信')).toBeDisabled();
+  });
+
+  it('should render image and file attachments in messages', () => {
+    setupDefaultMocks({
+      ticket: {
+        ...sampleTicket,
+        messages: [{
+          ...sampleMessage2,
+          attachments: [
+            {
+              id: 'att-1',
+              filename: 'screen.png',
+              content_type: 'image/png',
+              byte_size: 2048,
+              url: 'https://cdn.example/screen.png',
+              thumbnail_url: 'https://cdn.example/screen_thumb.png',
+            },
+            {
+              id: 'att-2',
+              filename: 'invoice.pdf',
+              content_type: 'application/pdf',
+              byte_size: 3 * 1024 * 1024,
+              url: 'https://cdn.example/invoice.pdf',
+            },
+          ],
+        }],
+      },
+    });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByAltText('screen.png')).toHaveAttribute(
+      'src',
+      'https://cdn.example/screen_thumb.png',
+    );
+    const link = screen.getByText('invoice.pdf').closest('a');
+    expect(link).toHaveAttribute('href', 'https://cdn.example/invoice.pdf');
+    expect(screen.getByText('3.0 MB')).toBeInTheDocument();
+  });
+
+  it('should pass dropped files to the attachment uploader', () => {
+    setupDefaultMocks();
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    const file = new File(['x'], 'log.txt', { type: 'text/plain' });
+    fireEvent.drop(screen.getByPlaceholderText('メッセージを入力...').closest('form')!, {
+      dataTransfer: { files: [file] },
+    });
+
+    expect(mockAddFiles).toHaveBeenCalledWith([file]);
+  });
+
+  // ---- Status lifecycle ----------------------------------------------------
+
+  it('should show the status and close an open ticket', () => {
+    setupDefaultMocks();
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('対応中')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('クローズ'));
+
+    expect(mockCloseTicket).toHaveBeenCalledWith('ticket-1');
+  });
+
+  it('should disable the input and offer reopening for a closed ticket', () => {
+    setupDefaultMocks({ ticket: closedTicket });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('このお問い合わせはクローズされています')).toBeInTheDocument();
     expect(screen.getByPlaceholderText('メッセージを入力...')).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'クローズ' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('再開する'));
+
+    expect(mockReopenTicket).toHaveBeenCalledWith('ticket-1');
+  });
+
+  // ---- Message history -------------------------------------------------------
+
+  it('should load the latest messages from the paginated endpoint', () => {
+    setupDefaultMocks();
+
+    render(<ThreadDetail ticketId="ticket-1" messagesPerPage={20} />);
+
+    expect(mockedUseInfiniteMessages).toHaveBeenCalledWith('ticket-1', { order: 'desc', per_page: 20 });
+    const bodies = screen.getAllByText(/question|help you/).map((el) => el.textContent);
+    expect(bodies).toEqual(['Hello, I have a question.', 'Sure, how can I help you?']);
+  });
+
+  it('should load older messages when scrolled to the top and keep the position', () => {
+    setupDefaultMocks({ hasOlderMessages: true });
+
+    const { container, rerender } = render(<ThreadDetail ticketId="ticket-1" />);
+    const list = container.querySelector('.messages') as HTMLDivElement;
+    Object.defineProperty(list, 'scrollHeight', { configurable: true, value: 1000 });
+    Object.defineProperty(list, 'clientHeight', { configurable: true, value: 400 });
+
+    list.scrollTop = 500;
+    fireEvent.scroll(list);
+    expect(mockFetchOlder).not.toHaveBeenCalled();
+
+    list.scrollTop = 10;
+    fireEvent.scroll(list);
+    expect(mockFetchOlder).toHaveBeenCalledTimes(1);
+
+    // 古いメッセージが上に足されると、その高さ（未計測なので見積もりの 72px）だけ下にずらす
+    const olderMessage: Message = { ...sampleMessage1, id: 'msg-0', body: 'Older message' };
+    setupDefaultMocks({
+      ticket: { ...sampleTicket, messages: [olderMessage, sampleMessage1, sampleMessage2] },
+      hasOlderMessages: true,
+    });
+    rerender(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('Older message')).toBeInTheDocument();
+    expect(list.scrollTop).toBe(82);
+  });
+
+  it('should offer a button to load older messages', () => {
+    setupDefaultMocks({ hasOlderMessages: true });
+
+    render(<ThreadDetail ticketId="ticket-1" />);
+
+    fireEvent.click(screen.getByText('以前のメッセージを読み込む'));
+    expect(mockFetchOlder).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fetch twice while older messages are loading', () => {
+    setupDefaultMocks({ hasOlderMessages: true, fetchingOlderMessages: true });
+
+    const { container } = render(<ThreadDetail ticketId="ticket-1" />);
+    const list = container.querySelector('.messages') as HTMLDivElement;
+    list.scrollTop = 0;
+    fireEvent.scroll(list);
+
+    expect(mockFetchOlder).not.toHaveBeenCalled();
+    expect(screen.queryByText('以前のメッセージを読み込む')).not.toBeInTheDocument();
+  });
+
+  it('should separate messages from different days', () => {
+    const olderMessage: Message = { ...sampleMessage1, id: 'msg-0', body: 'Older message', created_at: '2026-01-10T10:00:00Z' };
+    setupDefaultMocks({
+      ticket: { ...sampleTicket, messages: [olderMessage, sampleMessage1, sampleMessage2] },
+    });
+
+    const { container } = render(<ThreadDetail ticketId="ticket-1" />);
+
+    const separators = [...container.querySelectorAll('.daySeparator')].map((el) => el.textContent);
+    expect(separators).toEqual(['2026年1月10日(土)', '2026年1月15日(木)']);
+  });
+
+  // ---- Scrolling -------------------------------------------------------------
+
+  const reply3: Message = { ...sampleMessage2, id: 'msg-3', body: 'Any update?' };
+  const reply4: Message = { ...sampleMessage2, id: 'msg-4', body: 'Please check the settings.' };
+
+  /** jsdom はレイアウトしないので、メッセージ一覧の寸法を与えて上の方までスクロールする */
+  function scrollUp(container: HTMLElement) {
+    const list = container.querySelector('.messages') as HTMLDivElement;
+    Object.defineProperty(list, 'scrollHeight', { configurable: true, value: 1000 });
+    Object.defineProperty(list, 'clientHeight', { configurable: true, value: 400 });
+    list.scrollTop = 300;
+    fireEvent.scroll(list);
+    return list;
+  }
+
+  function receive(messages: Message[]) {
+    setupDefaultMocks({ ticket: { ...sampleTicket, messages } });
+  }
+
+  it('should scroll to the bottom after sending', () => {
+    setupDefaultMocks();
+    mockSend.mockResolvedValue(sampleMessage1);
+
+    const { container } = render(<ThreadDetail ticketId="ticket-1" />);
+    const list = scrollUp(container);
+
+    fireEvent.change(screen.getByPlaceholderText('メッセージを入力...'), { target: { value: 'Thanks' } });
+    fireEvent.click(screen.getByText('送信'));
+
+    expect(list.scrollTop).toBe(1000);
+  });
+
+  it('should mark replies that arrive while scrolled up and jump to the latest', () => {
+    setupDefaultMocks();
+
+    const { container, rerender } = render(<ThreadDetail ticketId="ticket-1" />);
+    const list = scrollUp(container);
+
+    receive([sampleMessage1, sampleMessage2, reply3]);
+    rerender(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(list.scrollTop).toBe(300);
+    expect(screen.getByRole('separator').nextElementSibling).toHaveTextContent('Any update?');
+    expect(screen.getByText('1件の新着メッセージ ↓')).toBeInTheDocument();
+
+    receive([sampleMessage1, sampleMessage2, reply3, reply4]);
+    rerender(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('2件の新着メッセージ ↓')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('2件の新着メッセージ ↓'));
+
+    expect(list.scrollTop).toBe(1000);
+    expect(screen.queryByText(/件の新着メッセージ/)).not.toBeInTheDocument();
+    // 区切り線は読んだ後も残る
+    expect(screen.getByRole('separator').nextElementSibling).toHaveTextContent('Any update?');
+  });
+
+  it('should not mark replies that arrive at the bottom', () => {
+    setupDefaultMocks();
+
+    const { rerender } = render(<ThreadDetail ticketId="ticket-1" />);
+
+    receive([sampleMessage1, sampleMessage2, reply3]);
+    rerender(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.getByText('Any update?')).toBeInTheDocument();
+    expect(screen.queryByRole('separator')).not.toBeInTheDocument();
+    expect(screen.queryByText(/件の新着メッセージ/)).not.toBeInTheDocument();
+  });
+
+  it('should not count the user\'s own messages as new', () => {
+    setupDefaultMocks();
+
+    const { container, rerender } = render(<ThreadDetail ticketId="ticket-1" />);
+    scrollUp(container);
+
+    receive([sampleMessage1, sampleMessage2, { ...sampleMessage1, id: 'msg-3', body: 'From another tab' }]);
+    rerender(<ThreadDetail ticketId="ticket-1" />);
+
+    expect(screen.queryByRole('separator')).not.toBeInTheDocument();
+    expect(screen.queryByText(/件の新着メッセージ/)).not.toBeInTheDocument();
   });
 
-  // ---- Passing ticketId to useTicket ----------------------------------------
+  // ---- Passing ticketId to useTicketSummary ---------------------------------
 
-  it('should pass the ticketId to useTicket', () => {
+  it('should pass the ticketId to useTicketSummary', () => {
     setupDefaultMocks();
 
     render(<ThreadDetail ticketId="ticket-42" />);
 
-    expect(mockedUseTicket).toHaveBeenCalledWith('ticket-42');
+    expect(mockedUseTicketSummary).toHaveBeenCalledWith('ticket-42');
   });
 });
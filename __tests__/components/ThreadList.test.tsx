@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
 import { ThreadList } from '../../src/components/ThreadList/ThreadList';
+import { AsqioProvider } from '../../src/context/AsqioContext';
+import { AsqioTimeoutError } from '../../src/client/errors';
 import type { Ticket, PaginationMeta } from '../../src/types';
 
 // Mock the useTickets hook at the module level so the component
@@ -12,10 +14,25 @@ vi.mock('../../src/hooks/useTickets', () => ({
   useTickets: vi.fn(),
 }));
 
+vi.mock('../../src/hooks/useInfiniteTickets', () => ({
+  useInfiniteTickets: vi.fn(),
+}));
+
+vi.mock('../../src/hooks/useTopics', () => ({
+  useTopics: vi.fn(),
+}));
+
 // Import the mocked module so we can control its return value per test.
 import { useTickets } from '../../src/hooks/useTickets';
 const mockedUseTickets = vi.mocked(useTickets);
 
+import { useTopics } from '../../src/hooks/useTopics';
+const mockedUseTopics = vi.mocked(useTopics);
+
+import { useInfiniteTickets } from '../../src/hooks/useInfiniteTickets';
+const mockedUseInfiniteTickets = vi.mocked(useInfiniteTickets);
+const mockFetchNextPage = vi.fn();
+
 // ---------------------------------------------------------------------------
 // Test data
 // ---------------------------------------------------------------------------
@@ -36,6 +53,7 @@ const unreadTicket: Ticket = {
   context: null,
   device_info: null,
   unread: true,
+  status: 'pending',
   created_at: '2026-01-02T00:00:00Z',
   updated_at: '2026-01-16T00:00:00Z',
 };
@@ -68,6 +86,15 @@ describe('ThreadList', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockedUseTopics.mockReturnValue({
+      topics: [
+        { id: 'topic-1', name: '請求' },
+        { id: 'topic-2', name: '不具合' },
+      ],
+      loading: false,
+      error: null,
+      refetch: vi.fn(),
+    });
   });
 
   // ---- Loading state -------------------------------------------------------
@@ -104,6 +131,23 @@ describe('ThreadList', () => {
     expect(screen.getByText('エラーが発生しました')).toBeInTheDocument();
   });
 
+  it('should offer a retry when the request timed out', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [],
+      meta: null,
+      loading: false,
+      error: new AsqioTimeoutError(30000),
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    expect(screen.getByText('応答に時間がかかっています')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('再試行'));
+    expect(mockRefetch).toHaveBeenCalledTimes(1);
+  });
+
   // ---- Empty state ---------------------------------------------------------
 
   it('should show empty message when there are no tickets', () => {
@@ -139,6 +183,23 @@ describe('ThreadList', () => {
     expect(screen.getByText('Unread Ticket')).toBeInTheDocument();
   });
 
+  it('should show how long ago each ticket was updated with the full date on hover', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [{ ...sampleTicket, updated_at: new Date(Date.now() - 5 * 60 * 1000).toISOString() }],
+      meta: null,
+      loading: false,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    const time = screen.getByText('5 分前');
+    expect(time.tagName).toBe('TIME');
+    expect(time).toHaveAttribute('title', expect.stringMatching(/\d{4}年\d{1,2}月\d{1,2}日/));
+  });
+
   it('should render "(無題)" for tickets with null title', () => {
     mockedUseTickets.mockReturnValue({
       tickets: [untitledTicket],
@@ -311,4 +372,258 @@ describe('ThreadList', () => {
     expect(screen.queryByText('前へ')).not.toBeInTheDocument();
     expect(screen.queryByText('次へ')).not.toBeInTheDocument();
   });
+
+  // ---- Status -------------------------------------------------------------
+
+  it('should render a status chip for tickets with a status', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [sampleTicket, unreadTicket],
+      meta: null,
+      loading: false,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+
+    const { container } = render(<ThreadList onSelectTicket={vi.fn()} showStatusFilter={false} />);
+
+    expect(screen.getByText('返信待ち')).toBeInTheDocument();
+    expect(container.querySelectorAll('.chip')).toHaveLength(1);
+  });
+
+  it('should filter tickets by status', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [],
+      meta: null,
+      loading: false,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+
+    render(<ThreadList onSelectTicket={vi.fn()} paginationParams={{ per_page: 10 }} />);
+
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({ per_page: 10 });
+
+    fireEvent.click(screen.getByRole('button', { name: '解決済み' }));
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({ per_page: 10, status: 'resolved' });
+    expect(screen.getByRole('button', { name: '解決済み' })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'すべて' }));
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({ per_page: 10 });
+  });
+
+  it('should start from the default status', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [],
+      meta: null,
+      loading: false,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+
+    render(<ThreadList onSelectTicket={vi.fn()} defaultStatus="open" />);
+
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({ status: 'open' });
+  });
+
+  // ---- Search and filters ---------------------------------------------------
+
+  function mockEmptyList() {
+    mockedUseTickets.mockReturnValue({
+      tickets: [],
+      meta: null,
+      loading: false,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+  }
+
+  it('should debounce the search query', () => {
+    vi.useFakeTimers();
+    try {
+      mockEmptyList();
+      render(<ThreadList onSelectTicket={vi.fn()} searchDebounceMs={300} />);
+
+      const input = screen.getByLabelText('お問い合わせを検索');
+      fireEvent.change(input, { target: { value: 'ログ' } });
+      fireEvent.change(input, { target: { value: 'ログイン ' } });
+      expect(mockedUseTickets).toHaveBeenLastCalledWith({});
+
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(mockedUseTickets).toHaveBeenLastCalledWith({ q: 'ログイン' });
+      expect(input).toHaveValue('ログイン ');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should filter by topic, unread and sort order', () => {
+    mockEmptyList();
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('トピック'), { target: { value: 'topic-2' } });
+    fireEvent.click(screen.getByLabelText('未読のみ'));
+    fireEvent.change(screen.getByLabelText('並び順'), { target: { value: 'created_asc' } });
+
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({
+      topic_id: 'topic-2',
+      unread: true,
+      sort: 'created_asc',
+    });
+  });
+
+  it('should filter by updated date range', () => {
+    mockEmptyList();
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('更新日（から）'), { target: { value: '2026-01-01' } });
+    fireEvent.change(screen.getByLabelText('更新日（まで）'), { target: { value: '2026-01-31' } });
+
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({
+      updated_from: new Date('2026-01-01T00:00:00').toISOString(),
+      updated_to: new Date('2026-01-31T23:59:59.999').toISOString(),
+    });
+  });
+
+  it('should compute the date range in the provider time zone', () => {
+    mockEmptyList();
+    render(
+      <AsqioProvider
+        baseUrl="https://api.example.com"
+        tenantKey="test"
+        getToken={async () => 'token'}
+        locale="ja"
+        timeZone="Asia/Tokyo"
+      >
+        <ThreadList onSelectTicket={vi.fn()} />
+      </AsqioProvider>,
+    );
+
+    fireEvent.change(screen.getByLabelText('更新日（から）'), { target: { value: '2026-01-01' } });
+    fireEvent.change(screen.getByLabelText('更新日（まで）'), { target: { value: '2026-01-31' } });
+
+    expect(mockedUseTickets).toHaveBeenLastCalledWith({
+      updated_from: '2025-12-31T15:00:00.000Z',
+      updated_to: '2026-01-31T14:59:59.999Z',
+    });
+  });
+
+  it('should show a different empty message when filters match nothing', () => {
+    mockEmptyList();
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    fireEvent.click(screen.getByLabelText('未読のみ'));
+
+    expect(screen.getByText('条件に一致する問い合わせはありません')).toBeInTheDocument();
+  });
+
+  it('should keep the search box while loading results', () => {
+    mockedUseTickets.mockReturnValue({
+      tickets: [],
+      meta: null,
+      loading: true,
+      error: null,
+      refetch: mockRefetch,
+      fetchPage: mockFetchPage,
+    });
+    render(<ThreadList onSelectTicket={vi.fn()} />);
+
+    expect(screen.getByText('読み込み中...')).toBeInTheDocument();
+    expect(screen.getByLabelText('お問い合わせを検索')).toBeInTheDocument();
+  });
+
+  it('should hide the search box and filters when disabled', () => {
+    mockEmptyList();
+    render(<ThreadList onSelectTicket={vi.fn()} showSearch={false} showFilters={false} />);
+
+    expect(screen.queryByLabelText('お問い合わせを検索')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('並び順')).not.toBeInTheDocument();
+    expect(mockedUseTopics).not.toHaveBeenCalled();
+  });
+
+  // ---- Infinite mode --------------------------------------------------------
+
+  describe('infinite mode', () => {
+    let observerCallback: IntersectionObserverCallback | null = null;
+    const observe = vi.fn();
+    const disconnect = vi.fn();
+
+    beforeEach(() => {
+      observerCallback = null;
+      vi.stubGlobal('IntersectionObserver', vi.fn((callback: IntersectionObserverCallback) => {
+        observerCallback = callback;
+        return { observe, disconnect, unobserve: vi.fn(), takeRecords: vi.fn() };
+      }));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function mockInfinite(overrides: Partial<ReturnType<typeof useInfiniteTickets>> = {}) {
+      mockedUseInfiniteTickets.mockReturnValue({
+        tickets: [sampleTicket, unreadTicket],
+        meta: sampleMeta,
+        loading: false,
+        error: null,
+        hasNextPage: true,
+        fetchingNextPage: false,
+        fetchNextPage: mockFetchNextPage,
+        refetch: mockRefetch,
+        ...overrides,
+      });
+    }
+
+    it('should use useInfiniteTickets instead of paging buttons', () => {
+      mockInfinite();
+      render(<ThreadList onSelectTicket={vi.fn()} infinite paginationParams={{ per_page: 10 }} />);
+
+      expect(mockedUseInfiniteTickets).toHaveBeenLastCalledWith({ per_page: 10 });
+      expect(mockedUseTickets).not.toHaveBeenCalled();
+      expect(screen.getByText('First Ticket')).toBeInTheDocument();
+      expect(screen.queryByText('次へ')).not.toBeInTheDocument();
+    });
+
+    it('should fetch the next page when the end of the list becomes visible', () => {
+      mockInfinite();
+      render(<ThreadList onSelectTicket={vi.fn()} infinite />);
+
+      expect(observe).toHaveBeenCalledTimes(1);
+      observerCallback?.([{ isIntersecting: false } as IntersectionObserverEntry], {} as IntersectionObserver);
+      expect(mockFetchNextPage).not.toHaveBeenCalled();
+
+      observerCallback?.([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+      expect(mockFetchNextPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should offer a load more button as a fallback', () => {
+      mockInfinite();
+      render(<ThreadList onSelectTicket={vi.fn()} infinite />);
+
+      fireEvent.click(screen.getByText('さらに読み込む'));
+      expect(mockFetchNextPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not observe once every page is loaded', () => {
+      mockInfinite({ hasNextPage: false });
+      render(<ThreadList onSelectTicket={vi.fn()} infinite />);
+
+      expect(observe).not.toHaveBeenCalled();
+      expect(screen.queryByText('さらに読み込む')).not.toBeInTheDocument();
+    });
+
+    it('should keep loaded tickets and offer a retry when the next page fails', () => {
+      mockInfinite({ error: new Error('Network error') });
+      render(<ThreadList onSelectTicket={vi.fn()} infinite />);
+
+      expect(screen.getByText('First Ticket')).toBeInTheDocument();
+      fireEvent.click(screen.getByText('再試行'));
+      expect(mockFetchNextPage).toHaveBeenCalledTimes(1);
+    });
+  });
 });
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from '@testing-library/react';
+import { AsqioClient } from '../../src/client/AsqioClient';
+import {
+  AsqioProvider,
+  useAsqioClient,
+  useDiagnostics,
+  useOutboxInstance,
+  useQueryCache,
+} from '../../src/context/AsqioContext';
+import { createMemoryStorage } from '../../src/outbox/storage';
+import type { Outbox } from '../../src/outbox/Outbox';
+import type { DiagnosticsCollector } from '../../src/diagnostics/Diagnostics';
+import type { AsqioConfig, RequestContext } from '../../src/types';
+import type { QueryCache } from '../../src/cache/QueryCache';
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => ({})),
+}));
+
+const getToken = async () => 'token';
+
+describe('AsqioProvider', () => {
+  let seen: { client: AsqioClient; cache: QueryCache }[];
+
+  function Probe() {
+    seen.push({ client: useAsqioClient(), cache: useQueryCache() });
+    return null;
+  }
+
+  /** 親の再描画のたびにオブジェクトと関数をインラインで作り直す */
+  function App({ maxBytes = 5 * 1024 * 1024, label = 'a' }: { maxBytes?: number; label?: string }) {
+    return (
+      <AsqioProvider
+        baseUrl="https://api.example.com"
+        tenantKey="test"
+        getToken={getToken}
+        fetch={(input, init) => globalThis.fetch(input, { ...init, headers: { 'X-Label': label } })}
+        retry={{ maxAttempts: 2, shouldRetry: () => label === 'a' }}
+        middleware={[{ onRequest: (context) => ({ ...context, url: `${context.url}?${label}` }) }]}
+        attachments={{ maxBytes }}
+        redaction={{ denyKeys: [/secret/i] }}
+      >
+        <Probe />
+      </AsqioProvider>
+    );
+  }
+
+  beforeEach(() => {
+    seen = [];
+    vi.mocked(AsqioClient).mockClear();
+  });
+
+  it('should keep the client and query cache when re-rendered with equal inline options', () => {
+    const { rerender } = render(<App />);
+    rerender(<App />);
+    rerender(<App />);
+    rerender(<App />);
+
+    expect(AsqioClient).toHaveBeenCalledTimes(1);
+    expect(seen).toHaveLength(4);
+    expect(new Set(seen.map((s) => s.client)).size).toBe(1);
+    expect(new Set(seen.map((s) => s.cache)).size).toBe(1);
+  });
+
+  it('should rebuild the client when an option changes', () => {
+    const { rerender } = render(<App />);
+    rerender(<App maxBytes={1024} />);
+
+    expect(AsqioClient).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(AsqioClient).mock.calls[1][0].attachments).toEqual({ maxBytes: 1024 });
+    expect(seen[1].client).not.toBe(seen[0].client);
+    expect(seen[1].cache).not.toBe(seen[0].cache);
+  });
+
+  it('should call the latest inline callbacks without rebuilding the client', async () => {
+    const { rerender } = render(<App />);
+    rerender(<App label="b" />);
+
+    expect(AsqioClient).toHaveBeenCalledTimes(1);
+    const config: AsqioConfig = vi.mocked(AsqioClient).mock.calls[0][0];
+    expect(config.retry?.shouldRetry?.({ attempt: 1, method: 'GET', path: '/tickets', error: new Error('failed') })).toBe(false);
+    const context = { url: '/tickets' } as RequestContext;
+    expect(await config.middleware?.[0].onRequest?.(context)).toMatchObject({ url: '/tickets?b' });
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response());
+    await config.fetch?.('/tickets');
+    expect(fetchSpy).toHaveBeenCalledWith('/tickets', { headers: { 'X-Label': 'b' } });
+    fetchSpy.mockRestore();
+  });
+
+  it('should keep the client, cache and outbox when token callbacks are passed inline', async () => {
+    const storage = createMemoryStorage();
+    const outboxes: (Outbox | null)[] = [];
+    function OutboxProbe() {
+      outboxes.push(useOutboxInstance());
+      return null;
+    }
+    const app = (token: string) => (
+      <AsqioProvider
+        baseUrl="https://api.example.com"
+        tenantKey="test"
+        getToken={async () => token}
+        refreshToken={async () => `${token}-refreshed`}
+        outbox={{ storage }}
+      >
+        <Probe />
+        <OutboxProbe />
+      </AsqioProvider>
+    );
+
+    const { rerender, unmount } = render(app('first'));
+    rerender(app('second'));
+
+    expect(AsqioClient).toHaveBeenCalledTimes(1);
+    expect(seen[1].cache).toBe(seen[0].cache);
+    expect(outboxes[1]).toBe(outboxes[0]);
+    const config: AsqioConfig = vi.mocked(AsqioClient).mock.calls[0][0];
+    await expect(config.getToken()).resolves.toBe('second');
+    await expect(config.refreshToken?.()).resolves.toBe('second-refreshed');
+    unmount();
+  });
+
+  it('should rebuild the diagnostics collector only when its options change', () => {
+    const collectors: (DiagnosticsCollector | null)[] = [];
+    function DiagnosticsProbe() {
+      collectors.push(useDiagnostics());
+      return null;
+    }
+    const app = (maxEntries: number) => (
+      <AsqioProvider
+        baseUrl="https://api.example.com"
+        tenantKey="test"
+        getToken={getToken}
+        diagnostics={{ maxEntries, network: false }}
+      >
+        <DiagnosticsProbe />
+      </AsqioProvider>
+    );
+
+    const { rerender, unmount } = render(app(30));
+    rerender(app(30));
+    rerender(app(10));
+
+    expect(collectors[0]).not.toBeNull();
+    expect(collectors[1]).toBe(collectors[0]);
+    expect(collectors[2]).not.toBe(collectors[0]);
+    unmount();
+  });
+});
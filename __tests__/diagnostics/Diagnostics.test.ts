@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DiagnosticsCollector, stripUrl, withDiagnostics } from '../../src/diagnostics/Diagnostics';
+
+describe('DiagnosticsCollector', () => {
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('should keep only the most recent entries', () => {
+    const collector = new DiagnosticsCollector({ maxEntries: 2 });
+
+    collector.addBreadcrumb('one');
+    collector.addBreadcrumb('two');
+    collector.addBreadcrumb('three');
+
+    expect(collector.getEntries().map((e) => e.message)).toEqual(['two', 'three']);
+    expect(collector.summarize().dropped).toBe(1);
+  });
+
+  it('should cap the summary size, keeping the newest entries', () => {
+    const collector = new DiagnosticsCollector({ maxBytes: 400 });
+    for (let i = 0; i < 10; i++) {
+      collector.addBreadcrumb(`step ${i} ${'x'.repeat(40)}`);
+    }
+
+    const summary = collector.summarize();
+
+    expect(new TextEncoder().encode(JSON.stringify(summary)).length).toBeLessThanOrEqual(400);
+    expect(summary.entries.length).toBeGreaterThan(0);
+    expect(summary.entries.length).toBeLessThan(10);
+    expect(summary.entries[summary.entries.length - 1].message).toContain('step 9');
+    expect(summary.dropped).toBe(10 - summary.entries.length);
+  });
+
+  it('should truncate long messages', () => {
+    const collector = new DiagnosticsCollector();
+
+    collector.addBreadcrumb('a'.repeat(1000));
+
+    expect(collector.getEntries()[0].message.length).toBeLessThanOrEqual(501);
+  });
+
+  it('should let the redact option rewrite or drop entries', () => {
+    const collector = new DiagnosticsCollector({
+      redact: (entry) => (entry.message.includes('secret')
+        ? null
+        : { ...entry, message: entry.message.toUpperCase() }),
+    });
+
+    collector.addBreadcrumb('secret step');
+    collector.addBreadcrumb('opened settings');
+
+    expect(collector.getEntries().map((e) => e.message)).toEqual(['OPENED SETTINGS']);
+  });
+
+  it('should record console errors and restore console.error on stop', () => {
+    const original = console.error;
+    const collector = new DiagnosticsCollector();
+    stop = collector.start();
+
+    console.error('Something broke', new TypeError('x is undefined'));
+
+    expect(original).toHaveBeenCalledWith('Something broke', expect.any(TypeError));
+    expect(collector.getEntries()).toEqual([
+      expect.objectContaining({ type: 'console', message: 'Something broke TypeError: x is undefined' }),
+    ]);
+
+    stop();
+    stop = undefined;
+    expect(console.error).toBe(original);
+  });
+
+  it('should record uncaught errors and unhandled rejections', () => {
+    const collector = new DiagnosticsCollector();
+    stop = collector.start();
+
+    window.dispatchEvent(new ErrorEvent('error', {
+      message: 'boom',
+      error: new Error('boom'),
+      filename: 'https://app.example/main.js?v=1',
+      lineno: 10,
+    }));
+    const rejection = new Event('unhandledrejection') as PromiseRejectionEvent;
+    Object.defineProperty(rejection, 'reason', { value: new Error('nope') });
+    window.dispatchEvent(rejection);
+
+    expect(collector.getEntries()).toEqual([
+      expect.objectContaining({
+        type: 'error',
+        message: 'Error: boom',
+        data: { source: 'https://app.example/main.js', line: 10 },
+      }),
+      expect.objectContaining({ type: 'unhandledrejection', message: 'Error: nope' }),
+    ]);
+  });
+
+  it('should record failed fetch requests without query strings', async () => {
+    const originalFetch = window.fetch;
+    window.fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 500 } as Response)
+      .mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    try {
+      const collector = new DiagnosticsCollector();
+      stop = collector.start();
+
+      await window.fetch('https://api.example/orders?token=abc', { method: 'post' });
+      await window.fetch('https://api.example/ok');
+      await window.fetch('https://api.example/down').catch(() => {});
+
+      expect(collector.getEntries()).toEqual([
+        expect.objectContaining({
+          type: 'network',
+          message: 'POST https://api.example/orders 500',
+          data: { method: 'POST', url: 'https://api.example/orders', status: 500 },
+        }),
+        expect.objectContaining({
+          type: 'network',
+          message: 'GET https://api.example/down failed: TypeError: Failed to fetch',
+        }),
+      ]);
+    } finally {
+      stop?.();
+      stop = undefined;
+      window.fetch = originalFetch;
+    }
+  });
+
+  it('should record navigation breadcrumbs', () => {
+    const collector = new DiagnosticsCollector();
+    stop = collector.start();
+    const from = window.location.pathname;
+
+    history.pushState(null, '', '/settings?tab=billing');
+
+    expect(collector.getEntries()).toEqual([
+      expect.objectContaining({
+        type: 'navigation',
+        data: { from, to: '/settings' },
+      }),
+    ]);
+    history.replaceState(null, '', from);
+  });
+
+  it('should skip disabled sources', () => {
+    const original = console.error;
+    const collector = new DiagnosticsCollector({ console: false });
+    stop = collector.start();
+
+    expect(console.error).toBe(original);
+  });
+});
+
+describe('stripUrl', () => {
+  it('should remove query strings and fragments', () => {
+    expect(stripUrl('https://a.example/p?x=1#y')).toBe('https://a.example/p');
+    expect(stripUrl('/path#section')).toBe('/path');
+  });
+});
+
+describe('withDiagnostics', () => {
+  it('should merge the summary into the context', () => {
+    const collector = new DiagnosticsCollector();
+    collector.addBreadcrumb('clicked pay');
+
+    const context = withDiagnostics({ page: '/checkout' }, collector);
+
+    expect(context).toEqual({
+      page: '/checkout',
+      diagnostics: {
+        collected_at: expect.any(String),
+        entries: [expect.objectContaining({ type: 'breadcrumb', message: 'clicked pay' })],
+        dropped: 0,
+      },
+    });
+  });
+
+  it('should return the context unchanged without a collector', () => {
+    const context = { page: '/checkout' };
+
+    expect(withDiagnostics(context, null)).toBe(context);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider } from '../../src/context/AsqioContext';
+import { useAttachmentUpload } from '../../src/hooks/useAttachmentUpload';
+import { AsqioAbortError, AsqioAttachmentError, AsqioError } from '../../src/client/errors';
+import type { Attachment, UploadOptions } from '../../src/types';
+
+const mockClient = {
+  uploadAttachment: vi.fn(),
+  attachmentRules: { maxBytes: 1024, acceptedTypes: ['image/*', 'application/pdf'] },
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={async () => 'token'}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+function file(name = 'screen.png', type = 'image/png'): File {
+  return new File(['data'], name, { type });
+}
+
+function attachment(id: string): Attachment {
+  return {
+    id,
+    filename: 'screen.png',
+    content_type: 'image/png',
+    byte_size: 4,
+    url: `https://cdn.example/${id}`,
+  };
+}
+
+describe('useAttachmentUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should upload added files and expose them once uploaded', async () => {
+    mockClient.uploadAttachment.mockResolvedValue(attachment('a1'));
+    const { result } = renderHook(() => useAttachmentUpload(), { wrapper });
+
+    act(() => {
+      result.current.add([file()]);
+    });
+
+    expect(result.current.uploading).toBe(true);
+    expect(result.current.attachments[0].status).toBe('uploading');
+
+    await waitFor(() => {
+      expect(result.current.uploading).toBe(false);
+    });
+    expect(result.current.attachments[0].status).toBe('uploaded');
+    expect(result.current.uploaded).toEqual([attachment('a1')]);
+    expect(result.current.accept).toBe('image/*,application/pdf');
+  });
+
+  it('should track upload progress', async () => {
+    let report: UploadOptions['onProgress'];
+    let finish: (value: Attachment) => void = () => {};
+    mockClient.uploadAttachment.mockImplementation((_file: File, options: UploadOptions) => {
+      report = options.onProgress;
+      return new Promise((resolve) => {
+        finish = resolve;
+      });
+    });
+    const { result } = renderHook(() => useAttachmentUpload(), { wrapper });
+
+    act(() => {
+      result.current.add([file()]);
+    });
+    act(() => {
+      report?.({ loaded: 1, total: 4 });
+    });
+
+    expect(result.current.attachments[0].progress).toBe(0.25);
+
+    await act(async () => {
+      finish(attachment('a1'));
+    });
+
+    expect(result.current.attachments[0].progress).toBe(1);
+  });
+
+  it('should keep failed uploads with their error', async () => {
+    const error = new AsqioAttachmentError('too big', 'too_large');
+    mockClient.uploadAttachment.mockRejectedValue(error);
+    const { result } = renderHook(() => useAttachmentUpload(), { wrapper });
+
+    act(() => {
+      result.current.add([file()]);
+    });
+
+    await waitFor(() => {
+      expect(result.current.attachments[0].status).toBe('failed');
+    });
+    expect(result.current.attachments[0].error).toBe(error);
+    expect(result.current.uploaded).toEqual([]);
+  });
+
+  it('should reject files beyond maxFiles without uploading them', async () => {
+    mockClient.uploadAttachment.mockResolvedValue(attachment('a1'));
+    const { result } = renderHook(() => useAttachmentUpload({ maxFiles: 1 }), { wrapper });
+
+    act(() => {
+      result.current.add([file('one.png'), file('two.png')]);
+    });
+
+    expect(mockClient.uploadAttachment).toHaveBeenCalledTimes(1);
+    const rejected = result.current.attachments[1];
+    expect(rejected.status).toBe('failed');
+    expect(rejected.error).toBeInstanceOf(AsqioError);
+    expect((rejected.error as AsqioAttachmentError).reason).toBe('too_many');
+
+    await waitFor(() => {
+      expect(result.current.uploaded).toHaveLength(1);
+    });
+  });
+
+  it('should abort the upload when an attachment is removed', async () => {
+    let signal: AbortSignal | undefined;
+    mockClient.uploadAttachment.mockImplementation((_file: File, options: UploadOptions) => {
+      signal = options.signal;
+      return new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new AsqioAbortError()));
+      });
+    });
+    const { result } = renderHook(() => useAttachmentUpload(), { wrapper });
+
+    act(() => {
+      result.current.add([file()]);
+    });
+    await act(async () => {
+      result.current.remove(result.current.attachments[0].id);
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.attachments).toEqual([]);
+  });
+
+  it('should clear all attachments', async () => {
+    mockClient.uploadAttachment.mockResolvedValue(attachment('a1'));
+    const { result } = renderHook(() => useAttachmentUpload(), { wrapper });
+
+    act(() => {
+      result.current.add([file()]);
+    });
+    await waitFor(() => {
+      expect(result.current.uploaded).toHaveLength(1);
+    });
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(result.current.attachments).toEqual([]);
+    expect(result.current.uploaded).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider } from '../../src/context/AsqioContext';
+import { useCloseTicket } from '../../src/hooks/useCloseTicket';
+import { useReopenTicket } from '../../src/hooks/useReopenTicket';
+import { useTicket } from '../../src/hooks/useTicket';
+import type { Ticket, TicketWithMessages } from '../../src/types';
+
+const mockClient = {
+  getTickets: vi.fn(),
+  getTicket: vi.fn(),
+  createTicket: vi.fn(),
+  getMessages: vi.fn(),
+  sendMessage: vi.fn(),
+  markAsRead: vi.fn(),
+  getUnreadCount: vi.fn(),
+  closeTicket: vi.fn(),
+  reopenTicket: vi.fn(),
+  registerDevice: vi.fn(),
+  updateDevice: vi.fn(),
+  deleteDevice: vi.fn(),
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={async () => 'token'}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+const sampleTicket: TicketWithMessages = {
+  id: 'ticket-1',
+  title: 'Test Ticket',
+  context: null,
+  device_info: null,
+  unread: false,
+  status: 'open',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  messages: [],
+};
+
+function withStatus(status: Ticket['status']): Ticket {
+  const { messages: _messages, ...ticket } = sampleTicket;
+  return { ...ticket, status, updated_at: '2026-01-02T00:00:00Z' };
+}
+
+describe('useCloseTicket', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should close the ticket and update the cached ticket', async () => {
+    mockClient.getTicket.mockResolvedValue(sampleTicket);
+    mockClient.closeTicket.mockResolvedValue(withStatus('closed'));
+
+    const { result } = renderHook(
+      () => ({ detail: useTicket('ticket-1'), close: useCloseTicket() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.detail.ticket?.status).toBe('open');
+    });
+
+    await act(async () => {
+      await result.current.close.closeTicket('ticket-1');
+    });
+
+    expect(mockClient.closeTicket).toHaveBeenCalledWith('ticket-1');
+    expect(result.current.detail.ticket?.status).toBe('closed');
+    expect(result.current.detail.ticket?.messages).toEqual([]);
+    expect(result.current.close.loading).toBe(false);
+  });
+
+  it('should set error state and rethrow on failure', async () => {
+    mockClient.closeTicket.mockRejectedValue(new Error('Forbidden'));
+
+    const { result } = renderHook(() => useCloseTicket(), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.closeTicket('ticket-1')).rejects.toThrow('Forbidden');
+    });
+
+    expect(result.current.error?.message).toBe('Forbidden');
+    expect(result.current.loading).toBe(false);
+  });
+});
+
+describe('useReopenTicket', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reopen the ticket and update the cached ticket', async () => {
+    mockClient.getTicket.mockResolvedValue({ ...sampleTicket, status: 'closed' });
+    mockClient.reopenTicket.mockResolvedValue(withStatus('open'));
+
+    const { result } = renderHook(
+      () => ({ detail: useTicket('ticket-1'), reopen: useReopenTicket() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.detail.ticket?.status).toBe('closed');
+    });
+
+    await act(async () => {
+      await result.current.reopen.reopenTicket('ticket-1');
+    });
+
+    expect(mockClient.reopenTicket).toHaveBeenCalledWith('ticket-1');
+    expect(result.current.detail.ticket?.status).toBe('open');
+  });
+});
@@ -1,8 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor, act } from '@testing-library/react';
 import type { ReactNode } from 'react';
 import { AsqioProvider } from '../../src/context/AsqioContext';
 import { useCreateTicket } from '../../src/hooks/useCreateTicket';
+import { createMemoryStorage } from '../../src/outbox/storage';
+import { AsqioNetworkError } from '../../src/client/errors';
 import type { Ticket, CreateTicketParams } from '../../src/types';
 
 const mockClient = {
@@ -16,6 +18,8 @@ const mockClient = {
   registerDevice: vi.fn(),
   updateDevice: vi.fn(),
   deleteDevice: vi.fn(),
+  redactText: vi.fn((text: string) => text),
+  redactContext: vi.fn((context: Record<string, unknown>) => context),
 };
 
 vi.mock('../../src/client/AsqioClient', () => ({
@@ -99,7 +103,7 @@ describe('useCreateTicket', () => {
     expect(ticket).toEqual(sampleTicket);
     expect(result.current.loading).toBe(false);
     expect(result.current.error).toBeNull();
-    expect(mockClient.createTicket).toHaveBeenCalledWith(createParams);
+    expect(mockClient.createTicket).toHaveBeenCalledWith(createParams, { idempotencyKey: expect.any(String) });
   });
 
   it('should set error on failure and rethrow', async () => {
@@ -146,4 +150,117 @@ describe('useCreateTicket', () => {
 
     expect(result.current.error).toBeNull();
   });
+
+  describe('with outbox', () => {
+    const outboxWrapper = ({ children }: { children: ReactNode }) => (
+      <AsqioProvider
+        baseUrl="https://api.example.com"
+        tenantKey="test"
+        getToken={async () => 'token'}
+        outbox={{ storage: createMemoryStorage() }}
+      >
+        {children}
+      </AsqioProvider>
+    );
+
+    function setOnline(online: boolean) {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+      window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should queue the ticket while offline and create it when back online', async () => {
+      mockClient.createTicket.mockResolvedValue(sampleTicket);
+      const { result } = renderHook(() => useCreateTicket(), { wrapper: outboxWrapper });
+      setOnline(false);
+
+      let createPromise!: Promise<Ticket>;
+      act(() => {
+        createPromise = result.current.create(createParams);
+      });
+
+      await waitFor(() => {
+        expect(result.current.queued).toBe(true);
+      });
+      expect(result.current.loading).toBe(true);
+      expect(mockClient.createTicket).not.toHaveBeenCalled();
+
+      await act(async () => {
+        setOnline(true);
+        await expect(createPromise).resolves.toEqual(sampleTicket);
+      });
+
+      expect(mockClient.createTicket).toHaveBeenCalledWith(createParams, { idempotencyKey: expect.any(String) });
+      expect(result.current.queued).toBe(false);
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should store redacted params in the outbox', async () => {
+      mockClient.redactText.mockImplementation((text: string) => text.replace('user@example.com', '[redacted:email]'));
+      mockClient.redactContext.mockImplementation(() => ({ token: '[redacted]' }));
+      const storage = createMemoryStorage();
+      const put = vi.spyOn(storage, 'put');
+      const { result, unmount } = renderHook(() => useCreateTicket(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <AsqioProvider
+            baseUrl="https://api.example.com"
+            tenantKey="test"
+            getToken={async () => 'token'}
+            outbox={{ storage }}
+          >
+            {children}
+          </AsqioProvider>
+        ),
+      });
+      setOnline(false);
+
+      act(() => {
+        void result.current.create({
+          message: 'Contact me at user@example.com',
+          title: 'From user@example.com',
+          context: { token: 'abc' },
+        });
+      });
+
+      await waitFor(() => {
+        expect(put).toHaveBeenCalled();
+      });
+      expect(put.mock.calls[0][0]).toMatchObject({
+        kind: 'createTicket',
+        params: {
+          message: 'Contact me at [redacted:email]',
+          title: 'From [redacted:email]',
+          context: { token: '[redacted]' },
+        },
+      });
+      unmount();
+    });
+
+    it('should queue the ticket when the connection drops during the request', async () => {
+      mockClient.createTicket.mockImplementationOnce(async () => {
+        setOnline(false);
+        throw new AsqioNetworkError('Network request failed');
+      });
+      const { result } = renderHook(() => useCreateTicket(), { wrapper: outboxWrapper });
+
+      let createPromise!: Promise<Ticket>;
+      act(() => {
+        createPromise = result.current.create(createParams);
+      });
+
+      await waitFor(() => {
+        expect(result.current.queued).toBe(true);
+      });
+
+      mockClient.createTicket.mockResolvedValue(sampleTicket);
+      await act(async () => {
+        setOnline(true);
+        await expect(createPromise).resolves.toEqual(sampleTicket);
+      });
+      expect(mockClient.createTicket).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider } from '../../src/context/AsqioContext';
+import { useInfiniteMessages } from '../../src/hooks/useInfiniteMessages';
+import type { Message, MessageListResponse } from '../../src/types';
+
+const mockClient = {
+  getTickets: vi.fn(),
+  getTicket: vi.fn(),
+  createTicket: vi.fn(),
+  getMessages: vi.fn(),
+  sendMessage: vi.fn(),
+  markAsRead: vi.fn(),
+  getUnreadCount: vi.fn(),
+  registerDevice: vi.fn(),
+  updateDevice: vi.fn(),
+  deleteDevice: vi.fn(),
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+const getToken = async () => 'token';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={getToken}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+function message(id: string): Message {
+  return { id, sender_type: 'user', sender_id: 'user-1', body: id, created_at: '2026-01-01T00:00:00Z' };
+}
+
+function page(messages: Message[], current: number, total: number): MessageListResponse {
+  return {
+    messages,
+    meta: { current_page: current, total_pages: total, total_count: total, per_page: 1 },
+  };
+}
+
+describe('useInfiniteMessages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should accumulate pages of messages for the ticket', async () => {
+    mockClient.getMessages.mockResolvedValueOnce(page([message('m1')], 1, 2));
+    const { result } = renderHook(() => useInfiniteMessages('ticket-1', { per_page: 1 }), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.hasNextPage).toBe(true);
+
+    mockClient.getMessages.mockResolvedValueOnce(page([message('m2')], 2, 2));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(mockClient.getMessages).toHaveBeenLastCalledWith(
+      'ticket-1',
+      { per_page: 1, page: 2 },
+      { signal: expect.any(AbortSignal) },
+    );
+  });
+
+  it('should start over when the ticket changes', async () => {
+    mockClient.getMessages.mockResolvedValueOnce(page([message('m1')], 1, 1));
+    const { result, rerender } = renderHook(
+      ({ ticketId }) => useInfiniteMessages(ticketId),
+      { wrapper, initialProps: { ticketId: 'ticket-1' } },
+    );
+
+    await waitFor(() => {
+      expect(result.current.messages.map((m) => m.id)).toEqual(['m1']);
+    });
+
+    mockClient.getMessages.mockResolvedValueOnce(page([message('m9')], 1, 1));
+    rerender({ ticketId: 'ticket-2' });
+
+    await waitFor(() => {
+      expect(result.current.messages.map((m) => m.id)).toEqual(['m9']);
+    });
+  });
+
+  it('should keep the same messages array across re-renders', async () => {
+    mockClient.getMessages.mockResolvedValueOnce(page([message('m1')], 1, 1));
+    const { result, rerender } = renderHook(() => useInfiniteMessages('ticket-1'), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.messages.map((m) => m.id)).toEqual(['m1']);
+    });
+    const { messages } = result.current;
+    rerender();
+
+    expect(result.current.messages).toBe(messages);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider, useQueryCache } from '../../src/context/AsqioContext';
+import { useInfiniteTickets } from '../../src/hooks/useInfiniteTickets';
+import { useMarkAsRead } from '../../src/hooks/useMarkAsRead';
+import type { Ticket, TicketListResponse } from '../../src/types';
+
+const mockClient = {
+  getTickets: vi.fn(),
+  getTicket: vi.fn(),
+  createTicket: vi.fn(),
+  getMessages: vi.fn(),
+  sendMessage: vi.fn(),
+  markAsRead: vi.fn(),
+  getUnreadCount: vi.fn(),
+  registerDevice: vi.fn(),
+  updateDevice: vi.fn(),
+  deleteDevice: vi.fn(),
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={async () => 'token'}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+function ticket(id: string, unread = false): Ticket {
+  return {
+    id,
+    title: id,
+    status: 'open',
+    topic: null,
+    context: null,
+    device_info: null,
+    unread,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+function page(tickets: Ticket[], current: number, total: number): TicketListResponse {
+  return {
+    tickets,
+    meta: { current_page: current, total_pages: total, total_count: total * 2, per_page: 2 },
+  };
+}
+
+describe('useInfiniteTickets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load the first page', async () => {
+    mockClient.getTickets.mockResolvedValue(page([ticket('t1'), ticket('t2')], 1, 2));
+    const { result } = renderHook(() => useInfiniteTickets({ per_page: 2 }), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.tickets.map((t) => t.id)).toEqual(['t1', 't2']);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(mockClient.getTickets).toHaveBeenCalledWith(
+      { per_page: 2, page: 1 },
+      { signal: expect.any(AbortSignal) },
+    );
+  });
+
+  it('should append the next page with fetchNextPage', async () => {
+    mockClient.getTickets.mockResolvedValueOnce(page([ticket('t1'), ticket('t2')], 1, 2));
+    const { result } = renderHook(() => useInfiniteTickets(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    mockClient.getTickets.mockResolvedValueOnce(page([ticket('t3')], 2, 2));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.tickets.map((t) => t.id)).toEqual(['t1', 't2', 't3']);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(result.current.fetchingNextPage).toBe(false);
+    expect(mockClient.getTickets).toHaveBeenLastCalledWith(
+      { page: 2 },
+      { signal: expect.any(AbortSignal) },
+    );
+
+    // 最後のページを読んだ後は何もしない
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+    expect(mockClient.getTickets).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep loaded pages and report an error when the next page fails', async () => {
+    mockClient.getTickets.mockResolvedValueOnce(page([ticket('t1')], 1, 2));
+    const { result } = renderHook(() => useInfiniteTickets(), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    mockClient.getTickets.mockRejectedValueOnce(new Error('Network error'));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(result.current.tickets.map((t) => t.id)).toEqual(['t1']);
+    expect(result.current.error?.message).toBe('Network error');
+    expect(result.current.hasNextPage).toBe(true);
+  });
+
+  it('should refetch every loaded page when invalidated', async () => {
+    mockClient.getTickets
+      .mockResolvedValueOnce(page([ticket('t1')], 1, 3))
+      .mockResolvedValueOnce(page([ticket('t2')], 2, 3));
+    const { result } = renderHook(
+      () => ({ list: useInfiniteTickets(), cache: useQueryCache() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.list.loading).toBe(false);
+    });
+    await act(async () => {
+      await result.current.list.fetchNextPage();
+    });
+
+    mockClient.getTickets
+      .mockResolvedValueOnce(page([ticket('t0')], 1, 3))
+      .mockResolvedValueOnce(page([ticket('t1')], 2, 3));
+    await act(async () => {
+      await result.current.cache.invalidate(['tickets']);
+    });
+
+    expect(result.current.list.tickets.map((t) => t.id)).toEqual(['t0', 't1']);
+    expect(mockClient.getTickets).toHaveBeenCalledTimes(4);
+  });
+
+  it('should clear unread flags in loaded pages on markAsRead', async () => {
+    mockClient.getTickets.mockResolvedValue(page([ticket('t1', true)], 1, 1));
+    mockClient.markAsRead.mockResolvedValue(undefined);
+    mockClient.getUnreadCount.mockResolvedValue(0);
+    const { result } = renderHook(
+      () => ({ list: useInfiniteTickets(), read: useMarkAsRead() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.list.tickets[0]?.unread).toBe(true);
+    });
+    await act(async () => {
+      await result.current.read.markAsRead('t1');
+    });
+
+    expect(result.current.list.tickets[0].unread).toBe(false);
+  });
+});
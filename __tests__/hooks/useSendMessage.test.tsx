@@ -3,6 +3,9 @@ import { renderHook, waitFor, act } from '@testing-library/react';
 import type { ReactNode } from 'react';
 import { AsqioProvider } from '../../src/context/AsqioContext';
 import { useSendMessage } from '../../src/hooks/useSendMessage';
+import { useTicket } from '../../src/hooks/useTicket';
+import { useTickets } from '../../src/hooks/useTickets';
+import { useOutgoingMessages } from '../../src/hooks/useOutgoingMessages';
 import type { Message } from '../../src/types';
 
 const mockClient = {
@@ -16,6 +19,7 @@ const mockClient = {
   registerDevice: vi.fn(),
   updateDevice: vi.fn(),
   deleteDevice: vi.fn(),
+  redactText: vi.fn((text: string) => text),
 };
 
 vi.mock('../../src/client/AsqioClient', () => ({
@@ -94,7 +98,43 @@ describe('useSendMessage', () => {
     expect(result.current.error).toBeNull();
     expect(mockClient.sendMessage).toHaveBeenCalledWith('ticket-1', {
       body: 'Hello, I need help',
+    }, { idempotencyKey: expect.any(String) });
+  });
+
+  it('should send attachment ids along with the body', async () => {
+    mockClient.sendMessage.mockResolvedValue(sampleMessage);
+    const { result } = renderHook(() => useSendMessage(), { wrapper });
+    const attachment = {
+      id: 'att-1',
+      filename: 'screen.png',
+      content_type: 'image/png',
+      byte_size: 4,
+      url: 'https://cdn.example/screen.png',
+    };
+
+    await act(async () => {
+      await result.current.send('ticket-1', '', [attachment]);
     });
+
+    expect(mockClient.sendMessage).toHaveBeenCalledWith('ticket-1', {
+      body: '',
+      attachment_ids: ['att-1'],
+    }, { idempotencyKey: expect.any(String) });
+  });
+
+  it('should show the redacted body while the message is pending', async () => {
+    mockClient.redactText.mockImplementationOnce(() => 'Card [redacted:credit_card]');
+    mockClient.sendMessage.mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(
+      () => ({ sender: useSendMessage(), outgoing: useOutgoingMessages('ticket-1') }),
+      { wrapper },
+    );
+
+    act(() => {
+      result.current.sender.send('ticket-1', 'Card 4242 4242 4242 4242').catch(() => {});
+    });
+
+    expect(result.current.outgoing[0].body).toBe('Card [redacted:credit_card]');
   });
 
   it('should set error on failure and rethrow', async () => {
@@ -145,4 +185,162 @@ describe('useSendMessage', () => {
 
     expect(result.current.error).toBeNull();
   });
+
+  it('should add the message to the ticket without refetching it and refresh the ticket list', async () => {
+    const ticket = {
+      id: 'ticket-1',
+      title: null,
+      topic: null,
+      context: null,
+      device_info: null,
+      unread: false,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+    };
+    mockClient.getTicket.mockResolvedValue({ ...ticket, messages: [] });
+    mockClient.getTickets.mockResolvedValue({
+      tickets: [ticket],
+      meta: { current_page: 1, total_pages: 1, total_count: 1, per_page: 20 },
+    });
+    mockClient.sendMessage.mockResolvedValue(sampleMessage);
+
+    const { result } = renderHook(
+      () => ({
+        sender: useSendMessage(),
+        detail: useTicket('ticket-1'),
+        list: useTickets(),
+      }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.detail.loading).toBe(false);
+      expect(result.current.list.loading).toBe(false);
+    });
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+    expect(mockClient.getTickets).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await result.current.sender.send('ticket-1', 'Hello, I need help');
+    });
+
+    expect(result.current.detail.ticket?.messages).toEqual([sampleMessage]);
+    await waitFor(() => {
+      expect(mockClient.getTickets).toHaveBeenCalledTimes(2);
+    });
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show the message as pending until the server responds', async () => {
+    let resolveSend!: (value: Message) => void;
+    mockClient.sendMessage.mockReturnValue(
+      new Promise<Message>((resolve) => {
+        resolveSend = resolve;
+      }),
+    );
+    const { result } = renderHook(
+      () => ({ sender: useSendMessage(), outgoing: useOutgoingMessages('ticket-1') }),
+      { wrapper },
+    );
+
+    let sendPromise!: Promise<Message>;
+    act(() => {
+      sendPromise = result.current.sender.send('ticket-1', 'Hello, I need help');
+    });
+
+    expect(result.current.outgoing).toHaveLength(1);
+    expect(result.current.outgoing[0]).toMatchObject({
+      body: 'Hello, I need help',
+      sender_type: 'user',
+      status: 'pending',
+    });
+    expect(result.current.outgoing[0].id).toBe(result.current.outgoing[0].client_id);
+
+    await act(async () => {
+      resolveSend(sampleMessage);
+      await sendPromise;
+    });
+
+    // 詳細が未取得ならサーバーの Message で置き換えて sent のまま残す
+    expect(result.current.outgoing).toHaveLength(1);
+    expect(result.current.outgoing[0]).toMatchObject({ id: 'msg-1', status: 'sent' });
+  });
+
+  it('should keep failed messages and allow retrying or discarding them', async () => {
+    mockClient.sendMessage.mockRejectedValue(new Error('Network error'));
+    const { result } = renderHook(
+      () => ({ sender: useSendMessage(), outgoing: useOutgoingMessages('ticket-1') }),
+      { wrapper },
+    );
+
+    await act(async () => {
+      await result.current.sender.send('ticket-1', 'Hello').catch(() => {});
+    });
+
+    expect(result.current.outgoing).toHaveLength(1);
+    expect(result.current.outgoing[0].status).toBe('failed');
+    const clientId = result.current.outgoing[0].client_id;
+
+    mockClient.sendMessage.mockResolvedValue(sampleMessage);
+    await act(async () => {
+      await result.current.sender.retry('ticket-1', clientId);
+    });
+
+    expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+    // 再送でも最初の送信と同じ冪等キーを使う
+    expect(mockClient.sendMessage).toHaveBeenLastCalledWith(
+      'ticket-1',
+      { body: 'Hello' },
+      { idempotencyKey: clientId },
+    );
+    expect(mockClient.sendMessage.mock.calls[0][2]).toEqual({ idempotencyKey: clientId });
+    expect(result.current.outgoing[0].status).toBe('sent');
+
+    mockClient.sendMessage.mockRejectedValue(new Error('Network error'));
+    await act(async () => {
+      await result.current.sender.send('ticket-1', 'Again').catch(() => {});
+    });
+    const failed = result.current.outgoing.find((m) => m.status === 'failed')!;
+
+    act(() => {
+      result.current.sender.discard('ticket-1', failed.client_id);
+    });
+
+    expect(result.current.outgoing.map((m) => m.body)).toEqual(['Hello, I need help']);
+  });
+
+  it('should replace the optimistic message once the ticket contains it', async () => {
+    mockClient.getTicket.mockResolvedValue({
+      id: 'ticket-1',
+      title: null,
+      topic: null,
+      context: null,
+      device_info: null,
+      unread: false,
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z',
+      messages: [],
+    });
+    mockClient.sendMessage.mockResolvedValue(sampleMessage);
+    const { result } = renderHook(
+      () => ({
+        sender: useSendMessage(),
+        detail: useTicket('ticket-1'),
+        outgoing: useOutgoingMessages('ticket-1'),
+      }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.detail.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.sender.send('ticket-1', 'Hello, I need help');
+    });
+
+    expect(result.current.outgoing).toEqual([]);
+    expect(result.current.detail.ticket?.messages).toEqual([sampleMessage]);
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+  });
 });
@@ -75,7 +75,9 @@ describe('useTicket', () => {
 
     expect(result.current.ticket).toEqual(sampleTicket);
     expect(result.current.error).toBeNull();
-    expect(mockClient.getTicket).toHaveBeenCalledWith('ticket-1');
+    expect(mockClient.getTicket).toHaveBeenCalledWith('ticket-1', {
+      signal: expect.any(AbortSignal),
+    });
   });
 
   it('should set error state on failure', async () => {
@@ -159,4 +161,43 @@ describe('useTicket', () => {
     expect(result.current.error).toBeNull();
     expect(result.current.ticket).toEqual(sampleTicket);
   });
+
+  it('should abort the in-flight request on unmount', () => {
+    mockClient.getTicket.mockReturnValue(new Promise(() => {}));
+    const { unmount } = renderHook(() => useTicket('ticket-1'), { wrapper });
+
+    const { signal } = mockClient.getTicket.mock.calls[0][1] as { signal: AbortSignal };
+    expect(signal.aborted).toBe(false);
+
+    unmount();
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('should ignore the response for a previous ticketId', async () => {
+    let resolveFirst: (ticket: TicketWithMessages) => void = () => {};
+    const otherTicket: TicketWithMessages = { ...sampleTicket, id: 'ticket-2', title: 'Other' };
+    mockClient.getTicket
+      .mockReturnValueOnce(new Promise((resolve) => { resolveFirst = resolve; }))
+      .mockResolvedValueOnce(otherTicket);
+
+    const { result, rerender } = renderHook(
+      ({ id }) => useTicket(id),
+      { wrapper, initialProps: { id: 'ticket-1' } },
+    );
+
+    rerender({ id: 'ticket-2' });
+
+    await waitFor(() => {
+      expect(result.current.ticket).toEqual(otherTicket);
+    });
+
+    // The stale response arrives late and must not overwrite the current ticket
+    await act(async () => {
+      resolveFirst(sampleTicket);
+    });
+
+    expect(result.current.ticket).toEqual(otherTicket);
+    expect(result.current.loading).toBe(false);
+  });
 });
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, renderHook, screen, waitFor, act, cleanup } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider, useQueryCache } from '../../src/context/AsqioContext';
+import { useTicketSummary } from '../../src/hooks/useTicketSummary';
+import { useTickets } from '../../src/hooks/useTickets';
+import { updateTicketInCache } from '../../src/cache/tickets';
+import type { Ticket, TicketWithMessages } from '../../src/types';
+
+const mockClient = {
+  getTickets: vi.fn(),
+  getTicket: vi.fn(),
+  createTicket: vi.fn(),
+  getMessages: vi.fn(),
+  sendMessage: vi.fn(),
+  markAsRead: vi.fn(),
+  getUnreadCount: vi.fn(),
+  registerDevice: vi.fn(),
+  updateDevice: vi.fn(),
+  deleteDevice: vi.fn(),
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+const getToken = async () => 'token';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={getToken}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+const sampleTicket: Ticket = {
+  id: 'ticket-1',
+  title: 'Test Ticket',
+  context: null,
+  device_info: null,
+  unread: false,
+  status: 'open',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+const sampleTicketWithMessages: TicketWithMessages = {
+  ...sampleTicket,
+  messages: [
+    {
+      id: 'msg-1',
+      sender_type: 'user',
+      sender_id: 'user-1',
+      body: 'Hello',
+      created_at: '2026-01-01T00:00:00Z',
+    },
+  ],
+};
+
+describe('useTicketSummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should use the ticket from a loaded list without fetching it', async () => {
+    mockClient.getTickets.mockResolvedValue({
+      tickets: [sampleTicket],
+      meta: { current_page: 1, total_pages: 1, total_count: 1, per_page: 20 },
+    });
+    function Summary() {
+      const { ticket } = useTicketSummary('ticket-1');
+      return <p>{ticket?.title}</p>;
+    }
+    function App({ open }: { open: boolean }) {
+      const { loading } = useTickets();
+      return open ? <Summary /> : <p>{loading ? 'loading' : 'loaded'}</p>;
+    }
+
+    const { rerender } = render(<App open={false} />, { wrapper });
+    await screen.findByText('loaded');
+    rerender(<App open />);
+
+    expect(await screen.findByText('Test Ticket')).toBeInTheDocument();
+    expect(mockClient.getTicket).not.toHaveBeenCalled();
+    cleanup();
+  });
+
+  it('should fetch the ticket without its messages when it is not in the cache', async () => {
+    mockClient.getTicket.mockResolvedValue(sampleTicketWithMessages);
+    const { result } = renderHook(() => useTicketSummary('ticket-1'), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.ticket).toEqual(sampleTicket);
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reflect ticket updates written to the cache', async () => {
+    mockClient.getTicket.mockResolvedValue(sampleTicketWithMessages);
+    const { result } = renderHook(
+      () => ({ summary: useTicketSummary('ticket-1'), cache: useQueryCache() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.summary.loading).toBe(false);
+    });
+    act(() => {
+      updateTicketInCache(result.current.cache, { ...sampleTicket, status: 'closed' });
+    });
+
+    expect(result.current.summary.ticket?.status).toBe('closed');
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,7 +3,7 @@ import { renderHook, waitFor, act } from '@testing-library/react';
 import type { ReactNode } from 'react';
 import { AsqioProvider } from '../../src/context/AsqioContext';
 import { useTickets } from '../../src/hooks/useTickets';
-import type { Ticket, PaginationMeta, TicketListResponse } from '../../src/types';
+import type { Ticket, PaginationMeta, TicketQuery, TicketListResponse } from '../../src/types';
 
 const mockClient = {
   getTickets: vi.fn(),
@@ -162,6 +162,7 @@ describe('useTickets', () => {
     // Verify getTickets was called with page parameter
     expect(mockClient.getTickets).toHaveBeenCalledWith(
       expect.objectContaining({ page: 2 }),
+      { signal: expect.any(AbortSignal) },
     );
   });
 
@@ -170,7 +171,34 @@ describe('useTickets', () => {
     renderHook(() => useTickets({ page: 1, per_page: 5 }), { wrapper });
 
     await waitFor(() => {
-      expect(mockClient.getTickets).toHaveBeenCalledWith({ page: 1, per_page: 5 });
+      expect(mockClient.getTickets).toHaveBeenCalledWith(
+        { page: 1, per_page: 5 },
+        { signal: expect.any(AbortSignal) },
+      );
     });
   });
+
+  it('should refetch when the params change', async () => {
+    mockClient.getTickets.mockResolvedValue(sampleResponse);
+    const { result, rerender } = renderHook(
+      ({ params }) => useTickets(params),
+      { wrapper, initialProps: { params: { per_page: 5 } as TicketQuery } },
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const closedTicket = { ...sampleTicket, id: 'ticket-closed', status: 'closed' as const };
+    mockClient.getTickets.mockResolvedValue({ tickets: [closedTicket], meta: sampleMeta });
+    rerender({ params: { per_page: 5, status: 'closed' } });
+
+    await waitFor(() => {
+      expect(result.current.tickets).toEqual([closedTicket]);
+    });
+    expect(mockClient.getTickets).toHaveBeenLastCalledWith(
+      { per_page: 5, status: 'closed' },
+      { signal: expect.any(AbortSignal) },
+    );
+  });
 });
@@ -83,4 +83,18 @@ describe('useTopics', () => {
     expect(result.current.topics).toEqual([]);
     expect(result.current.error).toBeNull();
   });
+
+  it('should share a single request between hooks mounted together', async () => {
+    mockClient.getTopics.mockResolvedValue(sampleTopics);
+    const { result } = renderHook(() => [useTopics(), useTopics()], { wrapper });
+
+    await waitFor(() => {
+      expect(result.current[0].loading).toBe(false);
+      expect(result.current[1].loading).toBe(false);
+    });
+
+    expect(result.current[0].topics).toEqual(sampleTopics);
+    expect(result.current[1].topics).toEqual(sampleTopics);
+    expect(mockClient.getTopics).toHaveBeenCalledTimes(1);
+  });
 });
@@ -3,6 +3,7 @@ import { renderHook, waitFor, act } from '@testing-library/react';
 import type { ReactNode } from 'react';
 import { AsqioProvider } from '../../src/context/AsqioContext';
 import { useUnreadCount } from '../../src/hooks/useUnreadCount';
+import { AsqioRateLimitError } from '../../src/client/errors';
 
 const mockClient = {
   getTickets: vi.fn(),
@@ -191,4 +192,41 @@ describe('useUnreadCount', () => {
 
     expect(mockClient.getUnreadCount).toHaveBeenCalledTimes(callCountAfterUnmount);
   });
+
+  it('should back off polling while rate limited', async () => {
+    vi.useFakeTimers();
+    mockClient.getUnreadCount.mockRejectedValue(
+      new AsqioRateLimitError('Too many requests', 20000),
+    );
+
+    const { result } = renderHook(
+      () => useUnreadCount({ pollInterval: 5000 }),
+      { wrapper },
+    );
+
+    await vi.waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.error).toBeInstanceOf(AsqioRateLimitError);
+    expect(mockClient.getUnreadCount).toHaveBeenCalledTimes(1);
+
+    // Polls within the Retry-After window are skipped
+    await act(async () => {
+      vi.advanceTimersByTime(15000);
+    });
+    expect(mockClient.getUnreadCount).toHaveBeenCalledTimes(1);
+
+    // The first poll after the window has elapsed goes through
+    mockClient.getUnreadCount.mockResolvedValue(2);
+    await act(async () => {
+      vi.advanceTimersByTime(10000);
+    });
+
+    await vi.waitFor(() => {
+      expect(mockClient.getUnreadCount).toHaveBeenCalledTimes(2);
+    });
+    await vi.waitFor(() => {
+      expect(result.current.count).toBe(2);
+    });
+  });
 });
@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, renderHook, fireEvent, cleanup, act } from '@testing-library/react';
+import { useRef } from 'react';
+import { useVirtualList } from '../../src/hooks/useVirtualList';
+
+interface ListProps {
+  count: number;
+  firstKey?: number;
+  stickToBottom?: boolean;
+}
+
+function List({ count, firstKey = 0, stickToBottom }: ListProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtual = useVirtualList({
+    scrollRef,
+    count,
+    getKey: (index) => `row-${firstKey + index}`,
+    estimateSize: 50,
+    overscan: 0,
+    stickToBottom,
+  });
+  return (
+    <div className="scroll" ref={scrollRef} onScroll={virtual.handleScroll}>
+      <div className="top" ref={virtual.startRef} style={{ height: virtual.paddingTop }} />
+      {virtual.items.map(({ key }) => (
+        <div key={key} className="row" ref={virtual.measureRef(key)}>{key}</div>
+      ))}
+      <div className="bottom" style={{ height: virtual.paddingBottom }} />
+    </div>
+  );
+}
+
+/** jsdom はレイアウトしないので、スクロール要素の寸法とスペーサーの位置を与える */
+function layout(container: HTMLElement, size: { clientHeight: number; scrollHeight?: number }) {
+  const scroll = container.querySelector('.scroll') as HTMLDivElement;
+  Object.defineProperty(scroll, 'clientHeight', { configurable: true, value: size.clientHeight });
+  Object.defineProperty(scroll, 'scrollHeight', {
+    configurable: true,
+    value: size.scrollHeight ?? 100000,
+  });
+  // ブラウザと同じく、スクロール位置を 0〜(scrollHeight - clientHeight) に収める
+  let scrollTop = 0;
+  Object.defineProperty(scroll, 'scrollTop', {
+    configurable: true,
+    get: () => scrollTop,
+    set: (value: number) => {
+      scrollTop = Math.max(0, Math.min(value, scroll.scrollHeight - scroll.clientHeight));
+    },
+  });
+  const top = container.querySelector('.top') as HTMLDivElement;
+  top.getBoundingClientRect = () => ({ top: -scroll.scrollTop } as DOMRect);
+  return scroll;
+}
+
+function rendered(container: HTMLElement): string[] {
+  return [...container.querySelectorAll('.row')].map((el) => el.textContent ?? '');
+}
+
+function padding(container: HTMLElement, selector: '.top' | '.bottom'): number {
+  return parseInt((container.querySelector(selector) as HTMLElement).style.height, 10);
+}
+
+describe('useVirtualList', () => {
+  afterEach(() => {
+    cleanup();
+    delete (HTMLElement.prototype as { offsetHeight?: number }).offsetHeight;
+  });
+
+  it('should render only the rows around the viewport', () => {
+    const { container } = render(<List count={1000} />);
+    const scroll = layout(container, { clientHeight: 200 });
+
+    scroll.scrollTop = 5000;
+    fireEvent.scroll(scroll);
+
+    expect(rendered(container)).toEqual(['row-100', 'row-101', 'row-102', 'row-103', 'row-104']);
+    expect(padding(container, '.top')).toBe(5000);
+    expect(padding(container, '.bottom')).toBe(50000 - 5250);
+  });
+
+  it('should use measured heights for rendered rows', () => {
+    Object.defineProperty(HTMLElement.prototype, 'offsetHeight', {
+      configurable: true,
+      get(this: HTMLElement) {
+        return this.classList.contains('row') ? 100 : 0;
+      },
+    });
+
+    const { container } = render(<List count={1000} />);
+    const scroll = layout(container, { clientHeight: 300 });
+    fireEvent.scroll(scroll);
+
+    // 初回に描画した 16 行は 100px と計測され、残りは見積もりの 50px のまま
+    expect(rendered(container)).toEqual(['row-0', 'row-1', 'row-2', 'row-3']);
+    expect(padding(container, '.bottom')).toBe(16 * 100 + (1000 - 16) * 50 - 4 * 100);
+  });
+
+  it('should keep the top row in place when rows are prepended', () => {
+    const { container, rerender } = render(<List count={100} firstKey={10} />);
+    const scroll = layout(container, { clientHeight: 200 });
+
+    scroll.scrollTop = 1010;
+    fireEvent.scroll(scroll);
+    expect(rendered(container)[0]).toBe('row-30');
+
+    rerender(<List count={105} firstKey={5} />);
+
+    expect(scroll.scrollTop).toBe(1010 + 5 * 50);
+    expect(rendered(container)[0]).toBe('row-30');
+  });
+
+  it('should stay at the bottom while rows are added', () => {
+    const { container, rerender } = render(<List count={10} stickToBottom />);
+    const scroll = layout(container, { clientHeight: 200, scrollHeight: 500 });
+
+    rerender(<List count={10} stickToBottom />);
+    expect(scroll.scrollTop).toBe(300);
+
+    Object.defineProperty(scroll, 'scrollHeight', { configurable: true, value: 600 });
+    rerender(<List count={12} stickToBottom />);
+    expect(scroll.scrollTop).toBe(400);
+  });
+
+  it('should stop sticking once the user scrolls up', () => {
+    const { container, rerender } = render(<List count={10} stickToBottom />);
+    const scroll = layout(container, { clientHeight: 200, scrollHeight: 500 });
+    rerender(<List count={10} stickToBottom />);
+
+    scroll.scrollTop = 100;
+    fireEvent.scroll(scroll);
+    Object.defineProperty(scroll, 'scrollHeight', { configurable: true, value: 550 });
+    rerender(<List count={11} stickToBottom />);
+
+    expect(scroll.scrollTop).toBe(100);
+  });
+
+  it('should drop the cached ref of a row once it unmounts', () => {
+    const { result } = renderHook(() => useVirtualList({
+      scrollRef: { current: null },
+      count: 1,
+      getKey: (index) => `row-${index}`,
+      estimateSize: 50,
+    }));
+    const ref = result.current.measureRef('row-0');
+    expect(result.current.measureRef('row-0')).toBe(ref);
+
+    act(() => ref(document.createElement('div')));
+    act(() => ref(null));
+
+    expect(result.current.measureRef('row-0')).not.toBe(ref);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createDateFormatter } from '../../src/i18n/format';
+import { createTranslator } from '../../src/i18n/translate';
+
+function formatter(locale: string, timeZone?: string) {
+  return createDateFormatter(locale, timeZone, createTranslator(locale));
+}
+
+const now = Date.parse('2026-01-15T12:00:00Z');
+const ago = (ms: number) => new Date(now - ms).toISOString();
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('createDateFormatter', () => {
+  it('should format times in the given time zone', () => {
+    expect(formatter('ja', 'Asia/Tokyo').time('2026-01-15T10:05:00Z')).toBe('19:05');
+    expect(formatter('ja', 'UTC').time('2026-01-15T10:05:00Z')).toBe('10:05');
+  });
+
+  it('should format the full timestamp for hover text', () => {
+    expect(formatter('en', 'Asia/Tokyo').dateTime('2026-01-15T10:05:00Z'))
+      .toBe('Thursday, January 15, 2026 at 7:05:00 PM');
+  });
+
+  it('should format recent times relatively', () => {
+    const en = formatter('en', 'UTC');
+
+    expect(en.relative(ago(30 * 1000), now)).toBe('now');
+    expect(en.relative(ago(5 * MINUTE), now)).toBe('5 minutes ago');
+    expect(en.relative(ago(3 * HOUR), now)).toBe('3 hours ago');
+    expect(en.relative(ago(DAY), now)).toBe('yesterday');
+    expect(en.relative(ago(3 * DAY), now)).toBe('3 days ago');
+    expect(formatter('ja', 'UTC').relative(ago(5 * MINUTE), now)).toBe('5 分前');
+  });
+
+  it('should fall back to the date for older times', () => {
+    expect(formatter('en-US', 'UTC').relative(ago(10 * DAY), now)).toBe('01/05/2026');
+  });
+
+  it('should treat times in the future as now', () => {
+    expect(formatter('en', 'UTC').relative(new Date(now + 5 * MINUTE), now)).toBe('now');
+  });
+
+  it('should count calendar days in the given time zone', () => {
+    // 東京では同じ日の 11:00 だが、ニューヨークでは前日の 21:00
+    const message = '2026-01-15T02:00:00Z';
+
+    expect(formatter('en', 'Asia/Tokyo').relative(message, now)).toBe('10 hours ago');
+    expect(formatter('en', 'America/New_York').relative(message, now)).toBe('yesterday');
+    expect(formatter('en', 'Asia/Tokyo').dayKey(message)).toBe('2026-01-15');
+    expect(formatter('en', 'America/New_York').dayKey(message)).toBe('2026-01-14');
+  });
+
+  it('should label day separators', () => {
+    const ja = formatter('ja', 'UTC');
+
+    expect(ja.day(ago(HOUR), now)).toBe('今日');
+    expect(ja.day(ago(DAY), now)).toBe('昨日');
+    expect(ja.day('2026-01-10T10:00:00Z', now)).toBe('2026年1月10日(土)');
+    expect(formatter('en', 'UTC').day('2026-01-12T10:00:00Z', now)).toBe('Mon, January 12, 2026');
+  });
+
+  it('should ignore an invalid time zone', () => {
+    const format = formatter('en', 'Not/AZone');
+
+    expect(() => format.time('2026-01-15T10:05:00Z')).not.toThrow();
+    expect(format.dayKey('2026-01-15T10:05:00Z')).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('should find the start of a day in the given time zone', () => {
+    expect(formatter('ja', 'Asia/Tokyo').dayStart('2026-01-01').toISOString()).toBe('2025-12-31T15:00:00.000Z');
+    expect(formatter('en', 'UTC').dayStart('2026-01-01').toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    // 夏時間の開始日・終了日
+    expect(formatter('en', 'America/New_York').dayStart('2026-03-08').toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(formatter('en', 'America/New_York').dayStart('2026-03-09').toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    expect(formatter('en', 'America/New_York').dayStart('2026-11-01').toISOString()).toBe('2026-11-01T04:00:00.000Z');
+  });
+});
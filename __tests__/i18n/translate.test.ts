@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createTranslator, resolveLocale } from '../../src/i18n/translate';
+
+describe('resolveLocale', () => {
+  it('should pick the bundled catalog from a language tag', () => {
+    expect(resolveLocale('ja')).toBe('ja');
+    expect(resolveLocale('en-US')).toBe('en');
+    expect(resolveLocale('ko_KR')).toBe('ko');
+    expect(resolveLocale('JA-jp')).toBe('ja');
+  });
+
+  it('should fall back to English for other languages', () => {
+    expect(resolveLocale('fr-FR')).toBe('en');
+    expect(resolveLocale('')).toBe('en');
+  });
+});
+
+describe('createTranslator', () => {
+  it('should return messages from the locale catalog', () => {
+    expect(createTranslator('ja')('common.send')).toBe('送信');
+    expect(createTranslator('en-GB')('common.send')).toBe('Send');
+    expect(createTranslator('ko')('common.send')).toBe('보내기');
+  });
+
+  it('should interpolate params', () => {
+    const t = createTranslator('en');
+
+    expect(t('attachment.remove', { name: 'screen.png' })).toBe('Remove screen.png');
+    // 渡していない値はそのまま残す
+    expect(t('attachment.remove')).toBe('Remove {name}');
+  });
+
+  it('should choose the plural form by count', () => {
+    const en = createTranslator('en');
+    expect(en('threadDetail.newMessages', { count: 1 })).toBe('1 new message ↓');
+    expect(en('threadDetail.newMessages', { count: 3 })).toBe('3 new messages ↓');
+
+    const ja = createTranslator('ja');
+    expect(ja('threadDetail.newMessages', { count: 3 })).toBe('3件の新着メッセージ ↓');
+  });
+
+  it('should use plural rules of the given locale with overridden messages', () => {
+    const t = createTranslator('pl', {
+      'threadDetail.newMessages': {
+        one: '{count} nowa wiadomość',
+        few: '{count} nowe wiadomości',
+        other: '{count} nowych wiadomości',
+      },
+    });
+
+    expect(t('threadDetail.newMessages', { count: 1 })).toBe('1 nowa wiadomość');
+    expect(t('threadDetail.newMessages', { count: 3 })).toBe('3 nowe wiadomości');
+    expect(t('threadDetail.newMessages', { count: 5 })).toBe('5 nowych wiadomości');
+    // 差し替えていないメッセージは英語のカタログから
+    expect(t('common.send')).toBe('Send');
+  });
+
+  it('should fall back to the other form when the category is missing', () => {
+    const t = createTranslator('en', {
+      'threadDetail.newMessages': { other: '{count} unread' },
+    });
+
+    expect(t('threadDetail.newMessages', { count: 1 })).toBe('1 unread');
+  });
+
+  it('should not throw for locale names that are not valid language tags', () => {
+    const t = createTranslator('en_custom_variant!', {
+      'threadDetail.newMessages': { one: 'one', other: 'many' },
+    });
+
+    expect(t('threadDetail.newMessages', { count: 1 })).toBe('one');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, renderHook, screen } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider, useAsqioI18n } from '../../src/context/AsqioContext';
+import { RedactionWarning } from '../../src/components/RedactionWarning/RedactionWarning';
+import type { AsqioMessages } from '../../src/types';
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => ({})),
+}));
+
+function createWrapper(props: { locale?: string; messages?: Partial<AsqioMessages>; timeZone?: string }) {
+  return ({ children }: { children: ReactNode }) => (
+    <AsqioProvider
+      baseUrl="https://api.example.com"
+      tenantKey="test"
+      getToken={async () => 'token'}
+      {...props}
+    >
+      {children}
+    </AsqioProvider>
+  );
+}
+
+describe('useAsqioI18n', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use Japanese outside a provider', () => {
+    const { result } = renderHook(() => useAsqioI18n());
+
+    expect(result.current.locale).toBe('ja');
+    expect(result.current.t('common.loading')).toBe('読み込み中...');
+  });
+
+  it('should use the locale given to the provider', () => {
+    const { result } = renderHook(() => useAsqioI18n(), { wrapper: createWrapper({ locale: 'ko' }) });
+
+    expect(result.current.locale).toBe('ko');
+    expect(result.current.t('common.loading')).toBe('불러오는 중...');
+  });
+
+  it('should detect the locale from the browser when none is given', () => {
+    vi.spyOn(navigator, 'language', 'get').mockReturnValue('en-US');
+
+    const { result } = renderHook(() => useAsqioI18n(), { wrapper: createWrapper({}) });
+
+    expect(result.current.locale).toBe('en-US');
+    expect(result.current.t('common.loading')).toBe('Loading...');
+  });
+
+  it('should override messages of the selected locale', () => {
+    const { result } = renderHook(() => useAsqioI18n(), {
+      wrapper: createWrapper({ locale: 'en', messages: { 'threadList.title': 'Help center' } }),
+    });
+
+    expect(result.current.t('threadList.title')).toBe('Help center');
+    expect(result.current.t('threadList.newThread')).toBe('New');
+  });
+
+  it('should format dates in the provider time zone', () => {
+    const { result } = renderHook(() => useAsqioI18n(), {
+      wrapper: createWrapper({ locale: 'ja', timeZone: 'Asia/Tokyo' }),
+    });
+
+    expect(result.current.timeZone).toBe('Asia/Tokyo');
+    expect(result.current.format.time('2026-01-15T10:05:00Z')).toBe('19:05');
+  });
+
+  it('should render components in the provider locale', () => {
+    render(
+      <RedactionWarning
+        matches={[
+          { type: 'email', value: 'taro@example.com', index: 0 },
+          { type: 'phone', value: '090-1234-5678', index: 20 },
+        ]}
+        onConfirm={() => {}}
+        onCancel={() => {}}
+      />,
+      { wrapper: createWrapper({ locale: 'en' }) },
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Your message may contain an email address, a phone number. It will be masked when sent.',
+    );
+    expect(screen.getByText('Send anyway')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Outbox } from '../../src/outbox/Outbox';
+import { createLocalStorageStorage, createMemoryStorage, createOutboxStorage } from '../../src/outbox/storage';
+import { AsqioAbortError, AsqioError, AsqioNetworkError } from '../../src/client/errors';
+import type { AsqioClient } from '../../src/client/AsqioClient';
+import type { SendMessageOutboxEntry, CreateTicketOutboxEntry } from '../../src/types';
+
+const client = {
+  createTicket: vi.fn(),
+  sendMessage: vi.fn(),
+};
+
+function messageEntry(id: string, body = id): SendMessageOutboxEntry {
+  return {
+    id,
+    kind: 'sendMessage',
+    ticket_id: 'ticket-1',
+    params: { body },
+    created_at: '2026-01-01T00:00:00Z',
+    attempts: 0,
+  };
+}
+
+function setOnline(online: boolean) {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+  window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+}
+
+describe('Outbox', () => {
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    stop?.();
+    vi.restoreAllMocks();
+  });
+
+  it('queues entries while offline and flushes them in order when online', async () => {
+    const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage());
+    stop = outbox.start();
+    setOnline(false);
+
+    const first = outbox.enqueue(messageEntry('a'));
+    const second = outbox.enqueue(messageEntry('b'));
+    await vi.waitFor(() => expect(outbox.getState().entries).toHaveLength(2));
+    expect(client.sendMessage).not.toHaveBeenCalled();
+
+    client.sendMessage.mockImplementation(async (_id: string, params: { body: string }) => ({
+      id: `server-${params.body}`,
+    }));
+    setOnline(true);
+
+    await expect(first).resolves.toEqual({ id: 'server-a' });
+    await expect(second).resolves.toEqual({ id: 'server-b' });
+    expect(client.sendMessage.mock.calls.map((c) => c[1].body)).toEqual(['a', 'b']);
+    expect(outbox.getState().entries).toEqual([]);
+  });
+
+  it('does not queue the same id twice', async () => {
+    const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage());
+    setOnline(false);
+
+    outbox.enqueue(messageEntry('a'));
+    outbox.enqueue(messageEntry('a'));
+
+    await vi.waitFor(() => expect(outbox.getState().entries).toHaveLength(1));
+  });
+
+  it('stops flushing on network errors and keeps the entry', async () => {
+    const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage());
+    setOnline(false);
+    outbox.enqueue(messageEntry('a'));
+    outbox.enqueue(messageEntry('b'));
+    await vi.waitFor(() => expect(outbox.getState().entries).toHaveLength(2));
+
+    setOnline(true);
+    client.sendMessage.mockRejectedValue(new AsqioNetworkError('Network request failed'));
+    await outbox.flush();
+
+    expect(client.sendMessage).toHaveBeenCalledTimes(1);
+    expect(outbox.getState().entries.map((e) => [e.id, e.attempts, e.error])).toEqual([
+      ['a', 1, undefined],
+      ['b', 0, undefined],
+    ]);
+  });
+
+  it('marks entries rejected by the server as failed and continues', async () => {
+    const onSent = vi.fn();
+    const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage(), { onSent });
+    setOnline(false);
+    const first = outbox.enqueue(messageEntry('a'));
+    const second = outbox.enqueue(messageEntry('b'));
+    await vi.waitFor(() => expect(outbox.getState().entries).toHaveLength(2));
+
+    setOnline(true);
+    client.sendMessage
+      .mockRejectedValueOnce(new AsqioError('Ticket is closed', 'VALIDATION_ERROR', 422))
+      .mockResolvedValueOnce({ id: 'server-b' });
+    await outbox.flush();
+
+    await expect(first).rejects.toThrow('Ticket is closed');
+    await expect(second).resolves.toEqual({ id: 'server-b' });
+    expect(outbox.getState().entries).toMatchObject([{ id: 'a', error: 'Ticket is closed' }]);
+    expect(onSent).toHaveBeenCalledTimes(1);
+    expect(onSent).toHaveBeenCalledWith(expect.objectContaining({ id: 'b' }), { id: 'server-b' });
+
+    // 失敗したエントリは次の flush でも送らない
+    await outbox.flush();
+    expect(client.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects the waiting caller when an entry is removed', async () => {
+    const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage());
+    setOnline(false);
+    const pending = outbox.enqueue(messageEntry('a'));
+    await vi.waitFor(() => expect(outbox.getState().entries).toHaveLength(1));
+
+    await outbox.remove('a');
+
+    await expect(pending).rejects.toThrow(AsqioAbortError);
+    expect(outbox.getState().entries).toEqual([]);
+  });
+
+  it('restores persisted entries and sends them on start', async () => {
+    const storage = createLocalStorageStorage('tenant');
+    const entry: CreateTicketOutboxEntry = {
+      id: 'ticket-key',
+      kind: 'createTicket',
+      params: { message: 'Help' },
+      created_at: '2026-01-01T00:00:00Z',
+      attempts: 0,
+    };
+    await storage.put(entry);
+    client.createTicket.mockResolvedValue({ id: 'ticket-1' });
+
+    const onSent = vi.fn();
+    const outbox = new Outbox(client as unknown as AsqioClient, storage, { onSent });
+    stop = outbox.start();
+
+    await vi.waitFor(() => expect(onSent).toHaveBeenCalledWith(entry, { id: 'ticket-1' }));
+    expect(client.createTicket).toHaveBeenCalledWith(
+      { message: 'Help' },
+      { idempotencyKey: 'ticket-key' },
+    );
+    expect(await storage.getAll()).toEqual([]);
+    expect(localStorage.getItem('asqio-outbox:tenant')).toBeNull();
+  });
+
+  it('retries with backoff after a network error while online', async () => {
+    vi.useFakeTimers();
+    try {
+      const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage(), {
+        retryBaseDelayMs: 1000,
+        retryMaxDelayMs: 3000,
+      });
+      setOnline(true);
+      client.sendMessage
+        .mockRejectedValueOnce(new AsqioNetworkError('Network request failed'))
+        .mockRejectedValueOnce(new AsqioNetworkError('Network request failed'))
+        .mockRejectedValueOnce(new AsqioNetworkError('Network request failed'))
+        .mockResolvedValueOnce({ id: 'server-a' });
+      stop = outbox.start();
+
+      const sent = outbox.enqueue(messageEntry('a'));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(client.sendMessage).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(client.sendMessage).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(client.sendMessage).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(client.sendMessage).toHaveBeenCalledTimes(3);
+
+      // 上限で打ち止めにする
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(client.sendMessage).toHaveBeenCalledTimes(4);
+      await expect(sent).resolves.toEqual({ id: 'server-a' });
+      expect(outbox.getState().entries).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('does not schedule retries while offline or after stopping', async () => {
+    vi.useFakeTimers();
+    try {
+      const outbox = new Outbox(client as unknown as AsqioClient, createMemoryStorage(), {
+        retryBaseDelayMs: 1000,
+      });
+      setOnline(true);
+      client.sendMessage.mockRejectedValue(new AsqioNetworkError('Network request failed'));
+      const stopOutbox = outbox.start();
+
+      outbox.enqueue(messageEntry('a'));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(client.sendMessage).toHaveBeenCalledTimes(1);
+
+      stopOutbox();
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(client.sendMessage).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('createOutboxStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it('falls back to localStorage when IndexedDB cannot be opened', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request: { error?: DOMException; onerror?: () => void } = {};
+        setTimeout(() => {
+          request.error = new DOMException('A mutation operation was attempted', 'InvalidStateError');
+          request.onerror?.();
+        });
+        return request;
+      },
+    });
+    const storage = createOutboxStorage('tenant');
+
+    await storage.put(messageEntry('a'));
+
+    expect(await storage.getAll()).toEqual([messageEntry('a')]);
+    expect(JSON.parse(localStorage.getItem('asqio-outbox:tenant') ?? '[]')).toEqual([messageEntry('a')]);
+  });
+});
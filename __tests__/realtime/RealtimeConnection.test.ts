@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RealtimeConnection } from '../../src/realtime/RealtimeConnection';
+import { AsqioError } from '../../src/client/errors';
+import type {
+  RealtimeTransportFactory,
+  RealtimeTransportHandlers,
+} from '../../src/types/realtime';
+
+interface FakeTransport {
+  url: string;
+  handlers: RealtimeTransportHandlers;
+  close: ReturnType<typeof vi.fn>;
+}
+
+function createFakeTransport() {
+  const connections: FakeTransport[] = [];
+  const factory: RealtimeTransportFactory = (url, handlers) => {
+    const connection = { url, handlers, close: vi.fn() };
+    connections.push(connection);
+    return connection;
+  };
+  return { factory, connections };
+}
+
+describe('RealtimeConnection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('connects with the token and tenant key in the URL', async () => {
+    const { factory, connections } = createFakeTransport();
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+    });
+
+    connection.start();
+    expect(connection.getStatus()).toBe('connecting');
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+
+    expect(connections[0].url).toBe('wss://api.example.com/cable?token=tok&tenant_key=tenant');
+    connections[0].handlers.onOpen();
+    expect(connection.getStatus()).toBe('open');
+  });
+
+  it('refreshes the token after the server rejects it', async () => {
+    const { factory, connections } = createFakeTransport();
+    const refreshToken = vi.fn(async (stale: string) => `${stale}-refreshed`);
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+      refreshToken,
+      reconnectBaseDelayMs: 1000,
+    });
+
+    connection.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    connections[0].handlers.onClose(new AsqioError('Realtime connection was unauthorized', 'UNAUTHORIZED', 401));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(refreshToken).toHaveBeenCalledWith('tok');
+    expect(connections[1].url).toContain('token=tok-refreshed');
+
+    // 認証以外の理由で切れたときはリフレッシュしない
+    connections[1].handlers.onClose(new Error('boom'));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(connections).toHaveLength(3);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('delivers events to subscribers', async () => {
+    const { factory, connections } = createFakeTransport();
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+    });
+    const listener = vi.fn();
+    connection.subscribe(listener);
+
+    connection.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    connections[0].handlers.onEvent({ type: 'unread_count.updated', unread_count: 3 });
+
+    expect(listener).toHaveBeenCalledWith({ type: 'unread_count.updated', unread_count: 3 });
+  });
+
+  it('reconnects with exponential backoff and falls back to polling', async () => {
+    const { factory, connections } = createFakeTransport();
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+      reconnectBaseDelayMs: 1000,
+      maxReconnectAttempts: 2,
+    });
+
+    connection.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    connections[0].handlers.onClose(new Error('boom'));
+    expect(connection.getStatus()).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(connections).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(connections).toHaveLength(2);
+
+    connections[1].handlers.onClose();
+    expect(connection.getStatus()).toBe('polling');
+
+    // ポーリング中も裏で再接続を試み、つながれば open に戻る
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(connections).toHaveLength(3);
+    expect(connection.getStatus()).toBe('polling');
+    connections[2].handlers.onOpen();
+    expect(connection.getStatus()).toBe('open');
+  });
+
+  it('retries when the transport cannot be created', async () => {
+    const factory = vi.fn<RealtimeTransportFactory>(() => {
+      throw new TypeError('WebSocket is not available in this environment');
+    });
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+      maxReconnectAttempts: 1,
+    });
+
+    connection.start();
+    await vi.waitFor(() => expect(connection.getStatus()).toBe('polling'));
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores callbacks from a transport after stop', async () => {
+    const { factory, connections } = createFakeTransport();
+    const connection = new RealtimeConnection({
+      url: 'wss://api.example.com/cable',
+      transport: factory,
+      tenantKey: 'tenant',
+      getToken: async () => 'tok',
+    });
+    const listener = vi.fn();
+    connection.subscribe(listener);
+
+    connection.start();
+    await vi.waitFor(() => expect(connections).toHaveLength(1));
+    connection.stop();
+
+    expect(connections[0].close).toHaveBeenCalled();
+    connections[0].handlers.onEvent({ type: 'unread_count.updated', unread_count: 1 });
+    connections[0].handlers.onClose();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(connections).toHaveLength(1);
+    expect(connection.getStatus()).toBe('closed');
+  });
+});
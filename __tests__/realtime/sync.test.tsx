@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { AsqioProvider } from '../../src/context/AsqioContext';
+import { useTicket } from '../../src/hooks/useTicket';
+import { useUnreadCount } from '../../src/hooks/useUnreadCount';
+import { useRealtimeStatus } from '../../src/hooks/useRealtimeStatus';
+import type {
+  Message,
+  RealtimeOptions,
+  RealtimeTransportHandlers,
+  TicketWithMessages,
+} from '../../src/types';
+
+const mockClient = {
+  getTickets: vi.fn(),
+  getTicket: vi.fn(),
+  createTicket: vi.fn(),
+  getMessages: vi.fn(),
+  sendMessage: vi.fn(),
+  markAsRead: vi.fn(),
+  getUnreadCount: vi.fn(),
+  registerDevice: vi.fn(),
+  updateDevice: vi.fn(),
+  deleteDevice: vi.fn(),
+  getAuthToken: vi.fn(async () => 'token'),
+  refreshAuthToken: vi.fn(async () => 'token'),
+};
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => mockClient),
+}));
+
+let handlers: RealtimeTransportHandlers[] = [];
+
+const realtime: RealtimeOptions = {
+  url: 'wss://api.example.com/cable',
+  transport: (_url, h) => {
+    handlers.push(h);
+    return { close: () => {} };
+  },
+  maxReconnectAttempts: 1,
+  reconnectBaseDelayMs: 60_000,
+  pollInterval: 60_000,
+};
+
+const getToken = async () => 'token';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <AsqioProvider
+    baseUrl="https://api.example.com"
+    tenantKey="test"
+    getToken={getToken}
+    realtime={realtime}
+  >
+    {children}
+  </AsqioProvider>
+);
+
+const sampleTicket: TicketWithMessages = {
+  id: 'ticket-1',
+  title: null,
+  topic: null,
+  context: null,
+  device_info: null,
+  unread: false,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  messages: [],
+};
+
+const reply: Message = {
+  id: 'msg-2',
+  sender_type: 'operator',
+  sender_id: 'op-1',
+  body: 'How can I help?',
+  created_at: '2026-01-01T00:05:00Z',
+};
+
+describe('realtime sync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = [];
+  });
+
+  it('pushes new messages and unread counts into the hooks', async () => {
+    mockClient.getTicket.mockResolvedValue(sampleTicket);
+    mockClient.getUnreadCount.mockResolvedValue(0);
+    const { result } = renderHook(
+      () => ({ detail: useTicket('ticket-1'), unread: useUnreadCount(), status: useRealtimeStatus() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.detail.ticket).not.toBeNull();
+      expect(handlers).toHaveLength(1);
+    });
+    act(() => handlers[0].onOpen());
+    expect(result.current.status).toBe('open');
+
+    act(() => {
+      handlers[0].onEvent({ type: 'message.created', ticket_id: 'ticket-1', message: reply });
+      handlers[0].onEvent({ type: 'message.created', ticket_id: 'ticket-1', message: reply });
+      handlers[0].onEvent({ type: 'unread_count.updated', unread_count: 1 });
+    });
+
+    expect(result.current.detail.ticket?.messages).toEqual([reply]);
+    expect(result.current.unread.count).toBe(1);
+    expect(mockClient.getTicket).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to refetching when the connection is lost', async () => {
+    mockClient.getUnreadCount.mockResolvedValue(0);
+    const { result } = renderHook(
+      () => ({ unread: useUnreadCount(), status: useRealtimeStatus() }),
+      { wrapper },
+    );
+
+    await waitFor(() => {
+      expect(result.current.unread.loading).toBe(false);
+      expect(handlers).toHaveLength(1);
+    });
+
+    mockClient.getUnreadCount.mockResolvedValue(4);
+    act(() => handlers[0].onClose(new Error('lost')));
+
+    expect(result.current.status).toBe('polling');
+    await waitFor(() => {
+      expect(result.current.unread.count).toBe(4);
+    });
+    expect(mockClient.getUnreadCount).toHaveBeenCalledTimes(2);
+  });
+});
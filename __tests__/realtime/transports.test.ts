@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createWebSocketTransport } from '../../src/realtime/transports';
+import { AsqioError } from '../../src/client/errors';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  close = vi.fn();
+
+  constructor(public url: string, public protocols: string[]) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  receive(frame: unknown) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+const identifier = JSON.stringify({ channel: 'Asqio::NotificationsChannel' });
+
+describe('createWebSocketTransport', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  function connect() {
+    const handlers = { onOpen: vi.fn(), onEvent: vi.fn(), onClose: vi.fn() };
+    const transport = createWebSocketTransport('Asqio::NotificationsChannel')('wss://x/cable', handlers);
+    const socket = FakeWebSocket.instances[0];
+    socket.onopen?.();
+    return { handlers, transport, socket };
+  }
+
+  it('subscribes to the channel with ActionCable framing', () => {
+    const { handlers, socket } = connect();
+
+    expect(socket.protocols).toContain('actioncable-v1-json');
+    expect(JSON.parse(socket.sent[0])).toEqual({ command: 'subscribe', identifier });
+
+    socket.receive({ type: 'welcome' });
+    expect(handlers.onOpen).not.toHaveBeenCalled();
+    socket.receive({ type: 'confirm_subscription', identifier });
+    expect(handlers.onOpen).toHaveBeenCalledTimes(1);
+  });
+
+  it('unwraps channel messages into events and ignores pings', () => {
+    const { handlers, socket } = connect();
+    const event = { type: 'unread_count.updated', unread_count: 2 };
+
+    socket.receive({ type: 'ping', message: 1 });
+    socket.receive({ identifier, message: event });
+    socket.receive({ identifier: JSON.stringify({ channel: 'Other' }), message: event });
+
+    expect(handlers.onEvent).toHaveBeenCalledTimes(1);
+    expect(handlers.onEvent).toHaveBeenCalledWith(event);
+  });
+
+  it('closes when the subscription is rejected or the server disconnects', () => {
+    const { handlers, socket } = connect();
+
+    socket.receive({ type: 'reject_subscription', identifier });
+
+    expect(socket.close).toHaveBeenCalled();
+    expect(handlers.onClose).toHaveBeenCalledTimes(1);
+    expect(handlers.onClose.mock.calls[0][0]).toBeInstanceOf(Error);
+
+    // 以降の close は報告しない
+    socket.onclose?.();
+    expect(handlers.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an unauthorized disconnect as a 401 error', () => {
+    const { handlers, socket } = connect();
+
+    socket.receive({ type: 'disconnect', reason: 'unauthorized', reconnect: false });
+
+    const error = handlers.onClose.mock.calls[0][0];
+    expect(error).toBeInstanceOf(AsqioError);
+    expect(error.statusCode).toBe(401);
+  });
+
+  it('closes a stale connection that stopped receiving pings', () => {
+    vi.useFakeTimers();
+    const { handlers } = connect();
+
+    vi.advanceTimersByTime(15_000);
+
+    expect(handlers.onClose).toHaveBeenCalledTimes(1);
+  });
+});
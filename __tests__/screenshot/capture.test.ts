@@ -0,0 +1,167 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { captureScreenshot, cloneForSnapshot, collectPrivateRects } from '../../src/screenshot/capture';
+
+function mount(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  document.body.appendChild(root);
+  return root;
+}
+
+function stubRect(el: Element, rect: { left: number; top: number; width: number; height: number }) {
+  el.getBoundingClientRect = () => ({
+    ...rect,
+    x: rect.left,
+    y: rect.top,
+    right: rect.left + rect.width,
+    bottom: rect.top + rect.height,
+    toJSON: () => ({}),
+  });
+}
+
+describe('cloneForSnapshot', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should hide the content of private elements', () => {
+    const root = mount(`
+      <p>Public text</p>
+      <div data-asqio-private><span>Card 4242</span></div>
+    `);
+
+    const clone = cloneForSnapshot(root);
+
+    const hidden = clone.querySelector('[data-asqio-private]') as HTMLElement;
+    expect(hidden.style.getPropertyValue('visibility')).toBe('hidden');
+    expect((hidden.querySelector('span') as HTMLElement).style.getPropertyValue('visibility')).toBe('hidden');
+    expect(clone.textContent).toContain('Public text');
+    expect(clone.textContent).not.toContain('4242');
+  });
+
+  it('should copy typed values but never password values', () => {
+    const root = mount(`
+      <input id="name" />
+      <input id="secret" type="password" />
+      <textarea id="note"></textarea>
+      <input id="agree" type="checkbox" />
+    `);
+    (root.querySelector('#name') as HTMLInputElement).value = 'Taro';
+    (root.querySelector('#secret') as HTMLInputElement).value = 'hunter2';
+    (root.querySelector('#note') as HTMLTextAreaElement).value = 'It broke';
+    (root.querySelector('#agree') as HTMLInputElement).checked = true;
+
+    const clone = cloneForSnapshot(root);
+
+    expect(clone.querySelector('#name')?.getAttribute('value')).toBe('Taro');
+    expect(clone.querySelector('#secret')?.hasAttribute('value')).toBe(false);
+    expect(clone.querySelector('#note')?.textContent).toBe('It broke');
+    expect(clone.querySelector('#agree')?.hasAttribute('checked')).toBe(true);
+  });
+
+  it('should remove ignored elements and scripts', () => {
+    const root = mount(`
+      <div data-asqio-ignore>Support widget</div>
+      <script>alert(1)</script>
+      <p>Page</p>
+    `);
+
+    const clone = cloneForSnapshot(root);
+
+    expect(clone.textContent).not.toContain('Support widget');
+    expect(clone.querySelector('script')).toBeNull();
+    expect(clone.textContent).toContain('Page');
+  });
+
+  it('should honour custom selectors', () => {
+    const root = mount(`
+      <div class="secret">Token</div>
+      <div class="overlay">Overlay</div>
+    `);
+
+    const clone = cloneForSnapshot(root, { privateSelector: '.secret', ignoreSelector: '.overlay' });
+
+    expect(clone.textContent).not.toContain('Token');
+    expect(clone.querySelector('.overlay')).toBeNull();
+  });
+
+  it('should not modify the original DOM', () => {
+    const root = mount('<div data-asqio-private>Secret</div><div data-asqio-ignore>Widget</div>');
+
+    cloneForSnapshot(root);
+
+    expect(root.textContent).toBe('SecretWidget');
+  });
+});
+
+describe('collectPrivateRects', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should return private element positions relative to the root', () => {
+    const root = mount('<div data-asqio-private></div><input type="password" /><p></p>');
+    stubRect(root, { left: 100, top: 50, width: 400, height: 300 });
+    stubRect(root.querySelector('[data-asqio-private]')!, { left: 120, top: 60, width: 80, height: 20 });
+    stubRect(root.querySelector('input')!, { left: 100, top: 100, width: 200, height: 30 });
+
+    expect(collectPrivateRects(root)).toEqual([
+      { x: 20, y: 10, width: 80, height: 20 },
+      { x: 0, y: 50, width: 200, height: 30 },
+    ]);
+  });
+
+  it('should skip elements that are not rendered or outside the area', () => {
+    const root = mount('<div data-asqio-private></div><div data-asqio-private></div>');
+    stubRect(root, { left: 0, top: 0, width: 400, height: 300 });
+    const [hidden, outside] = Array.from(root.querySelectorAll('[data-asqio-private]'));
+    stubRect(hidden, { left: 10, top: 10, width: 0, height: 0 });
+    stubRect(outside, { left: 10, top: 500, width: 50, height: 50 });
+
+    expect(collectPrivateRects(root)).toEqual([]);
+  });
+});
+
+describe('captureScreenshot', () => {
+  /** jsdom は画像も canvas も描画しないので、読み込みと描画を差し替える */
+  function stubRendering(toDataURL: () => string) {
+    vi.stubGlobal('Image', class {
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      set src(_value: string) {
+        setTimeout(() => this.onload?.());
+      }
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      { drawImage: vi.fn(), fillRect: vi.fn() } as unknown as CanvasRenderingContext2D,
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(toDataURL);
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should return the rendered canvas', async () => {
+    stubRendering(() => 'data:image/png;base64,AAAA');
+    const root = mount('<p>Hello</p>');
+    stubRect(root, { left: 0, top: 0, width: 200, height: 100 });
+
+    const screenshot = await captureScreenshot({ root, scale: 1 });
+
+    expect(screenshot.width).toBe(200);
+    expect(screenshot.canvas.width).toBe(200);
+  });
+
+  it('should reject when the canvas cannot be exported', async () => {
+    stubRendering(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+    const root = mount('<p>Hello</p>');
+    stubRect(root, { left: 0, top: 0, width: 200, height: 100 });
+
+    await expect(captureScreenshot({ root, scale: 1 })).rejects.toThrow('cannot be exported');
+  });
+});
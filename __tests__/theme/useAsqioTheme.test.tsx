@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { act, render, renderHook } from '@testing-library/react';
+import { useEffect, type ReactNode } from 'react';
+import { AsqioProvider, useAsqioTheme } from '../../src/context/AsqioContext';
+import { darkTheme, lightTheme } from '../../src/theme/themes';
+import type { AsqioProviderProps } from '../../src/context/AsqioContext';
+
+vi.mock('../../src/client/AsqioClient', () => ({
+  AsqioClient: vi.fn(() => ({})),
+}));
+
+function Provider({ theme, children }: { theme?: AsqioProviderProps['theme']; children: ReactNode }) {
+  return (
+    <AsqioProvider
+      baseUrl="https://api.example.com"
+      tenantKey="test"
+      getToken={async () => 'token'}
+      theme={theme}
+    >
+      {children}
+    </AsqioProvider>
+  );
+}
+
+function rootVariable(name: string): string {
+  return document.documentElement.style.getPropertyValue(name);
+}
+
+/** prefers-color-scheme を切り替えられる matchMedia */
+function stubMatchMedia(initial: boolean) {
+  const listeners = new Set<() => void>();
+  const media = {
+    matches: initial,
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal('matchMedia', vi.fn(() => media));
+  return {
+    setDark(dark: boolean) {
+      media.matches = dark;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+describe('useAsqioTheme', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should use the light theme outside a provider', () => {
+    const { result } = renderHook(() => useAsqioTheme());
+
+    expect(result.current.mode).toBe('light');
+    expect(result.current.theme).toBe(lightTheme);
+  });
+
+  it('should not set variables when no theme is given', () => {
+    render(<Provider>child</Provider>);
+
+    expect(rootVariable('--asqio-primary-color')).toBe('');
+    expect(document.documentElement.hasAttribute('data-asqio-theme')).toBe(false);
+  });
+
+  it('should set the variables of the dark theme on the root element', () => {
+    const { unmount } = render(<Provider theme="dark">child</Provider>);
+
+    expect(rootVariable('--asqio-bg')).toBe(darkTheme.colors.background);
+    expect(rootVariable('--asqio-color-scheme')).toBe('dark');
+    expect(document.documentElement.getAttribute('data-asqio-theme')).toBe('dark');
+
+    unmount();
+
+    expect(rootVariable('--asqio-bg')).toBe('');
+    expect(document.documentElement.hasAttribute('data-asqio-theme')).toBe(false);
+  });
+
+  it('should switch the theme without remounting children', () => {
+    let mounts = 0;
+    function Child() {
+      useEffect(() => {
+        mounts++;
+      }, []);
+      return <span>{useAsqioTheme().colorScheme}</span>;
+    }
+
+    const { rerender, container, unmount } = render(<Provider theme="light"><Child /></Provider>);
+    expect(rootVariable('--asqio-bg')).toBe(lightTheme.colors.background);
+
+    rerender(<Provider theme={{ mode: 'dark', colors: { primary: '#ff0000' } }}><Child /></Provider>);
+
+    expect(container.textContent).toBe('dark');
+    expect(rootVariable('--asqio-bg')).toBe(darkTheme.colors.background);
+    expect(rootVariable('--asqio-primary-color')).toBe('#ff0000');
+    expect(mounts).toBe(1);
+    unmount();
+  });
+
+  it('should follow prefers-color-scheme in auto mode', () => {
+    const media = stubMatchMedia(false);
+    const wrapper = ({ children }: { children: ReactNode }) => <Provider theme="auto">{children}</Provider>;
+    const { result, unmount } = renderHook(() => useAsqioTheme(), { wrapper });
+
+    expect(result.current.mode).toBe('auto');
+    expect(result.current.colorScheme).toBe('light');
+
+    act(() => media.setDark(true));
+
+    expect(result.current.colorScheme).toBe('dark');
+    expect(result.current.theme).toEqual(darkTheme);
+    expect(rootVariable('--asqio-bg')).toBe(darkTheme.colors.background);
+    unmount();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { darkTheme, lightTheme } from '../../src/theme/themes';
+import { resolveTheme, themeMode, themeToCssVariables } from '../../src/theme/variables';
+
+describe('themeMode', () => {
+  it('should default to light for theme options without a mode', () => {
+    expect(themeMode('auto')).toBe('auto');
+    expect(themeMode({ colors: { primary: '#ff0000' } })).toBe('light');
+    expect(themeMode({ mode: 'dark' })).toBe('dark');
+  });
+});
+
+describe('resolveTheme', () => {
+  it('should return the built-in theme for a mode', () => {
+    expect(resolveTheme('light', 'light')).toBe(lightTheme);
+    expect(resolveTheme('dark', 'dark')).toBe(darkTheme);
+  });
+
+  it('should merge overrides into the built-in theme', () => {
+    const theme = resolveTheme(
+      {
+        colors: { primary: '#ff0000' },
+        bubbles: { user: { background: '#00ff00' } },
+        fonts: { sizes: { lg: '15px' } },
+      },
+      'light',
+    );
+
+    expect(theme.colors.primary).toBe('#ff0000');
+    expect(theme.colors.text).toBe(lightTheme.colors.text);
+    expect(theme.bubbles.user).toEqual({ background: '#00ff00', text: lightTheme.bubbles.user.text });
+    expect(theme.bubbles.operator).toEqual(lightTheme.bubbles.operator);
+    expect(theme.fonts.family).toBe(lightTheme.fonts.family);
+    expect(theme.fonts.sizes).toEqual({ ...lightTheme.fonts.sizes, lg: '15px' });
+  });
+
+  it('should apply dark overrides only for the dark color scheme', () => {
+    const options = { colors: { primary: '#ff0000' }, dark: { colors: { primary: '#ff8080' } } };
+
+    expect(resolveTheme(options, 'light').colors.primary).toBe('#ff0000');
+    expect(resolveTheme(options, 'dark').colors.primary).toBe('#ff8080');
+    expect(resolveTheme(options, 'dark').colors.background).toBe(darkTheme.colors.background);
+  });
+});
+
+describe('themeToCssVariables', () => {
+  it('should map the theme to --asqio-* custom properties', () => {
+    const variables = themeToCssVariables(darkTheme);
+
+    expect(variables['--asqio-primary-color']).toBe(darkTheme.colors.primary);
+    expect(variables['--asqio-bg']).toBe(darkTheme.colors.background);
+    expect(variables['--asqio-user-bubble-bg']).toBe(darkTheme.bubbles.user.background);
+    expect(variables['--asqio-operator-bubble-color']).toBe(darkTheme.bubbles.operator.text);
+    expect(variables['--asqio-status-pending-bg']).toBe(darkTheme.statuses.pending.background);
+    expect(variables['--asqio-radius-bubble']).toBe(darkTheme.radii.bubble);
+    expect(variables['--asqio-font-size-xs']).toBe(darkTheme.fonts.sizes.xs);
+    expect(variables['--asqio-spacing-xl']).toBe(darkTheme.spacing.xl);
+    expect(Object.keys(variables).every((name) => name.startsWith('--asqio-'))).toBe(true);
+  });
+});
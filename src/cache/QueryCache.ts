@@ -0,0 +1,240 @@
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  fetching: boolean;
+  /** 最後にデータを取得・更新した時刻。未取得なら 0 */
+  updatedAt: number;
+}
+
+/** ページを積み上げて表示するクエリのデータ。pages[0] が 1 ページ目 */
+export interface InfiniteData<T> {
+  pages: T[];
+}
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QueryCacheOptions {
+  /** この時間内に取得したデータはマウント時に再取得しない（デフォルト: 0） */
+  staleTime?: number;
+  /** 購読者がいなくなってからこの時間が経ったクエリを破棄する（デフォルト: 5 分） */
+  gcTime?: number;
+}
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  fetcher: QueryFetcher<T> | null;
+  promise: Promise<void> | null;
+  controller: AbortController | null;
+  invalidated: boolean;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_GC_TIME = 5 * 60 * 1000;
+
+const INITIAL_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  fetching: false,
+  updatedAt: 0,
+};
+
+/**
+ * エンドポイント + パラメータをキーにしたクエリキャッシュ。
+ * 同じキーの取得は実行中のリクエストを共有し、購読者がいなくなったら中断する。
+ * 購読者のいないクエリは gcTime 後に破棄する。ただし取り直せないローカルの状態（fetcher の無いもの）は残す。
+ */
+export class QueryCache {
+  private readonly entries = new Map<string, QueryEntry<unknown>>();
+  private readonly staleTime: number;
+  private readonly gcTime: number;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.staleTime = options.staleTime ?? 0;
+    this.gcTime = options.gcTime ?? DEFAULT_GC_TIME;
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state as QueryState<T>) ?? INITIAL_STATE;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    this.cancelGc(entry);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size > 0) return;
+      if (entry.controller) {
+        entry.controller.abort();
+        entry.controller = null;
+        entry.promise = null;
+        this.update(entry, { fetching: false });
+      }
+      this.scheduleGc(entry);
+    };
+  }
+
+  /**
+   * fetcher を登録し、データが古ければ取得する。
+   */
+  mount<T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<void> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+    if (!this.isStale(entry)) return Promise.resolve();
+    return this.fetch(key, fetcher);
+  }
+
+  /**
+   * 実行中の取得があればそれを共有する。force の場合は中断して取り直す。
+   */
+  fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: { force?: boolean } = {}): Promise<void> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+    if (entry.promise && !options.force) return entry.promise;
+
+    entry.controller?.abort();
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, { fetching: true, error: null });
+
+    const promise = fetcher(controller.signal).then(
+      (data) => {
+        if (entry.controller !== controller) return;
+        entry.invalidated = false;
+        this.update(entry, { data, error: null, fetching: false, updatedAt: Date.now() });
+      },
+      (e: unknown) => {
+        if (entry.controller !== controller) return;
+        this.update(entry, {
+          error: e instanceof Error ? e : new Error(String(e)),
+          fetching: false,
+        });
+      },
+    ).finally(() => {
+      if (entry.controller === controller) {
+        entry.controller = null;
+        entry.promise = null;
+        this.scheduleGc(entry);
+      }
+    });
+    entry.promise = promise;
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, updater: (data: T | undefined) => T | undefined): void {
+    const entry = this.entry<T>(key);
+    this.update(entry, { data: updater(entry.state.data), updatedAt: Date.now() });
+  }
+
+  /** key で始まる全クエリのうち、取得済みのデータを返す */
+  getQueriesData<T>(prefix: QueryKey): T[] {
+    return this.match<T>(prefix)
+      .map((entry) => entry.state.data)
+      .filter((data): data is T => data !== undefined);
+  }
+
+  /**
+   * key で始まる全クエリのデータを更新する（取得済みのものだけ）。
+   * updater にはクエリごとの key も渡すので、パラメータによって書き換え方を変えられる
+   */
+  setQueriesData<T>(prefix: QueryKey, updater: (data: T, key: QueryKey) => T): void {
+    for (const entry of this.match<T>(prefix)) {
+      if (entry.state.data !== undefined) {
+        this.update(entry, { data: updater(entry.state.data, entry.key) });
+      }
+    }
+  }
+
+  /**
+   * key で始まる全クエリを古いものとして扱い、購読中のものは再取得する。
+   * filter を渡すと、それが true を返すクエリだけを対象にする
+   */
+  invalidate(prefix: QueryKey, filter?: (key: QueryKey) => boolean): Promise<void> {
+    const refetches: Promise<void>[] = [];
+    for (const entry of this.match(prefix)) {
+      if (filter && !filter(entry.key)) continue;
+      entry.invalidated = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        refetches.push(this.fetch(entry.key, entry.fetcher, { force: true }));
+      }
+    }
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  private isStale(entry: QueryEntry<unknown>): boolean {
+    if (entry.invalidated || entry.state.updatedAt === 0) return true;
+    return Date.now() - entry.state.updatedAt >= this.staleTime;
+  }
+
+  private entry<T>(key: QueryKey): QueryEntry<T> {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = {
+        key,
+        state: INITIAL_STATE,
+        listeners: new Set(),
+        fetcher: null,
+        promise: null,
+        controller: null,
+        invalidated: false,
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry as QueryEntry<unknown>);
+    }
+    return entry;
+  }
+
+  /** 購読者がおらず取得中でもなければ、gcTime 後に破棄する */
+  private scheduleGc(entry: QueryEntry<unknown>): void {
+    if (entry.listeners.size > 0 || entry.promise) return;
+    if (!entry.fetcher && entry.state.data !== undefined) return;
+    this.cancelGc(entry);
+    if (!Number.isFinite(this.gcTime)) return;
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null;
+      const hash = hashQueryKey(entry.key);
+      if (this.entries.get(hash) === entry) this.entries.delete(hash);
+    }, this.gcTime);
+  }
+
+  private cancelGc(entry: QueryEntry<unknown>): void {
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+  }
+
+  private match<T>(prefix: QueryKey): QueryEntry<T>[] {
+    const parts = prefix.map((part) => hashQueryKey([part]));
+    return [...this.entries.values()].filter((entry) =>
+      parts.every((part, i) => i < entry.key.length && hashQueryKey([entry.key[i]]) === part),
+    ) as QueryEntry<T>[];
+  }
+
+  private update<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * オブジェクトのキー順に依存しない安定したハッシュ。undefined のプロパティは無視する。
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((acc, k) => {
+          acc[k] = (value as Record<string, unknown>)[k];
+          return acc;
+        }, {});
+    }
+    return value;
+  });
+}
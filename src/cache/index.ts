@@ -0,0 +1,2 @@
+export { QueryCache, hashQueryKey } from './QueryCache';
+export type { QueryKey, QueryState, QueryFetcher, QueryCacheOptions, InfiniteData } from './QueryCache';
@@ -0,0 +1,38 @@
+import type { InfiniteData, QueryCache } from './QueryCache';
+import type { MessageListParams, MessageListResponse } from '../types/api';
+import type { Message, TicketWithMessages } from '../types/models';
+
+function containsMessage(data: InfiniteData<MessageListResponse>, id: string): boolean {
+  return data.pages.some((page) => page.messages.some((m) => m.id === id));
+}
+
+/**
+ * 新しく届いた・送ったメッセージを読み込み済みのキャッシュに加える。
+ * 詳細と積み上げ式の一覧にはその場で加え、ページ単位の一覧はページ境界がずれるので取り直す。
+ * 積み上げ式の一覧を取り直さないのは、遡って読んでいる途中で先頭のメッセージが入れ替わらないようにするため
+ */
+export function addMessageToCache(cache: QueryCache, ticketId: string, message: Message): void {
+  cache.setQueriesData<TicketWithMessages>(['ticket', ticketId], (ticket) =>
+    ticket.messages.some((m) => m.id === message.id)
+      ? ticket
+      : { ...ticket, messages: [...ticket.messages, message], updated_at: message.created_at },
+  );
+  cache.setQueriesData<InfiniteData<MessageListResponse>>(
+    ['messages', ticketId, 'infinite'],
+    (data, key) => {
+      if (data.pages.length === 0 || containsMessage(data, message.id)) return data;
+      const params = key[3] as MessageListParams | null;
+      if (params?.order === 'desc') {
+        const [newest, ...older] = data.pages;
+        return { pages: [{ ...newest, messages: [message, ...newest.messages] }, ...older] };
+      }
+      // 古い順なら、最後のページまで読み込んでいるときだけ末尾に足す
+      const last = data.pages[data.pages.length - 1];
+      if (last.meta.current_page < last.meta.total_pages) return data;
+      return {
+        pages: [...data.pages.slice(0, -1), { ...last, messages: [...last.messages, message] }],
+      };
+    },
+  );
+  cache.invalidate(['messages', ticketId], (key) => key[2] !== 'infinite');
+}
@@ -0,0 +1,48 @@
+import type { InfiniteData, QueryCache } from './QueryCache';
+import type { TicketListResponse } from '../types/api';
+import type { Ticket, TicketWithMessages } from '../types/models';
+
+type TicketListData = TicketListResponse | InfiniteData<TicketListResponse>;
+
+/** 読み込み済みの一覧（ページ単位・無限スクロールの両方）のチケットを書き換える */
+export function mapTicketLists(cache: QueryCache, fn: (ticket: Ticket) => Ticket): void {
+  const mapPage = (res: TicketListResponse): TicketListResponse => ({
+    ...res,
+    tickets: res.tickets.map(fn),
+  });
+  cache.setQueriesData<TicketListData>(['tickets'], (data) =>
+    'pages' in data ? { pages: data.pages.map(mapPage) } : mapPage(data),
+  );
+}
+
+/** メッセージを含まないチケット情報のキャッシュキー */
+export function ticketSummaryKey(ticketId: string) {
+  return ['ticket_summary', ticketId] as const;
+}
+
+/** 読み込み済みの詳細か一覧から、チケットを探す */
+export function findTicketInCache(cache: QueryCache, ticketId: string): Ticket | undefined {
+  const detail = cache.getState<TicketWithMessages>(['ticket', ticketId]).data;
+  if (detail) {
+    const { messages: _messages, ...ticket } = detail;
+    return ticket;
+  }
+  for (const data of cache.getQueriesData<TicketListData>(['tickets'])) {
+    const pages = 'pages' in data ? data.pages : [data];
+    for (const page of pages) {
+      const ticket = page.tickets.find((t) => t.id === ticketId);
+      if (ticket) return ticket;
+    }
+  }
+  return undefined;
+}
+
+/** 読み込み済みの詳細と一覧に、更新後のチケットを書き込む */
+export function updateTicketInCache(cache: QueryCache, ticket: Ticket): void {
+  cache.setQueriesData<TicketWithMessages>(['ticket', ticket.id], (current) => ({
+    ...current,
+    ...ticket,
+  }));
+  cache.setQueriesData<Ticket>(ticketSummaryKey(ticket.id), (current) => ({ ...current, ...ticket }));
+  mapTicketLists(cache, (t) => (t.id === ticket.id ? { ...t, ...ticket } : t));
+}
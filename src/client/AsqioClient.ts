@@ -1,55 +1,155 @@
-import type { AsqioConfig } from '../types/config';
+import type {
+  AsqioConfig,
+  AsqioMiddleware,
+  RequestContext,
+  SensitiveDataMatch,
+} from '../types/config';
 import type {
   CreateTicketParams,
   SendMessageParams,
   RegisterDeviceParams,
   UpdateDeviceParams,
-  PaginationParams,
+  TicketQuery,
+  MessageListParams,
   TicketListResponse,
   TopicListResponse,
   MessageListResponse,
   UnreadCountResponse,
   ApiErrorResponse,
+  RequestOptions,
+  MutationOptions,
+  UploadOptions,
 } from '../types/api';
-import type { TicketWithMessages, Ticket, Message, Device, Topic } from '../types/models';
-import { AsqioError, AsqioNetworkError } from './errors';
+import type { TicketWithMessages, Ticket, Message, Device, Topic, Attachment } from '../types/models';
+import {
+  AsqioAbortError,
+  AsqioError,
+  AsqioNetworkError,
+  AsqioRateLimitError,
+  AsqioTimeoutError,
+} from './errors';
 import { detectDeviceInfo } from './device-info';
+import {
+  computeRetryDelay,
+  isRetryableRequest,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  shouldRetryError,
+  sleep,
+  type RetryPolicy,
+} from './retry';
+import { abortable, startTimeout } from './timeout';
+import { AuthManager } from './auth';
+import { generateId } from './id';
+import { createRedactor, type Redactor } from './redaction';
+import {
+  createXhrFetch,
+  resolveAttachmentRules,
+  validateAttachment,
+  type ResolvedAttachmentRules,
+} from './attachments';
+import {
+  applyErrorMiddleware,
+  applyRequestMiddleware,
+  applyResponseMiddleware,
+} from './middleware';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+interface AttemptContext extends RequestContext {
+  /** この試行で送るトークン。リフレッシュ直後の再送では事前に設定される */
+  token?: string;
+}
+
+/**
+ * window.fetch はレシーバが window 以外だと Illegal invocation になるため、関数として呼び出す。
+ * グローバルの fetch は構築時ではなく呼び出し時に解決し、fetch の無い環境でも構築できるようにする。
+ */
+function resolveFetch(custom?: typeof fetch): typeof fetch {
+  if (custom) {
+    return (input, init) => custom(input, init);
+  }
+  return (input, init) => {
+    if (typeof globalThis.fetch !== 'function') {
+      throw new TypeError('fetch is not available in this environment; pass AsqioConfig.fetch');
+    }
+    return globalThis.fetch(input, init);
+  };
+}
+
+function isFormData(body: unknown): body is FormData {
+  return typeof FormData !== 'undefined' && body instanceof FormData;
+}
 
 export class AsqioClient {
   private readonly baseUrl: string;
   private readonly tenantKey: string;
-  private readonly getToken: () => Promise<string>;
+  private readonly auth: AuthManager;
   private readonly appVersion?: string;
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly middleware: AsqioMiddleware[];
+  private readonly fetchImpl: typeof fetch;
+  private readonly customFetch: boolean;
+  /** uploadAttachment が検証に使うルール。ファイル選択の accept 属性などに使う */
+  readonly attachmentRules: ResolvedAttachmentRules;
+  private readonly redactor: Redactor | null;
+  /** redaction.confirm が有効なら true。UI で送信前に確認する */
+  readonly confirmRedaction: boolean;
+  private rateLimitedUntil = 0;
 
   constructor(config: AsqioConfig) {
     this.baseUrl = config.baseUrl.replace(/\/+$/, '');
     this.tenantKey = config.tenantKey;
-    this.getToken = config.getToken;
+    this.auth = new AuthManager(config.getToken, config.refreshToken);
     this.appVersion = config.appVersion;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.middleware = config.middleware ?? [];
+    this.fetchImpl = resolveFetch(config.fetch);
+    this.customFetch = config.fetch != null;
+    this.attachmentRules = resolveAttachmentRules(config.attachments);
+    this.redactor = createRedactor(config.redaction);
+    this.confirmRedaction = this.redactor?.confirm ?? false;
   }
 
   // --- Topics ---
 
-  async getTopics(): Promise<Topic[]> {
-    const res = await this.request<TopicListResponse>('/topics');
+  async getTopics(options?: RequestOptions): Promise<Topic[]> {
+    const res = await this.request<TopicListResponse>('/topics', {}, options);
     return res.topics;
   }
 
   // --- Tickets ---
 
-  async getTickets(params?: PaginationParams): Promise<TicketListResponse> {
+  async getTickets(params?: TicketQuery, options?: RequestOptions): Promise<TicketListResponse> {
     const query = this.buildQuery(params);
-    return this.request<TicketListResponse>(`/tickets${query}`);
+    return this.request<TicketListResponse>(`/tickets${query}`, {}, options);
+  }
+
+  /**
+   * 条件に一致するチケットを 1 ページ目から最後のページまで順に返す。
+   * params.page は無視する
+   */
+  async *iterateTickets(params?: TicketQuery, options?: RequestOptions): AsyncGenerator<Ticket, void> {
+    for (let page = 1; ; page++) {
+      const res = await this.getTickets({ ...params, page }, options);
+      yield* res.tickets;
+      if (res.tickets.length === 0 || res.meta.current_page >= res.meta.total_pages) return;
+    }
   }
 
-  async getTicket(id: string): Promise<TicketWithMessages> {
-    return this.request<TicketWithMessages>(`/tickets/${id}`);
+  async getTicket(id: string, options?: RequestOptions): Promise<TicketWithMessages> {
+    return this.request<TicketWithMessages>(`/tickets/${id}`, {}, options);
   }
 
-  async createTicket(params: CreateTicketParams): Promise<Ticket> {
+  async createTicket(params: CreateTicketParams, options?: MutationOptions): Promise<Ticket> {
     const deviceInfo = detectDeviceInfo();
     const body = {
       ...params,
+      message: this.redactText(params.message),
+      title: params.title && this.redactText(params.title),
+      context: params.context && this.redactContext(params.context),
       platform: params.platform ?? deviceInfo.platform,
       os_version: params.os_version ?? deviceInfo.os_version,
       device_model: params.device_model ?? deviceInfo.device_model,
@@ -59,84 +159,276 @@ export class AsqioClient {
     };
     return this.request<Ticket>('/tickets', {
       method: 'POST',
+      headers: this.idempotencyHeaders(options),
       body: JSON.stringify(body),
-    });
+    }, options);
+  }
+
+  async closeTicket(ticketId: string, options?: MutationOptions): Promise<Ticket> {
+    return this.request<Ticket>(`/tickets/${ticketId}/close`, {
+      method: 'POST',
+      headers: this.idempotencyHeaders(options),
+    }, options);
+  }
+
+  async reopenTicket(ticketId: string, options?: MutationOptions): Promise<Ticket> {
+    return this.request<Ticket>(`/tickets/${ticketId}/reopen`, {
+      method: 'POST',
+      headers: this.idempotencyHeaders(options),
+    }, options);
   }
 
   // --- Messages ---
 
-  async getMessages(ticketId: string, params?: PaginationParams): Promise<MessageListResponse> {
+  async getMessages(
+    ticketId: string,
+    params?: MessageListParams,
+    options?: RequestOptions,
+  ): Promise<MessageListResponse> {
     const query = this.buildQuery(params);
-    return this.request<MessageListResponse>(`/tickets/${ticketId}/messages${query}`);
+    return this.request<MessageListResponse>(`/tickets/${ticketId}/messages${query}`, {}, options);
+  }
+
+  /** チケットのメッセージを 1 ページ目から最後のページまで順に返す。params.page は無視する */
+  async *iterateMessages(
+    ticketId: string,
+    params?: MessageListParams,
+    options?: RequestOptions,
+  ): AsyncGenerator<Message, void> {
+    for (let page = 1; ; page++) {
+      const res = await this.getMessages(ticketId, { ...params, page }, options);
+      yield* res.messages;
+      if (res.messages.length === 0 || res.meta.current_page >= res.meta.total_pages) return;
+    }
   }
 
-  async sendMessage(ticketId: string, params: SendMessageParams): Promise<Message> {
+  async sendMessage(
+    ticketId: string,
+    params: SendMessageParams,
+    options?: MutationOptions,
+  ): Promise<Message> {
     return this.request<Message>(`/tickets/${ticketId}/messages`, {
       method: 'POST',
-      body: JSON.stringify({ message: { body: params.body } }),
-    });
+      headers: this.idempotencyHeaders(options),
+      body: JSON.stringify({
+        message: { body: this.redactText(params.body), attachment_ids: params.attachment_ids },
+      }),
+    }, options);
+  }
+
+  // --- Auth ---
+
+  /** API リクエストと同じキャッシュを通してトークンを取得する。realtime の接続などに使う */
+  getAuthToken(): Promise<string> {
+    return this.auth.getToken();
+  }
+
+  /** 拒否されたトークンを渡してリフレッシュする。他で既にリフレッシュ済みならその結果を返す */
+  refreshAuthToken(staleToken: string): Promise<string> {
+    return this.auth.refresh(staleToken);
+  }
+
+  // --- Redaction ---
+
+  /** redaction で伏せる対象を検出する。redaction が無効なら常に空 */
+  findSensitiveData(text: string): SensitiveDataMatch[] {
+    return this.redactor?.find(text) ?? [];
+  }
+
+  /** createTicket / sendMessage が送る前に行うのと同じ置き換えをする。redaction が無効ならそのまま返す */
+  redactText(text: string): string {
+    return this.redactor?.redactText(text) ?? text;
+  }
+
+  /** createTicket が context に行うのと同じ置き換えをする。redaction が無効ならそのまま返す */
+  redactContext(context: Record<string, unknown>): Record<string, unknown> {
+    return this.redactor?.redactContext(context) ?? context;
+  }
+
+  // --- Attachments ---
+
+  /**
+   * ファイルを multipart/form-data でアップロードする。返った Attachment の id を
+   * createTicket / sendMessage の attachment_ids に渡すと添付される。
+   */
+  async uploadAttachment(file: Blob, options: UploadOptions = {}): Promise<Attachment> {
+    validateAttachment(file, this.attachmentRules);
+
+    const filename = (file as File).name || 'file';
+    const form = new FormData();
+    form.append('file', file, filename);
+
+    const { onProgress } = options;
+    // 進捗は XMLHttpRequest でしか取れないため、fetch が注入されている場合は完了時にだけ通知する
+    const useXhr = onProgress && !this.customFetch && typeof XMLHttpRequest === 'function';
+    const attachment = await this.request<Attachment>('/attachments', {
+      method: 'POST',
+      headers: this.idempotencyHeaders(options),
+      body: form,
+    }, options, useXhr ? createXhrFetch(onProgress) : this.fetchImpl);
+    if (!useXhr) onProgress?.({ loaded: file.size, total: file.size });
+    return attachment;
   }
 
   // --- Read status ---
 
-  async markAsRead(ticketId: string): Promise<void> {
+  async markAsRead(ticketId: string, options?: RequestOptions): Promise<void> {
     await this.request<void>(`/tickets/${ticketId}/read`, {
       method: 'POST',
-    });
+    }, options);
   }
 
-  async getUnreadCount(): Promise<number> {
-    const res = await this.request<UnreadCountResponse>('/unread_count');
+  async getUnreadCount(options?: RequestOptions): Promise<number> {
+    const res = await this.request<UnreadCountResponse>('/unread_count', {}, options);
     return res.unread_count;
   }
 
   // --- Devices ---
 
-  async registerDevice(params: RegisterDeviceParams): Promise<Device> {
+  async registerDevice(params: RegisterDeviceParams, options?: MutationOptions): Promise<Device> {
     return this.request<Device>('/devices', {
       method: 'POST',
+      headers: this.idempotencyHeaders(options),
       body: JSON.stringify({ device: params }),
-    });
+    }, options);
   }
 
-  async updateDevice(id: string, params: UpdateDeviceParams): Promise<Device> {
+  async updateDevice(
+    id: string,
+    params: UpdateDeviceParams,
+    options?: RequestOptions,
+  ): Promise<Device> {
     return this.request<Device>(`/devices/${id}`, {
       method: 'PUT',
       body: JSON.stringify({ device: params }),
-    });
+    }, options);
   }
 
-  async deleteDevice(id: string): Promise<void> {
+  async deleteDevice(id: string, options?: RequestOptions): Promise<void> {
     await this.request<void>(`/devices/${id}`, {
       method: 'DELETE',
-    });
+    }, options);
   }
 
   // --- Internal ---
 
-  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+  private async request<T>(
+    path: string,
+    init: RequestInit = {},
+    options: RequestOptions = {},
+    fetchImpl: typeof fetch = this.fetchImpl,
+  ): Promise<T> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const retryable = isRetryableRequest(method, (init.headers as Record<string, string>) ?? {});
+
+    let refreshedToken: string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      // 他のリクエストが受けた 429 の待機もタイムアウトに含める。待ちきれないなら送らずに失敗させる
+      let attemptTimeoutMs = timeoutMs;
+      const throttled = this.rateLimitedUntil - Date.now();
+      if (throttled > 0) {
+        if (timeoutMs > 0 && throttled >= timeoutMs) {
+          throw new AsqioRateLimitError('Too many requests', throttled);
+        }
+        await sleep(throttled, signal);
+        if (timeoutMs > 0) attemptTimeoutMs = timeoutMs - throttled;
+      }
+
+      const context: AttemptContext = {
+        url: `${this.baseUrl}${path}`,
+        path,
+        method,
+        attempt,
+        init: { ...init, headers: { ...((init.headers as Record<string, string>) ?? {}) } },
+        token: refreshedToken,
+      };
+      const timeout = startTimeout(signal, attemptTimeoutMs);
+      let error: Error;
+      try {
+        // signal を無視する fetch 実装でも確実に打ち切れるよう、試行全体を signal と競争させる
+        return await abortable(this.execute<T>(context, timeout.signal, fetchImpl), timeout.signal);
+      } catch (e) {
+        if (timeout.timedOut && !signal?.aborted) {
+          error = new AsqioTimeoutError(timeoutMs);
+        } else {
+          error = e instanceof Error ? e : new Error(String(e));
+        }
+      } finally {
+        timeout.clear();
+      }
+      error = await applyErrorMiddleware(this.middleware, error, context);
+
+      if (error instanceof AsqioAbortError) {
+        throw error;
+      }
+      // 401 はトークンを 1 度だけリフレッシュして即座に再送する（リトライ扱いにはしない）
+      if (error instanceof AsqioError && error.statusCode === 401 && !refreshedToken && context.token) {
+        try {
+          refreshedToken = await abortable(this.auth.refresh(context.token), signal);
+        } catch (e) {
+          if (e instanceof AsqioAbortError) throw e;
+          throw error;
+        }
+        continue;
+      }
+      // maxRetryAfterMs を超える待機はリトライしないので、他のリクエストも待たせない
+      if (
+        error instanceof AsqioRateLimitError
+        && error.retryAfterMs != null
+        && error.retryAfterMs <= this.retryPolicy.maxRetryAfterMs
+      ) {
+        this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + error.retryAfterMs);
+      }
+      if (!shouldRetryError(this.retryPolicy, { attempt, method, path, error }, retryable)) {
+        throw error;
+      }
+      const delayMs = computeRetryDelay(this.retryPolicy, attempt, error);
+      this.retryPolicy.onRetry?.({ attempt, method, path, error, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  private async execute<T>(
+    context: AttemptContext,
+    signal: AbortSignal,
+    fetchImpl: typeof fetch,
+  ): Promise<T> {
+    if (signal.aborted) {
+      throw new AsqioAbortError(signal.reason);
+    }
+
     let token: string;
     try {
-      token = await this.getToken();
+      token = context.token ?? await this.auth.getToken();
     } catch (e) {
       throw new AsqioNetworkError('Failed to retrieve auth token', e);
     }
+    context.token = token;
 
-    const url = `${this.baseUrl}${path}`;
-    const headers: Record<string, string> = {
+    context.init.headers = {
       'Authorization': `Bearer ${token}`,
       'X-Tenant-Key': this.tenantKey,
-      'Content-Type': 'application/json',
+      // FormData は boundary 付きの Content-Type を fetch に設定させる
+      ...(isFormData(context.init.body) ? {} : { 'Content-Type': 'application/json' }),
       'Accept': 'application/json',
-      ...((init?.headers as Record<string, string>) ?? {}),
+      ...context.init.headers,
     };
+    // onResponse / onError にも書き換え後の context を渡す
+    Object.assign(context, await applyRequestMiddleware(this.middleware, context));
 
     let response: Response;
     try {
-      response = await fetch(url, { ...init, headers });
+      response = await fetchImpl(context.url, { ...context.init, signal });
     } catch (e) {
+      if (signal.aborted) {
+        throw new AsqioAbortError(signal.reason);
+      }
       throw new AsqioNetworkError('Network request failed', e);
     }
+    response = await applyResponseMiddleware(this.middleware, response, context);
 
     if (response.status === 204) {
       return undefined as T;
@@ -149,6 +441,12 @@ export class AsqioClient {
       } catch {
         // ignore parse errors
       }
+      if (response.status === 429) {
+        throw new AsqioRateLimitError(
+          errorBody?.error ?? 'Too many requests',
+          parseRetryAfter(response.headers.get('Retry-After')),
+        );
+      }
       throw new AsqioError(
         errorBody?.error ?? `Request failed with status ${response.status}`,
         errorBody?.code ?? 'INTERNAL_SERVER_ERROR',
@@ -156,14 +454,34 @@ export class AsqioClient {
       );
     }
 
-    return response.json() as Promise<T>;
+    return await response.json() as T;
   }
 
-  private buildQuery(params?: PaginationParams): string {
+  /**
+   * リトライ時も同じキーを送るよう、試行ごとではなく呼び出しごとに 1 度だけ生成する。
+   */
+  private idempotencyHeaders(options?: MutationOptions): Record<string, string> {
+    return { 'Idempotency-Key': options?.idempotencyKey ?? generateId() };
+  }
+
+  private buildQuery(params?: TicketQuery & MessageListParams): string {
     if (!params) return '';
     const search = new URLSearchParams();
     if (params.page != null) search.set('page', String(params.page));
     if (params.per_page != null) search.set('per_page', String(params.per_page));
+    // 配列は Rails の慣習に合わせて status[]=open&status[]=pending の形にする
+    if (Array.isArray(params.status)) {
+      params.status.forEach((status) => search.append('status[]', status));
+    } else if (params.status) {
+      search.set('status', params.status);
+    }
+    if (params.q?.trim()) search.set('q', params.q.trim());
+    if (params.topic_id) search.set('topic_id', params.topic_id);
+    if (params.unread) search.set('unread', 'true');
+    if (params.updated_from) search.set('updated_from', params.updated_from);
+    if (params.updated_to) search.set('updated_to', params.updated_to);
+    if (params.sort) search.set('sort', params.sort);
+    if (params.order) search.set('order', params.order);
     const qs = search.toString();
     return qs ? `?${qs}` : '';
   }
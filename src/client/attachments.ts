@@ -0,0 +1,92 @@
+import type { AttachmentRules } from '../types/config';
+import type { UploadProgress } from '../types/api';
+import { AsqioAttachmentError } from './errors';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_ACCEPTED_TYPES = ['image/*', 'application/pdf', 'text/plain'];
+
+export type ResolvedAttachmentRules = Required<AttachmentRules>;
+
+export function resolveAttachmentRules(rules: AttachmentRules = {}): ResolvedAttachmentRules {
+  return {
+    maxBytes: rules.maxBytes ?? DEFAULT_MAX_BYTES,
+    acceptedTypes: rules.acceptedTypes ?? DEFAULT_ACCEPTED_TYPES,
+  };
+}
+
+function matchesType(type: string, accepted: string): boolean {
+  if (accepted === '*/*') return true;
+  if (accepted.endsWith('/*')) return type.startsWith(accepted.slice(0, -1));
+  return type === accepted;
+}
+
+export function validateAttachment(file: Blob, rules: ResolvedAttachmentRules): void {
+  if (file.size > rules.maxBytes) {
+    throw new AsqioAttachmentError(
+      `File exceeds the maximum size of ${rules.maxBytes} bytes`,
+      'too_large',
+    );
+  }
+  if (!rules.acceptedTypes.some((accepted) => matchesType(file.type, accepted))) {
+    throw new AsqioAttachmentError(
+      `File type "${file.type || 'unknown'}" is not allowed`,
+      'type_not_allowed',
+    );
+  }
+}
+
+function parseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  });
+  return headers;
+}
+
+/**
+ * アップロードの進捗を受け取れるよう、XMLHttpRequest で fetch と同じ振る舞いをする関数を作る。
+ */
+export function createXhrFetch(onProgress: (progress: UploadProgress) => void): typeof fetch {
+  return (input, init = {}) => new Promise<Response>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? 'GET', String(input));
+    Object.entries((init.headers ?? {}) as Record<string, string>).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+    const { signal } = init;
+    const onAbort = () => {
+      xhr.abort();
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    // 完了後も signal を使い回されたときに、終わったリクエストを参照し続けないようにする
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress({ loaded: e.loaded, total: e.total });
+    };
+    xhr.onload = () => {
+      cleanup();
+      const body = xhr.status === 204 ? null : xhr.responseText;
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.ontimeout = xhr.onerror;
+
+    if (signal) {
+      if (signal.aborted) {
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+}
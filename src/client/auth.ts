@@ -0,0 +1,71 @@
+/** 期限ぎりぎりのトークンを送らないための余裕 */
+const EXPIRY_SKEW_MS = 30_000;
+
+/**
+ * トークンのキャッシュとリフレッシュを管理する。
+ * JWT の `exp` が読めるトークンは期限までキャッシュし、読めないトークンは毎回取得する。
+ * 同時に発生した取得・リフレッシュは 1 回にまとめる。
+ */
+export class AuthManager {
+  private token: string | null = null;
+  private expiresAt: number | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(
+    private readonly fetchToken: () => Promise<string>,
+    private readonly refreshToken?: () => Promise<string>,
+  ) {}
+
+  getToken(): Promise<string> {
+    if (this.pending) return this.pending;
+    if (this.token && this.expiresAt != null && Date.now() < this.expiresAt - EXPIRY_SKEW_MS) {
+      return Promise.resolve(this.token);
+    }
+    return this.load(this.fetchToken);
+  }
+
+  /**
+   * 401 を受けたトークンを渡す。他のリクエストが既にリフレッシュ済みならその結果を返す。
+   */
+  refresh(staleToken: string): Promise<string> {
+    if (this.pending) return this.pending;
+    if (this.token && this.token !== staleToken) {
+      return Promise.resolve(this.token);
+    }
+    this.invalidate();
+    return this.load(this.refreshToken ?? this.fetchToken);
+  }
+
+  invalidate(): void {
+    this.token = null;
+    this.expiresAt = null;
+  }
+
+  private load(source: () => Promise<string>): Promise<string> {
+    const pending = Promise.resolve()
+      .then(source)
+      .then((token) => {
+        this.token = token;
+        this.expiresAt = decodeJwtExpiry(token);
+        return token;
+      })
+      .finally(() => {
+        if (this.pending === pending) this.pending = null;
+      });
+    this.pending = pending;
+    return pending;
+  }
+}
+
+export function decodeJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || typeof globalThis.atob !== 'function') return null;
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const payload = JSON.parse(globalThis.atob(padded)) as { exp?: unknown };
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
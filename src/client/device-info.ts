@@ -6,19 +6,29 @@ export interface DeviceInfo {
   timezone: string;
 }
 
+// navigator / Intl が無い環境（Node、SSR、一部の WebView）でも例外を出さずにフォールバックする
+
 export function detectDeviceInfo(): DeviceInfo {
-  const ua = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  const nav = typeof navigator !== 'undefined' ? navigator : undefined;
+  const ua = nav?.userAgent ?? '';
 
   return {
     platform: 'web',
     os_version: detectOS(ua),
     device_model: detectBrowser(ua),
-    locale:
-      typeof navigator !== 'undefined' ? navigator.language : 'en',
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    locale: nav?.language || 'en',
+    timezone: detectTimezone(),
   };
 }
 
+function detectTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
 function detectOS(ua: string): string {
   if (/Windows NT ([\d.]+)/.test(ua)) return `Windows ${RegExp.$1}`;
   if (/Mac OS X ([\d_]+)/.test(ua)) return `macOS ${RegExp.$1.replace(/_/g, '.')}`;
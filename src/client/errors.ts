@@ -12,6 +12,17 @@ export class AsqioError extends Error {
   }
 }
 
+export class AsqioRateLimitError extends AsqioError {
+  /** Retry-After ヘッダーから算出した待機時間（ミリ秒）。ヘッダーが無ければ null */
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null, statusCode = 429) {
+    super(message, 'RATE_LIMITED', statusCode);
+    this.name = 'AsqioRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
 export class AsqioNetworkError extends Error {
   readonly cause: unknown;
 
@@ -21,3 +32,36 @@ export class AsqioNetworkError extends Error {
     this.cause = cause;
   }
 }
+
+export class AsqioTimeoutError extends AsqioNetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'AsqioTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class AsqioAbortError extends Error {
+  readonly cause: unknown;
+
+  constructor(cause?: unknown) {
+    super('Request was aborted');
+    this.name = 'AsqioAbortError';
+    this.cause = cause;
+  }
+}
+
+export type AttachmentErrorReason = 'too_large' | 'type_not_allowed' | 'too_many';
+
+/** アップロード前の検証で弾かれた添付ファイル。サーバーに送っていないため statusCode は 0 */
+export class AsqioAttachmentError extends AsqioError {
+  readonly reason: AttachmentErrorReason;
+
+  constructor(message: string, reason: AttachmentErrorReason) {
+    super(message, 'VALIDATION_ERROR', 0);
+    this.name = 'AsqioAttachmentError';
+    this.reason = reason;
+  }
+}
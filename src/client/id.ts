@@ -0,0 +1,13 @@
+/**
+ * ランダムな ID を生成する。crypto.randomUUID の無い環境（非セキュアコンテキストや古い Node）では Math.random にフォールバックする。
+ */
+export function generateId(): string {
+  const crypto = globalThis.crypto;
+  if (typeof crypto?.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
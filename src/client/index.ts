@@ -1,4 +1,22 @@
 export { AsqioClient } from './AsqioClient';
-export { AsqioError, AsqioNetworkError } from './errors';
+export {
+  AsqioError,
+  AsqioRateLimitError,
+  AsqioNetworkError,
+  AsqioTimeoutError,
+  AsqioAbortError,
+  AsqioAttachmentError,
+} from './errors';
+export type { AttachmentErrorReason } from './errors';
 export { detectDeviceInfo } from './device-info';
 export type { DeviceInfo } from './device-info';
+export type {
+  AsqioConfig,
+  AsqioMiddleware,
+  RequestContext,
+  RetryOptions,
+  RetryAttempt,
+  RetryEvent,
+  AttachmentRules,
+} from '../types/config';
+export type { RequestOptions, MutationOptions, UploadOptions, UploadProgress } from '../types/api';
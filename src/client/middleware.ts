@@ -0,0 +1,36 @@
+import type { AsqioMiddleware, RequestContext } from '../types/config';
+
+export async function applyRequestMiddleware(
+  middleware: AsqioMiddleware[],
+  context: RequestContext,
+): Promise<RequestContext> {
+  let current = context;
+  for (const m of middleware) {
+    current = (await m.onRequest?.(current)) ?? current;
+  }
+  return current;
+}
+
+export async function applyResponseMiddleware(
+  middleware: AsqioMiddleware[],
+  response: Response,
+  context: RequestContext,
+): Promise<Response> {
+  let current = response;
+  for (const m of middleware) {
+    current = (await m.onResponse?.(current, context)) ?? current;
+  }
+  return current;
+}
+
+export async function applyErrorMiddleware(
+  middleware: AsqioMiddleware[],
+  error: Error,
+  context: RequestContext,
+): Promise<Error> {
+  let current = error;
+  for (const m of middleware) {
+    current = (await m.onError?.(current, context)) ?? current;
+  }
+  return current;
+}
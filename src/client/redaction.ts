@@ -0,0 +1,173 @@
+import type {
+  RedactionOptions,
+  RedactionPattern,
+  SensitiveDataMatch,
+  SensitiveDataType,
+} from '../types/config';
+
+type BuiltinType = Exclude<SensitiveDataType, 'custom'>;
+
+interface Detector {
+  pattern: RegExp;
+  /** 正規表現に一致しても誤検出になりやすいものを弾く */
+  validate?: (value: string) => boolean;
+}
+
+const DEFAULT_REPLACEMENT = '[redacted]';
+
+const DEFAULT_DENY_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'authorization',
+  'cookie',
+  'api_key',
+  'credit_card',
+  'card_number',
+  'cvv',
+  'cvc',
+  'ssn',
+];
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(value: string): boolean {
+  const numbers = digits(value);
+  let sum = 0;
+  for (let i = 0; i < numbers.length; i++) {
+    let n = Number(numbers[numbers.length - 1 - i]);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) n -= 9;
+    }
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+const DETECTORS: Record<BuiltinType, Detector> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  // JWT はドット区切りで他の検出器にも一部が一致しうるので、先に伏せる
+  jwt: {
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  credit_card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) => passesLuhn(value),
+  },
+  // 区切り（空白・ハイフン・括弧）を含むか + で始まるものだけを電話番号とみなし、注文番号などとの誤検出を避ける
+  phone: {
+    pattern: /(?:\+\d{1,3}[\s-]?)?(?:\(\d{1,4}\)[\s-]?|\d{1,4}[\s-])\d{1,4}[\s-]\d{3,4}\b|\+\d{10,14}\b/g,
+    validate: (value) => digits(value).length >= 10 && digits(value).length <= 15,
+  },
+};
+
+const DETECTOR_ORDER: BuiltinType[] = ['jwt', 'email', 'credit_card', 'phone'];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.flags.includes('g') ? new RegExp(pattern.source, pattern.flags) : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/** g・y フラグがあると test() のたびに lastIndex が進み、同じキーでも結果が変わるので外す */
+function statelessPattern(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+}
+
+export interface Redactor {
+  /** 伏せる対象を検出する（置き換えはしない） */
+  find: (text: string) => SensitiveDataMatch[];
+  redactText: (text: string) => string;
+  /** context をたどり、denyKeys の値と文字列中の機密情報を伏せたコピーを返す */
+  redactContext: (context: Record<string, unknown>) => Record<string, unknown>;
+  /** UI で送信前に確認するか */
+  confirm: boolean;
+}
+
+export function createRedactor(options: boolean | RedactionOptions | undefined): Redactor | null {
+  if (!options) return null;
+  const resolved: RedactionOptions = options === true ? {} : options;
+  const detectors = DETECTOR_ORDER.filter((type) => (resolved.detectors ?? DETECTOR_ORDER).includes(type));
+  const patterns: RedactionPattern[] = (resolved.patterns ?? []).map((p) =>
+    p instanceof RegExp ? { pattern: p } : p,
+  );
+  const transforms = resolved.transforms ?? [];
+  const denyKeys = (resolved.denyKeys ?? DEFAULT_DENY_KEYS).map((deny) =>
+    (deny instanceof RegExp ? statelessPattern(deny) : deny),
+  );
+
+  const isDenied = (key: string) =>
+    denyKeys.some((deny) => (deny instanceof RegExp ? deny.test(key) : normalizeKey(deny) === normalizeKey(key)));
+
+  const scan = (text: string): (SensitiveDataMatch & { replacement: string })[] => {
+    const matches: (SensitiveDataMatch & { replacement: string })[] = [];
+    const taken: [number, number][] = [];
+    const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s);
+    const collect = (
+      type: SensitiveDataType,
+      pattern: RegExp,
+      replacement: string,
+      validate?: (value: string) => boolean,
+    ) => {
+      for (const match of text.matchAll(globalPattern(pattern))) {
+        const value = match[0];
+        const index = match.index ?? 0;
+        if (!value || overlaps(index, index + value.length)) continue;
+        if (validate && !validate(value)) continue;
+        taken.push([index, index + value.length]);
+        matches.push({ type, value, index, replacement });
+      }
+    };
+    detectors.forEach((type) => {
+      collect(type, DETECTORS[type].pattern, `[redacted:${type}]`, DETECTORS[type].validate);
+    });
+    patterns.forEach(({ pattern, replacement }) => {
+      collect('custom', pattern, replacement ?? DEFAULT_REPLACEMENT);
+    });
+    return matches.sort((a, b) => a.index - b.index);
+  };
+
+  const find = (text: string): SensitiveDataMatch[] =>
+    scan(text).map(({ type, value, index }) => ({ type, value, index }));
+
+  const redactText = (text: string): string => {
+    let result = '';
+    let cursor = 0;
+    scan(text).forEach((match) => {
+      result += text.slice(cursor, match.index) + match.replacement;
+      cursor = match.index + match.value.length;
+    });
+    result += text.slice(cursor);
+    return transforms.reduce((acc, transform) => transform(acc), result);
+  };
+
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return redactText(value);
+    if (Array.isArray(value)) return value.map(redactValue);
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return redactContext(value as Record<string, unknown>);
+    }
+    return value;
+  };
+
+  const redactContext = (context: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(
+      Object.entries(context).map(([key, value]) => [
+        key,
+        isDenied(key) ? DEFAULT_REPLACEMENT : redactValue(value),
+      ]),
+    );
+
+  return { find, redactText, redactContext, confirm: resolved.confirm ?? false };
+}
@@ -0,0 +1,120 @@
+import type { RetryAttempt, RetryOptions } from '../types/config';
+import { AsqioAbortError, AsqioError, AsqioNetworkError, AsqioRateLimitError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOnStatus: number[];
+  retryOnRateLimit: boolean;
+  maxRetryAfterMs: number;
+  retryOnNetworkError: boolean;
+  shouldRetry?: (attempt: RetryAttempt) => boolean;
+  onRetry?: RetryOptions['onRetry'];
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryOnStatus: [408, 500, 502, 503, 504],
+  retryOnRateLimit: true,
+  maxRetryAfterMs: 60_000,
+  retryOnNetworkError: true,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export function resolveRetryPolicy(options?: RetryOptions | false): RetryPolicy {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  // { baseDelayMs: undefined } のように明示された undefined でデフォルトを消さない
+  return {
+    maxAttempts: Math.max(1, options?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+    baseDelayMs: options?.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: options?.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: options?.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryOnStatus: options?.retryOnStatus ?? DEFAULT_RETRY_POLICY.retryOnStatus,
+    retryOnRateLimit: options?.retryOnRateLimit ?? DEFAULT_RETRY_POLICY.retryOnRateLimit,
+    maxRetryAfterMs: options?.maxRetryAfterMs ?? DEFAULT_RETRY_POLICY.maxRetryAfterMs,
+    retryOnNetworkError: options?.retryOnNetworkError ?? DEFAULT_RETRY_POLICY.retryOnNetworkError,
+    shouldRetry: options?.shouldRetry,
+    onRetry: options?.onRetry,
+  };
+}
+
+/**
+ * 冪等なメソッドか、Idempotency-Key を持つリクエストのみリトライ可能とする。
+ */
+export function isRetryableRequest(method: string, headers: Record<string, string>): boolean {
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+  return Object.keys(headers).some((key) => key.toLowerCase() === 'idempotency-key');
+}
+
+/**
+ * 429 はサーバーがリクエストを処理せずに拒否した応答なので、メソッドに関わらずリトライできる。
+ */
+export function shouldRetryError(
+  policy: RetryPolicy,
+  attempt: RetryAttempt,
+  retryableRequest: boolean,
+): boolean {
+  if (attempt.attempt >= policy.maxAttempts) return false;
+
+  const { error } = attempt;
+  if (error instanceof AsqioRateLimitError) {
+    if (!policy.retryOnRateLimit) return false;
+    return error.retryAfterMs == null || error.retryAfterMs <= policy.maxRetryAfterMs;
+  }
+  if (!retryableRequest) return false;
+  if (policy.shouldRetry) return policy.shouldRetry(attempt);
+
+  if (error instanceof AsqioError) {
+    return policy.retryOnStatus.includes(error.statusCode);
+  }
+  if (error instanceof AsqioNetworkError) {
+    return policy.retryOnNetworkError;
+  }
+  return false;
+}
+
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, error?: Error): number {
+  if (error instanceof AsqioRateLimitError && error.retryAfterMs != null) {
+    return error.retryAfterMs;
+  }
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.round(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Retry-After ヘッダー（秒数または HTTP 日付）をミリ秒に変換する。
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AsqioAbortError(signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AsqioAbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,55 @@
+import { AsqioAbortError } from './errors';
+
+export interface TimeoutScope {
+  /** 呼び出し元の signal の中断とタイムアウトのどちらでも中断される signal */
+  signal: AbortSignal;
+  readonly timedOut: boolean;
+  clear: () => void;
+}
+
+export function startTimeout(signal: AbortSignal | undefined, timeoutMs: number): TimeoutScope {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    get timedOut() {
+      return timedOut;
+    },
+    clear() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * signal を受け取れない非同期処理（getToken など）を中断可能にする。
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    // 結果は使わないが、reject が未処理扱いにならないようにしておく
+    promise.catch(() => {});
+    return Promise.reject(new AsqioAbortError(signal.reason));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AsqioAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
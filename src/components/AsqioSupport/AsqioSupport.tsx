@@ -9,10 +9,12 @@ type View = { type: 'list' } | { type: 'detail'; ticketId: string } | { type: 'n
 
 export interface AsqioSupportProps {
   context?: Record<string, unknown>;
+  /** 新規お問い合わせでページのスクリーンショットを添付できるようにする */
+  screenshot?: boolean;
   className?: string;
 }
 
-export function AsqioSupport({ context, className }: AsqioSupportProps) {
+export function AsqioSupport({ context, screenshot, className }: AsqioSupportProps) {
   const [view, setView] = useState<View>({ type: 'list' });
 
   const handleSelectTicket = (ticket: Ticket) => {
@@ -32,7 +34,7 @@ export function AsqioSupport({ context, className }: AsqioSupportProps) {
   };
 
   return (
-    <div className={`${styles.container} ${className ?? ''}`}>
+    <div className={`${styles.container} ${className ?? ''}`} data-asqio-ignore="">
       {view.type === 'list' && (
         <ThreadList
           onSelectTicket={handleSelectTicket}
@@ -45,6 +47,7 @@ export function AsqioSupport({ context, className }: AsqioSupportProps) {
       {view.type === 'new' && (
         <NewThreadForm
           context={context}
+          screenshot={screenshot}
           onCreated={handleCreated}
           onCancel={handleBack}
         />
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { AsqioAttachmentError } from '../../client/errors';
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { Translate } from '../../types';
+import type { PendingAttachment } from '../../hooks/useAttachmentUpload';
+import styles from './AttachmentList.module.css';
+
+export interface AttachmentListProps {
+  attachments: PendingAttachment[];
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function errorText(error: Error | null, t: Translate): string {
+  if (error instanceof AsqioAttachmentError) {
+    switch (error.reason) {
+      case 'too_large':
+        return t('attachment.tooLarge');
+      case 'type_not_allowed':
+        return t('attachment.typeNotAllowed');
+      case 'too_many':
+        return t('attachment.tooMany');
+    }
+  }
+  return t('attachment.uploadFailed');
+}
+
+function usePreviewUrl(file: File): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/') || typeof URL.createObjectURL !== 'function') return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+}
+
+function AttachmentItem({ item, onRemove }: { item: PendingAttachment; onRemove?: (id: string) => void }) {
+  const preview = usePreviewUrl(item.file);
+  const { t } = useAsqioI18n();
+
+  return (
+    <li className={`${styles.item} ${item.status === 'failed' ? styles.failed : ''}`}>
+      {preview && <img className={styles.preview} src={preview} alt="" />}
+      <div className={styles.info}>
+        <span className={styles.name}>{item.file.name}</span>
+        {item.status === 'failed' ? (
+          <span className={styles.error}>{errorText(item.error, t)}</span>
+        ) : (
+          <span className={styles.size}>{formatFileSize(item.file.size)}</span>
+        )}
+        {item.status === 'uploading' && (
+          <progress className={styles.progress} value={item.progress} max={1} />
+        )}
+      </div>
+      {onRemove && (
+        <button
+          type="button"
+          className={styles.remove}
+          onClick={() => onRemove(item.id)}
+          aria-label={t('attachment.remove', { name: item.file.name })}
+        >
+          ×
+        </button>
+      )}
+    </li>
+  );
+}
+
+export function AttachmentList({ attachments, onRemove, className }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className={`${styles.list} ${className ?? ''}`}>
+      {attachments.map((item) => (
+        <AttachmentItem key={item.id} item={item} onRemove={onRemove} />
+      ))}
+    </ul>
+  );
+}
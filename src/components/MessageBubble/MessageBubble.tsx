@@ -1,24 +1,77 @@
-import type { Message } from '../../types';
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { Attachment, Message, MessageStatus } from '../../types';
+import { formatFileSize } from '../AttachmentList/AttachmentList';
 import styles from './MessageBubble.module.css';
 
 export interface MessageBubbleProps {
   message: Message;
+  /** 楽観的に表示しているメッセージの送信状態 */
+  status?: MessageStatus;
+  /** status が failed のときに再送ボタンを表示する */
+  onRetry?: () => void;
+  /** status が failed のときに削除ボタンを表示する */
+  onDelete?: () => void;
   className?: string;
 }
 
-export function MessageBubble({ message, className }: MessageBubbleProps) {
+function MessageAttachment({ attachment }: { attachment: Attachment }) {
+  if (attachment.content_type.startsWith('image/')) {
+    return (
+      <a className={styles.image} href={attachment.url} target="_blank" rel="noopener noreferrer">
+        <img src={attachment.thumbnail_url ?? attachment.url} alt={attachment.filename} />
+      </a>
+    );
+  }
+  return (
+    <a className={styles.file} href={attachment.url} target="_blank" rel="noopener noreferrer" download={attachment.filename}>
+      {attachment.filename}
+      <span className={styles.fileSize}>{formatFileSize(attachment.byte_size)}</span>
+    </a>
+  );
+}
+
+export function MessageBubble({ message, status, onRetry, onDelete, className }: MessageBubbleProps) {
+  const { t, format } = useAsqioI18n();
   const isUser = message.sender_type === 'user';
-  const time = new Date(message.created_at).toLocaleTimeString(undefined, {
-    hour: '2-digit',
-    minute: '2-digit',
-  });
+  const statusClass = status === 'pending' || status === 'queued'
+    ? styles.pending
+    : status === 'failed' ? styles.failed : '';
 
   return (
     <div
-      className={`${styles.bubble} ${isUser ? styles.user : styles.operator} ${className ?? ''}`}
+      className={`${styles.bubble} ${isUser ? styles.user : styles.operator} ${statusClass} ${className ?? ''}`}
     >
-      <div className={styles.body}>{message.body}</div>
-      <div className={styles.time}>{time}</div>
+      {message.body && <div className={styles.body}>{message.body}</div>}
+      {message.attachments && message.attachments.length > 0 && (
+        <div className={styles.attachments}>
+          {message.attachments.map((attachment) => (
+            <MessageAttachment key={attachment.id} attachment={attachment} />
+          ))}
+        </div>
+      )}
+      {status === 'failed' ? (
+        <div className={styles.failure}>
+          {t('message.sendFailed')}
+          {onRetry && (
+            <button type="button" className={styles.action} onClick={onRetry}>
+              {t('message.resend')}
+            </button>
+          )}
+          {onDelete && (
+            <button type="button" className={styles.action} onClick={onDelete}>
+              {t('message.delete')}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className={styles.time}>
+          {status === 'pending' ? t('common.sending') : status === 'queued' ? t('common.queued') : (
+            <time dateTime={message.created_at} title={format.dateTime(message.created_at)}>
+              {format.time(message.created_at)}
+            </time>
+          )}
+        </div>
+      )}
     </div>
   );
 }
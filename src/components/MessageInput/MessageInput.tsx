@@ -1,60 +1,182 @@
-import { useState, type KeyboardEvent, type FormEvent } from 'react';
+import {
+  useRef,
+  useState,
+  type ClipboardEvent,
+  type DragEvent,
+  type KeyboardEvent,
+  type FormEvent,
+} from 'react';
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { PendingAttachment } from '../../hooks/useAttachmentUpload';
+import type { SensitiveDataMatch } from '../../types';
+import { AttachmentList } from '../AttachmentList/AttachmentList';
+import { RedactionWarning } from '../RedactionWarning/RedactionWarning';
 import styles from './MessageInput.module.css';
 
 export interface MessageInputProps {
+  /** 本文は空の場合もある（添付ファイルだけを送るとき） */
   onSend: (body: string) => void;
   disabled?: boolean;
+  /** 省略すると表示言語の「メッセージを入力...」 */
   placeholder?: string;
+  /** 指定すると添付ボタン・ドラッグ&ドロップ・貼り付けでファイルを添付できる */
+  onAddFiles?: (files: File[]) => void;
+  attachments?: PendingAttachment[];
+  onRemoveAttachment?: (id: string) => void;
+  /** ファイル選択ダイアログの accept 属性 */
+  accept?: string;
+  /** 指定すると、一致があったときに送信前に確認を求める */
+  findSensitiveData?: (text: string) => SensitiveDataMatch[];
   className?: string;
 }
 
 export function MessageInput({
   onSend,
   disabled = false,
-  placeholder = 'メッセージを入力...',
+  placeholder,
+  onAddFiles,
+  attachments = [],
+  onRemoveAttachment,
+  accept,
+  findSensitiveData,
   className,
 }: MessageInputProps) {
+  const { t } = useAsqioI18n();
   const [text, setText] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [warning, setWarning] = useState<SensitiveDataMatch[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const uploading = attachments.some((a) => a.status === 'uploading');
+  const hasUploaded = attachments.some((a) => a.status === 'uploaded');
+  const canSend = !disabled && !uploading && (!!text.trim() || hasUploaded);
+
+  const send = () => {
+    onSend(text.trim());
+    setText('');
+    setWarning(null);
+  };
+
+  const submit = () => {
+    if (!canSend) return;
+    const matches = findSensitiveData?.(text) ?? [];
+    if (matches.length > 0) {
+      setWarning(matches);
+      return;
+    }
+    send();
+  };
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    const trimmed = text.trim();
-    if (!trimmed) return;
-    onSend(trimmed);
-    setText('');
+    submit();
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      const trimmed = text.trim();
-      if (!trimmed) return;
-      onSend(trimmed);
-      setText('');
+      submit();
     }
   };
 
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    if (!onAddFiles) return;
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    onAddFiles(files);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAddFiles || disabled) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAddFiles || disabled) return;
+    e.preventDefault();
+    setDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onAddFiles(files);
+  };
+
   return (
     <form
-      className={`${styles.container} ${className ?? ''}`}
+      className={`${styles.container} ${dragging ? styles.dragging : ''} ${className ?? ''}`}
       onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
     >
-      <textarea
-        className={styles.textarea}
-        value={text}
-        onChange={(e) => setText(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder={placeholder}
-        disabled={disabled}
-        rows={1}
-      />
-      <button
-        className={styles.button}
-        type="submit"
-        disabled={disabled || !text.trim()}
-      >
-        送信
-      </button>
+      {attachments.length > 0 && (
+        <AttachmentList
+          className={styles.attachments}
+          attachments={attachments}
+          onRemove={onRemoveAttachment}
+        />
+      )}
+      {warning && (
+        <RedactionWarning
+          matches={warning}
+          onConfirm={send}
+          onCancel={() => {
+            setWarning(null);
+            textareaRef.current?.focus();
+          }}
+        />
+      )}
+      <div className={styles.row}>
+        {onAddFiles && (
+          <>
+            <button
+              className={styles.attachButton}
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              aria-label={t('common.attachFile')}
+            >
+              {t('messageInput.attach')}
+            </button>
+            <input
+              ref={fileInputRef}
+              className={styles.fileInput}
+              type="file"
+              accept={accept}
+              multiple
+              hidden
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                if (files.length > 0) onAddFiles(files);
+                // 同じファイルを選び直しても change が発火するようにする
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+        <textarea
+          ref={textareaRef}
+          className={styles.textarea}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setWarning(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder={placeholder ?? t('messageInput.placeholder')}
+          disabled={disabled}
+          rows={1}
+        />
+        <button
+          className={styles.button}
+          type="submit"
+          disabled={!canSend}
+        >
+          {t('common.send')}
+        </button>
+      </div>
     </form>
   );
 }
@@ -1,13 +1,24 @@
-import { useState, type FormEvent } from 'react';
+import { useRef, useState, type ClipboardEvent, type DragEvent, type FormEvent } from 'react';
 import { useCreateTicket } from '../../hooks/useCreateTicket';
 import { useTopics } from '../../hooks/useTopics';
-import type { Ticket } from '../../types';
+import { useAttachmentUpload } from '../../hooks/useAttachmentUpload';
+import { useSensitiveDataCheck } from '../../hooks/useSensitiveDataCheck';
+import { useAsqioI18n, useDiagnostics } from '../../context/AsqioContext';
+import { withDiagnostics } from '../../diagnostics/Diagnostics';
+import { generateId } from '../../client/id';
+import { captureScreenshot } from '../../screenshot/capture';
+import { AttachmentList } from '../AttachmentList/AttachmentList';
+import { ScreenshotEditor } from '../ScreenshotEditor/ScreenshotEditor';
+import { RedactionWarning } from '../RedactionWarning/RedactionWarning';
+import type { Screenshot, SensitiveDataMatch, Ticket } from '../../types';
 import styles from './NewThreadForm.module.css';
 
 export interface NewThreadFormProps {
   context?: Record<string, unknown>;
   onCreated?: (ticket: Ticket) => void;
   onCancel?: () => void;
+  /** 表示中のページのスクリーンショットを添付するボタンを出す */
+  screenshot?: boolean;
   className?: string;
 }
 
@@ -15,80 +26,193 @@ export function NewThreadForm({
   context,
   onCreated,
   onCancel,
+  screenshot = false,
   className,
 }: NewThreadFormProps) {
-  const { create, loading, error } = useCreateTicket();
+  const { t } = useAsqioI18n();
+  const { create, loading, queued, error } = useCreateTicket();
   const { topics } = useTopics();
   const [title, setTitle] = useState('');
   const [topicId, setTopicId] = useState('');
   const [message, setMessage] = useState('');
+  const attachments = useAttachmentUpload();
+  const diagnostics = useDiagnostics();
+  const findSensitiveData = useSensitiveDataCheck();
+  const [warning, setWarning] = useState<SensitiveDataMatch[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // 連打や失敗後の再送信で二重にチケットが作られないよう、同じ内容の間は同じキーを使う
+  const idempotencyRef = useRef<{ key: string; content: string } | null>(null);
 
-  const handleSubmit = async (e: FormEvent) => {
+  const [capturing, setCapturing] = useState(false);
+  const [captured, setCaptured] = useState<Screenshot | null>(null);
+  const [captureError, setCaptureError] = useState(false);
+
+  const handleCapture = async () => {
+    setCapturing(true);
+    setCaptureError(false);
+    try {
+      setCaptured(await captureScreenshot());
+    } catch {
+      setCaptureError(true);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachments.add(files);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const trimmed = message.trim();
-    if (!trimmed) return;
+    if (loading) return;
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) attachments.add(files);
+  };
 
+  const submit = async () => {
+    setWarning(null);
+    const content = JSON.stringify([title, topicId, message, attachments.uploaded.map((a) => a.id)]);
+    if (idempotencyRef.current?.content !== content) {
+      idempotencyRef.current = { key: generateId(), content };
+    }
     const ticket = await create({
-      message: trimmed,
+      message: message.trim(),
       title: title.trim() || undefined,
       topic_id: topicId || undefined,
-      context,
-    });
+      attachment_ids: attachments.uploaded.length > 0
+        ? attachments.uploaded.map((a) => a.id)
+        : undefined,
+      context: withDiagnostics(context, diagnostics),
+    }, { idempotencyKey: idempotencyRef.current.key });
+    idempotencyRef.current = null;
+    attachments.clear();
     onCreated?.(ticket);
   };
 
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+
+    const matches = findSensitiveData?.(`${title}\n${message}`) ?? [];
+    if (matches.length > 0) {
+      setWarning(matches);
+      return;
+    }
+    await submit();
+  };
+
   return (
-    <div className={`${styles.container} ${className ?? ''}`}>
+    // スクリーンショットにフォーム自身が写らないようにする
+    <div className={`${styles.container} ${className ?? ''}`} data-asqio-ignore="">
       <div className={styles.header}>
         {onCancel && (
           <button className={styles.cancelButton} onClick={onCancel}>
-            ← 戻る
+            {t('common.back')}
           </button>
         )}
-        <h2 className={styles.title}>新規お問い合わせ</h2>
+        <h2 className={styles.title}>{t('newThread.title')}</h2>
       </div>
-      <form className={styles.form} onSubmit={handleSubmit}>
-        <input
-          className={styles.input}
-          type="text"
-          placeholder="タイトル（任意）"
-          value={title}
-          onChange={(e) => setTitle(e.target.value)}
-          disabled={loading}
+      {captured ? (
+        <ScreenshotEditor
+          screenshot={captured}
+          onConfirm={(file) => {
+            attachments.add([file]);
+            setCaptured(null);
+          }}
+          onCancel={() => setCaptured(null)}
         />
-        {topics.length > 0 && (
-          <select
-            className={styles.select}
-            value={topicId}
-            onChange={(e) => setTopicId(e.target.value)}
+      ) : (
+        <form
+          className={styles.form}
+          onSubmit={handleSubmit}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+        >
+          <input
+            className={styles.input}
+            type="text"
+            placeholder={t('newThread.titlePlaceholder')}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            disabled={loading}
+          />
+          {topics.length > 0 && (
+            <select
+              className={styles.select}
+              value={topicId}
+              onChange={(e) => setTopicId(e.target.value)}
+              disabled={loading}
+            >
+              <option value="">{t('newThread.topicPlaceholder')}</option>
+              {topics.map((topic) => (
+                <option key={topic.id} value={topic.id}>
+                  {topic.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <textarea
+            className={styles.textarea}
+            placeholder={t('newThread.bodyPlaceholder')}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
             disabled={loading}
+            rows={5}
+            required
+            onPaste={handlePaste}
+          />
+          <AttachmentList attachments={attachments.attachments} onRemove={attachments.remove} />
+          <div className={styles.attachActions}>
+            <button
+              className={styles.attachButton}
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+            >
+              {t('common.attachFile')}
+            </button>
+            {screenshot && (
+              <button
+                className={styles.attachButton}
+                type="button"
+                onClick={handleCapture}
+                disabled={loading || capturing}
+              >
+                {capturing ? t('newThread.capturing') : t('newThread.captureScreenshot')}
+              </button>
+            )}
+          </div>
+          {captureError && <div className={styles.error}>{t('newThread.captureFailed')}</div>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={attachments.accept}
+            multiple
+            hidden
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              if (files.length > 0) attachments.add(files);
+              e.target.value = '';
+            }}
+          />
+          {warning && (
+            <RedactionWarning matches={warning} onConfirm={submit} onCancel={() => setWarning(null)} />
+          )}
+          {queued && <div className={styles.notice}>{t('common.queued')}</div>}
+          {error && <div className={styles.error}>{t('newThread.sendFailed')}</div>}
+          <button
+            className={styles.submitButton}
+            type="submit"
+            disabled={loading || attachments.uploading || !message.trim()}
           >
-            <option value="">トピックを選択（任意）</option>
-            {topics.map((topic) => (
-              <option key={topic.id} value={topic.id}>
-                {topic.name}
-              </option>
-            ))}
-          </select>
-        )}
-        <textarea
-          className={styles.textarea}
-          placeholder="お問い合わせ内容を入力してください"
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          disabled={loading}
-          rows={5}
-          required
-        />
-        {error && <div className={styles.error}>送信に失敗しました</div>}
-        <button
-          className={styles.submitButton}
-          type="submit"
-          disabled={loading || !message.trim()}
-        >
-          {loading ? '送信中...' : '送信'}
-        </button>
-      </form>
+            {loading ? t('common.sending') : t('common.send')}
+          </button>
+        </form>
+      )}
     </div>
   );
 }
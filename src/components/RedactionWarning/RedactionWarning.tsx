@@ -0,0 +1,31 @@
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { SensitiveDataMatch } from '../../types';
+import styles from './RedactionWarning.module.css';
+
+export interface RedactionWarningProps {
+  matches: SensitiveDataMatch[];
+  onConfirm: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+export function RedactionWarning({ matches, onConfirm, onCancel, className }: RedactionWarningProps) {
+  const { t } = useAsqioI18n();
+  const labels = Array.from(new Set(matches.map((m) => t(`redaction.${m.type}`))));
+
+  return (
+    <div className={`${styles.container} ${className ?? ''}`} role="alert">
+      <p className={styles.message}>
+        {t('redaction.warning', { types: labels.join(t('redaction.separator')) })}
+      </p>
+      <div className={styles.actions}>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel}>
+          {t('redaction.edit')}
+        </button>
+        <button type="button" className={styles.primaryButton} onClick={onConfirm}>
+          {t('redaction.sendAnyway')}
+        </button>
+      </div>
+    </div>
+  );
+}
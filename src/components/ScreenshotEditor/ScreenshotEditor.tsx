@@ -0,0 +1,118 @@
+import { useMemo, useRef, useState, type PointerEvent } from 'react';
+import { redactScreenshot } from '../../screenshot/capture';
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { RedactionRect, Screenshot } from '../../types';
+import styles from './ScreenshotEditor.module.css';
+
+export interface ScreenshotEditorProps {
+  screenshot: Screenshot;
+  /** 黒塗りを焼き込んだ PNG を受け取る */
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/** ドラッグで範囲を選んだ部分を黒塗りしてから添付する */
+export function ScreenshotEditor({ screenshot, onConfirm, onCancel, className }: ScreenshotEditorProps) {
+  const { t } = useAsqioI18n();
+  const [rects, setRects] = useState<RedactionRect[]>([]);
+  const [draft, setDraft] = useState<RedactionRect | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState(false);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const src = useMemo(() => screenshot.canvas.toDataURL('image/png'), [screenshot]);
+
+  // 表示サイズからスクリーンショットの座標に変換する
+  const toImagePoint = (e: PointerEvent<HTMLDivElement>) => {
+    const bounds = stageRef.current!.getBoundingClientRect();
+    const ratioX = bounds.width > 0 ? screenshot.width / bounds.width : 1;
+    const ratioY = bounds.height > 0 ? screenshot.height / bounds.height : 1;
+    return {
+      x: Math.min(Math.max(e.clientX - bounds.left, 0), bounds.width) * ratioX,
+      y: Math.min(Math.max(e.clientY - bounds.top, 0), bounds.height) * ratioY,
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    startRef.current = toImagePoint(e);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toImagePoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+    if (draft && draft.width > 2 && draft.height > 2) {
+      setRects((prev) => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(false);
+    try {
+      const blob = await redactScreenshot(screenshot, rects);
+      onConfirm(new File([blob], `screenshot-${Date.now()}.png`, { type: 'image/png' }));
+    } catch {
+      setError(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toStyle = (rect: RedactionRect) => ({
+    left: `${(rect.x / screenshot.width) * 100}%`,
+    top: `${(rect.y / screenshot.height) * 100}%`,
+    width: `${(rect.width / screenshot.width) * 100}%`,
+    height: `${(rect.height / screenshot.height) * 100}%`,
+  });
+
+  return (
+    <div className={`${styles.container} ${className ?? ''}`}>
+      <p className={styles.hint}>{t('screenshot.hint')}</p>
+      <div
+        ref={stageRef}
+        className={styles.stage}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img className={styles.image} src={src} alt={t('screenshot.alt')} draggable={false} />
+        {rects.map((rect, i) => (
+          <div key={i} className={styles.redaction} style={toStyle(rect)} />
+        ))}
+        {draft && <div className={`${styles.redaction} ${styles.draft}`} style={toStyle(draft)} />}
+      </div>
+      {error && <div className={styles.error}>{t('screenshot.failed')}</div>}
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          onClick={() => setRects((prev) => prev.slice(0, -1))}
+          disabled={rects.length === 0 || saving}
+        >
+          {t('screenshot.undo')}
+        </button>
+        <button type="button" className={styles.secondaryButton} onClick={onCancel} disabled={saving}>
+          {t('screenshot.cancel')}
+        </button>
+        <button type="button" className={styles.primaryButton} onClick={handleConfirm} disabled={saving}>
+          {t('screenshot.attach')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,37 +1,157 @@
-import { useEffect } from 'react';
-import { useTicket } from '../../hooks/useTicket';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useTicketSummary } from '../../hooks/useTicketSummary';
+import { useInfiniteMessages } from '../../hooks/useInfiniteMessages';
 import { useMarkAsRead } from '../../hooks/useMarkAsRead';
 import { useSendMessage } from '../../hooks/useSendMessage';
+import { useOutgoingMessages } from '../../hooks/useOutgoingMessages';
+import { useAttachmentUpload } from '../../hooks/useAttachmentUpload';
+import { useSensitiveDataCheck } from '../../hooks/useSensitiveDataCheck';
+import { useCloseTicket } from '../../hooks/useCloseTicket';
+import { useReopenTicket } from '../../hooks/useReopenTicket';
+import { useRealtimeEvent } from '../../hooks/useRealtimeEvent';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { useNow } from '../../hooks/useNow';
+import { AsqioTimeoutError } from '../../client/errors';
+import { useAsqioI18n } from '../../context/AsqioContext';
 import { MessageBubble } from '../MessageBubble/MessageBubble';
 import { MessageInput } from '../MessageInput/MessageInput';
+import { TicketStatusChip } from '../TicketStatusChip/TicketStatusChip';
 import styles from './ThreadDetail.module.css';
 
 export interface ThreadDetailProps {
   ticketId: string;
   onBack?: () => void;
+  /** 一度に読み込むメッセージの件数（デフォルト: 30） */
+  messagesPerPage?: number;
   className?: string;
 }
 
-export function ThreadDetail({ ticketId, onBack, className }: ThreadDetailProps) {
-  const { ticket, loading, error, refetch } = useTicket(ticketId);
+/** 先頭からこの距離（px）までスクロールしたら、古いメッセージを読み込む */
+const LOAD_OLDER_THRESHOLD = 80;
+
+/** 計測前のメッセージの高さの見積もり（px） */
+const ESTIMATED_MESSAGE_HEIGHT = 72;
+
+export function ThreadDetail({ ticketId, onBack, messagesPerPage = 30, className }: ThreadDetailProps) {
+  const { t, format } = useAsqioI18n();
+  const now = useNow();
+  const { ticket, loading: ticketLoading, error: ticketError, refetch: refetchTicket } = useTicketSummary(ticketId);
+  const history = useInfiniteMessages(ticketId, { order: 'desc', per_page: messagesPerPage });
+  // 新しい順で届くので、表示用に古い順へ並べ替える
+  const messages = useMemo(() => [...history.messages].reverse(), [history.messages]);
   const { markAsRead } = useMarkAsRead();
-  const { send, loading: sending } = useSendMessage();
+  const { send, retry, discard } = useSendMessage();
+  const outgoing = useOutgoingMessages(ticketId);
+  const attachments = useAttachmentUpload();
+  const findSensitiveData = useSensitiveDataCheck();
+  const { closeTicket, loading: closing } = useCloseTicket();
+  const { reopenTicket, loading: reopening } = useReopenTicket();
+  const closed = ticket?.status === 'closed';
 
   useEffect(() => {
     markAsRead(ticketId).catch(() => {});
   }, [markAsRead, ticketId]);
 
-  const handleSend = async (body: string) => {
-    await send(ticketId, body);
-    await refetch();
+  // 表示中のスレッドに届いた返信はその場で既読にする
+  useRealtimeEvent((event) => {
+    if (event.type === 'message.created' && event.ticket_id === ticketId
+      && event.message.sender_type === 'operator') {
+      markAsRead(ticketId).catch(() => {});
+    }
+  });
+
+  const messagesRef = useRef<HTMLDivElement>(null);
+  // 送信中・送信失敗のメッセージは、読み込み済みのメッセージの後ろに並べる
+  const rows = useMemo(() => [
+    ...messages.map((message) => ({ key: message.id, message, local: null })),
+    ...outgoing
+      .filter((msg) => !messages.some((m) => m.id === msg.id))
+      .map((msg) => ({ key: msg.client_id, message: msg, local: msg })),
+  ], [messages, outgoing]);
+  const virtual = useVirtualList({
+    scrollRef: messagesRef,
+    count: rows.length,
+    getKey: (index) => rows[index].key,
+    estimateSize: ESTIMATED_MESSAGE_HEIGHT,
+    stickToBottom: true,
+  });
+  const { scrollToBottom, atBottom } = virtual;
+  // 返信が増えたときだけ数えるよう、effect からは ref で読む
+  const atBottomRef = useRef(atBottom);
+  atBottomRef.current = atBottom;
+
+  // 下端から離れている間に届いた返信。dividerId は最初の 1 件で、count は下端に戻るまでの件数
+  const [unseen, setUnseen] = useState<{ dividerId: string; count: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+
+  // スレッドを切り替えたら最新のメッセージから表示する
+  useLayoutEffect(() => {
+    scrollToBottom();
+    setUnseen(null);
+    lastMessageIdRef.current = null;
+  }, [ticketId, scrollToBottom]);
+
+  // 末尾に増えた返信を、下端から離れていれば未読として数える
+  useEffect(() => {
+    const previousId = lastMessageIdRef.current;
+    lastMessageIdRef.current = messages.length > 0 ? messages[messages.length - 1].id : null;
+    if (previousId === null || atBottomRef.current) return;
+    const previousIndex = messages.findIndex((m) => m.id === previousId);
+    if (previousIndex < 0) return;
+    const arrived = messages.slice(previousIndex + 1).filter((m) => m.sender_type !== 'user');
+    if (arrived.length === 0) return;
+    setUnseen((prev) => (prev && prev.count > 0
+      ? { ...prev, count: prev.count + arrived.length }
+      : { dividerId: arrived[0].id, count: arrived.length }));
+  }, [messages]);
+
+  // 下端まで読んだら件数だけ消し、区切り線は残す
+  useEffect(() => {
+    if (atBottom) setUnseen((prev) => (prev && prev.count > 0 ? { ...prev, count: 0 } : prev));
+  }, [atBottom]);
+
+  const loadOlder = () => {
+    if (history.hasNextPage && !history.fetchingNextPage) history.fetchNextPage();
+  };
+
+  // 古いメッセージが上に増えても、useVirtualList が表示中のメッセージの位置を保つ
+  const handleScroll = () => {
+    virtual.handleScroll();
+    const el = messagesRef.current;
+    if (el && el.scrollTop <= LOAD_OLDER_THRESHOLD) loadOlder();
   };
 
-  if (loading && !ticket) {
-    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.loading}>読み込み中...</div></div>;
+  const loading = ticketLoading || (history.loading && messages.length === 0);
+  const error = ticketError ?? (messages.length === 0 ? history.error : null);
+  const refetch = () => Promise.all([refetchTicket(), history.refetch()]);
+
+  // 失敗はバブル上に表示するので、ここでは握りつぶす
+  const handleSend = (body: string) => {
+    send(ticketId, body, attachments.uploaded).catch(() => {});
+    attachments.clear();
+    setUnseen(null);
+    scrollToBottom();
+  };
+
+  if (loading && (!ticket || messages.length === 0)) {
+    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.loading}>{t('common.loading')}</div></div>;
+  }
+
+  if (error instanceof AsqioTimeoutError) {
+    return (
+      <div className={`${styles.container} ${className ?? ''}`}>
+        <div className={styles.error}>
+          {t('common.timeout')}
+          <button className={styles.retryButton} onClick={() => refetch()}>
+            {t('common.retry')}
+          </button>
+        </div>
+      </div>
+    );
   }
 
   if (error) {
-    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.error}>エラーが発生しました</div></div>;
+    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.error}>{t('common.error')}</div></div>;
   }
 
   return (
@@ -39,17 +159,101 @@ export function ThreadDetail({ ticketId, onBack, className }: ThreadDetailProps)
       <div className={styles.header}>
         {onBack && (
           <button className={styles.backButton} onClick={onBack}>
-            ← 戻る
+            {t('common.back')}
+          </button>
+        )}
+        <h2 className={styles.title}>{ticket?.title || t('common.untitled')}</h2>
+        {ticket?.status && <TicketStatusChip status={ticket.status} />}
+        {ticket && !closed && (
+          <button
+            className={styles.closeButton}
+            onClick={() => closeTicket(ticketId).catch(() => {})}
+            disabled={closing}
+          >
+            {t('threadDetail.close')}
           </button>
         )}
-        <h2 className={styles.title}>{ticket?.title || '(無題)'}</h2>
       </div>
-      <div className={styles.messages}>
-        {ticket?.messages.map((msg) => (
-          <MessageBubble key={msg.id} message={msg} />
-        ))}
+      <div className={styles.body}>
+        <div className={styles.messages} ref={messagesRef} onScroll={handleScroll}>
+          {history.fetchingNextPage ? (
+            <div className={styles.olderStatus}>{t('common.loading')}</div>
+          ) : history.error && messages.length > 0 ? (
+            <div className={styles.olderStatus}>
+              {t('threadDetail.loadOlderFailed')}
+              <button className={styles.olderButton} onClick={loadOlder}>
+                {t('common.retry')}
+              </button>
+            </div>
+          ) : history.hasNextPage ? (
+            <div className={styles.olderStatus}>
+              <button className={styles.olderButton} onClick={loadOlder}>
+                {t('threadDetail.loadOlder')}
+              </button>
+            </div>
+          ) : null}
+          <div ref={virtual.startRef} className={styles.spacer} style={{ height: virtual.paddingTop }} />
+          {virtual.items.map(({ key, index }) => {
+            const { message, local } = rows[index];
+            // 前のメッセージと日付が変わるところに区切りを入れる
+            const newDay = index === 0
+              || format.dayKey(rows[index - 1].message.created_at) !== format.dayKey(message.created_at);
+            return (
+              <div key={key} ref={virtual.measureRef(key)} className={styles.row}>
+                {newDay && (
+                  <div className={styles.daySeparator}>
+                    <time dateTime={message.created_at} title={format.date(message.created_at)}>
+                      {format.day(message.created_at, now)}
+                    </time>
+                  </div>
+                )}
+                {key === unseen?.dividerId && (
+                  <div className={styles.unreadDivider} role="separator">
+                    {t('threadDetail.unreadDivider')}
+                  </div>
+                )}
+                {local ? (
+                  <MessageBubble
+                    message={local}
+                    status={local.status}
+                    onRetry={() => retry(ticketId, local.client_id).catch(() => {})}
+                    onDelete={() => discard(ticketId, local.client_id)}
+                  />
+                ) : (
+                  <MessageBubble message={message} />
+                )}
+              </div>
+            );
+          })}
+          <div className={styles.spacer} style={{ height: virtual.paddingBottom }} />
+        </div>
+        {unseen && unseen.count > 0 && !atBottom && (
+          <button className={styles.newMessagesButton} onClick={scrollToBottom}>
+            {t('threadDetail.newMessages', { count: unseen.count })}
+          </button>
+        )}
       </div>
-      <MessageInput onSend={handleSend} disabled={sending} />
+      {closed && (
+        <div className={styles.closedNotice}>
+          {t('threadDetail.closedNotice')}
+          <button
+            className={styles.reopenButton}
+            onClick={() => reopenTicket(ticketId).catch(() => {})}
+            disabled={reopening}
+          >
+            {t('threadDetail.reopen')}
+          </button>
+        </div>
+      )}
+      <MessageInput
+        onSend={handleSend}
+        disabled={closed}
+        onAddFiles={attachments.add}
+        attachments={attachments.attachments}
+        onRemoveAttachment={attachments.remove}
+        accept={attachments.accept}
+        findSensitiveData={findSensitiveData}
+      />
     </div>
   );
 }
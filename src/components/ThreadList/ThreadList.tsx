@@ -1,72 +1,179 @@
+import { useEffect, useRef, useState, type ReactNode, type RefObject } from 'react';
 import { useTickets } from '../../hooks/useTickets';
-import type { PaginationParams, Ticket } from '../../types';
+import { useInfiniteTickets } from '../../hooks/useInfiniteTickets';
+import { useTopics } from '../../hooks/useTopics';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { useNow } from '../../hooks/useNow';
+import { AsqioTimeoutError } from '../../client/errors';
+import { useAsqioI18n } from '../../context/AsqioContext';
+import { TicketStatusChip } from '../TicketStatusChip/TicketStatusChip';
+import type {
+  AsqioDateFormatter,
+  PaginationParams,
+  Ticket,
+  TicketQuery,
+  TicketSort,
+  TicketStatus,
+  Translate,
+} from '../../types';
 import styles from './ThreadList.module.css';
 
 export interface ThreadListProps {
   onSelectTicket: (ticket: Ticket) => void;
   onNewThread?: () => void;
   paginationParams?: PaginationParams;
+  /** ステータスの絞り込みの初期値（デフォルト: すべて） */
+  defaultStatus?: TicketStatus | null;
+  /** ステータスの絞り込みを表示する（デフォルト: true） */
+  showStatusFilter?: boolean;
+  /** 検索ボックスを表示する（デフォルト: true） */
+  showSearch?: boolean;
+  /** トピック・未読・期間・並び順の絞り込みを表示する（デフォルト: true） */
+  showFilters?: boolean;
+  /** 入力が止まってから検索するまでの時間（デフォルト: 300ms） */
+  searchDebounceMs?: number;
+  /** 前へ・次へのボタンの代わりに、末尾までスクロールしたら次のページを読み込む（デフォルト: false） */
+  infinite?: boolean;
   className?: string;
 }
 
-export function ThreadList({
-  onSelectTicket,
-  onNewThread,
-  paginationParams,
-  className,
-}: ThreadListProps) {
-  const { tickets, meta, loading, error, fetchPage } = useTickets(paginationParams);
+/** 計測前の行の高さの見積もり（px） */
+const ESTIMATED_ITEM_HEIGHT = 64;
+
+const STATUS_FILTERS: TicketStatus[] = ['open', 'pending', 'resolved', 'closed'];
+
+const SORT_ORDERS: TicketSort[] = ['updated_desc', 'updated_asc', 'created_desc', 'created_asc'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** <input type="date"> の値を、表示に使っているタイムゾーンでのその日の始まり・終わりの ISO 文字列にする */
+function toDateBoundary(date: string, end: boolean, format: AsqioDateFormatter): string {
+  if (!end) return format.dayStart(date).toISOString();
+  const nextDay = new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+  return new Date(format.dayStart(nextDay).getTime() - 1).toISOString();
+}
 
+interface TicketResultsProps {
+  query: TicketQuery;
+  filtered: boolean;
+  onSelectTicket: (ticket: Ticket) => void;
+}
+
+/** 一覧を表示できないとき（読み込み中・エラー・0 件）の表示。表示できるなら null */
+function renderListState(
+  tickets: Ticket[],
+  loading: boolean,
+  error: Error | null,
+  refetch: () => Promise<void>,
+  filtered: boolean,
+  t: Translate,
+): ReactNode {
   if (loading && tickets.length === 0) {
-    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.loading}>読み込み中...</div></div>;
+    return <div className={styles.loading}>{t('common.loading')}</div>;
+  }
+  if (error instanceof AsqioTimeoutError) {
+    return (
+      <div className={styles.error}>
+        {t('common.timeout')}
+        <button className={styles.retryButton} onClick={() => refetch()}>
+          {t('common.retry')}
+        </button>
+      </div>
+    );
   }
-
   if (error) {
-    return <div className={`${styles.container} ${className ?? ''}`}><div className={styles.error}>エラーが発生しました</div></div>;
+    return <div className={styles.error}>{t('common.error')}</div>;
+  }
+  if (tickets.length === 0) {
+    return (
+      <div className={styles.empty}>
+        {filtered ? t('threadList.emptyFiltered') : t('threadList.empty')}
+      </div>
+    );
   }
+  return null;
+}
+
+interface VirtualTicketListProps {
+  tickets: Ticket[];
+  onSelectTicket: (ticket: Ticket) => void;
+  /** スクロールする ul への ref。IntersectionObserver の root に使う場合に渡す */
+  listRef?: RefObject<HTMLUListElement>;
+  /** 一覧の末尾に置く要素 */
+  children?: ReactNode;
+}
+
+/** 表示範囲の付近のチケットだけを描画する一覧 */
+function VirtualTicketList({ tickets, onSelectTicket, listRef, children }: VirtualTicketListProps) {
+  const { t, format } = useAsqioI18n();
+  const now = useNow();
+  const ownRef = useRef<HTMLUListElement>(null);
+  const scrollRef = listRef ?? ownRef;
+  const virtual = useVirtualList({
+    scrollRef,
+    count: tickets.length,
+    getKey: (index) => tickets[index].id,
+    estimateSize: ESTIMATED_ITEM_HEIGHT,
+  });
 
   return (
-    <div className={`${styles.container} ${className ?? ''}`}>
-      <div className={styles.header}>
-        <h2 className={styles.title}>お問い合わせ</h2>
-        {onNewThread && (
-          <button className={styles.newButton} onClick={onNewThread}>
-            新規作成
-          </button>
-        )}
-      </div>
-      {tickets.length === 0 ? (
-        <div className={styles.empty}>問い合わせはありません</div>
-      ) : (
-        <ul className={styles.list}>
-          {tickets.map((ticket) => (
-            <li key={ticket.id} className={styles.item}>
-              <button
-                className={styles.itemButton}
-                onClick={() => onSelectTicket(ticket)}
+    <ul className={styles.list} ref={scrollRef} onScroll={virtual.handleScroll}>
+      <li
+        ref={virtual.startRef}
+        className={styles.spacer}
+        style={{ height: virtual.paddingTop }}
+        aria-hidden="true"
+      />
+      {virtual.items.map(({ key, index }) => {
+        const ticket = tickets[index];
+        return (
+          <li key={key} ref={virtual.measureRef(key)} className={styles.item}>
+            <button
+              className={styles.itemButton}
+              onClick={() => onSelectTicket(ticket)}
+            >
+              <div className={styles.itemHeader}>
+                <span className={styles.itemTitle}>
+                  {ticket.title || t('common.untitled')}
+                </span>
+                {ticket.status && <TicketStatusChip status={ticket.status} />}
+                {ticket.unread && <span className={styles.unreadBadge} />}
+              </div>
+              <time
+                className={styles.itemDate}
+                dateTime={ticket.updated_at}
+                title={format.dateTime(ticket.updated_at)}
               >
-                <div className={styles.itemHeader}>
-                  <span className={styles.itemTitle}>
-                    {ticket.title || '(無題)'}
-                  </span>
-                  {ticket.unread && <span className={styles.unreadBadge} />}
-                </div>
-                <div className={styles.itemDate}>
-                  {new Date(ticket.updated_at).toLocaleDateString()}
-                </div>
-              </button>
-            </li>
-          ))}
-        </ul>
+                {format.relative(ticket.updated_at, now)}
+              </time>
+            </button>
+          </li>
+        );
+      })}
+      <li className={styles.spacer} style={{ height: virtual.paddingBottom }} aria-hidden="true" />
+      {children}
+    </ul>
+  );
+}
+
+function PagedTicketList({ query, filtered, onSelectTicket }: TicketResultsProps) {
+  const { t } = useAsqioI18n();
+  const { tickets, meta, loading, error, refetch, fetchPage } = useTickets(query);
+
+  return (
+    <>
+      {renderListState(tickets, loading, error, refetch, filtered, t) ?? (
+        <VirtualTicketList tickets={tickets} onSelectTicket={onSelectTicket} />
       )}
-      {meta && meta.total_pages > 1 && (
+      {!error && meta && meta.total_pages > 1 && (
         <div className={styles.pagination}>
           <button
             className={styles.pageButton}
             disabled={meta.current_page <= 1}
             onClick={() => fetchPage(meta.current_page - 1)}
           >
-            前へ
+            {t('threadList.previous')}
           </button>
           <span className={styles.pageInfo}>
             {meta.current_page} / {meta.total_pages}
@@ -76,10 +183,213 @@ export function ThreadList({
             disabled={meta.current_page >= meta.total_pages}
             onClick={() => fetchPage(meta.current_page + 1)}
           >
-            次へ
+            {t('threadList.next')}
           </button>
         </div>
       )}
+    </>
+  );
+}
+
+function InfiniteTicketList({ query, filtered, onSelectTicket }: TicketResultsProps) {
+  const { t } = useAsqioI18n();
+  const {
+    tickets,
+    loading,
+    error,
+    refetch,
+    hasNextPage,
+    fetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteTickets(query);
+  const listRef = useRef<HTMLUListElement>(null);
+  const sentinelRef = useRef<HTMLLIElement>(null);
+
+  // 末尾が見えたら次のページを読み込む。読み込むたびに付け直し、まだ末尾が見えていれば続けて読む
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) fetchNextPage();
+      },
+      { root: listRef.current, rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, fetchNextPage, tickets.length]);
+
+  const state = renderListState(tickets, loading, tickets.length === 0 ? error : null, refetch, filtered, t);
+  if (state) return <>{state}</>;
+
+  return (
+    <VirtualTicketList tickets={tickets} onSelectTicket={onSelectTicket} listRef={listRef}>
+      <li ref={sentinelRef} className={styles.listFooter}>
+        {fetchingNextPage ? (
+          t('common.loading')
+        ) : error ? (
+          <>
+            {t('common.error')}
+            <button
+              className={styles.retryButton}
+              onClick={() => (hasNextPage ? fetchNextPage() : refetch())}
+            >
+              {t('common.retry')}
+            </button>
+          </>
+        ) : hasNextPage ? (
+          <button className={styles.loadMoreButton} onClick={() => fetchNextPage()}>
+            {t('threadList.loadMore')}
+          </button>
+        ) : null}
+      </li>
+    </VirtualTicketList>
+  );
+}
+
+interface TopicFilterProps {
+  value: string;
+  onChange: (topicId: string) => void;
+}
+
+/** フィルターを表示するときだけトピックを取得する */
+function TopicFilter({ value, onChange }: TopicFilterProps) {
+  const { t } = useAsqioI18n();
+  const { topics } = useTopics();
+  if (topics.length === 0) return null;
+  return (
+    <select
+      className={styles.select}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={t('threadList.topicLabel')}
+    >
+      <option value="">{t('threadList.allTopics')}</option>
+      {topics.map((topic) => (
+        <option key={topic.id} value={topic.id}>
+          {topic.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function ThreadList({
+  onSelectTicket,
+  onNewThread,
+  paginationParams,
+  defaultStatus = null,
+  showStatusFilter = true,
+  showSearch = true,
+  showFilters = true,
+  searchDebounceMs = 300,
+  infinite = false,
+  className,
+}: ThreadListProps) {
+  const { t, format } = useAsqioI18n();
+  const [status, setStatus] = useState<TicketStatus | null>(defaultStatus);
+  const [search, setSearch] = useState('');
+  const [topicId, setTopicId] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sort, setSort] = useState<TicketSort>('updated_desc');
+  const debouncedSearch = useDebouncedValue(search.trim(), searchDebounceMs);
+
+  const query: TicketQuery = { ...paginationParams };
+  if (status) query.status = status;
+  if (debouncedSearch) query.q = debouncedSearch;
+  if (topicId) query.topic_id = topicId;
+  if (unreadOnly) query.unread = true;
+  if (from) query.updated_from = toDateBoundary(from, false, format);
+  if (to) query.updated_to = toDateBoundary(to, true, format);
+  if (sort !== 'updated_desc') query.sort = sort;
+  const filtered = Boolean(status || debouncedSearch || topicId || unreadOnly || from || to);
+
+  return (
+    <div className={`${styles.container} ${className ?? ''}`}>
+      <div className={styles.header}>
+        <h2 className={styles.title}>{t('threadList.title')}</h2>
+        {onNewThread && (
+          <button className={styles.newButton} onClick={onNewThread}>
+            {t('threadList.newThread')}
+          </button>
+        )}
+      </div>
+      {showSearch && (
+        <div className={styles.search}>
+          <input
+            type="search"
+            className={styles.searchInput}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('threadList.searchPlaceholder')}
+            aria-label={t('threadList.searchLabel')}
+          />
+        </div>
+      )}
+      {showStatusFilter && (
+        <div className={styles.filters} role="group" aria-label={t('threadList.statusFilterLabel')}>
+          {[null, ...STATUS_FILTERS].map((value) => (
+            <button
+              key={value ?? 'all'}
+              type="button"
+              className={`${styles.filterButton} ${status === value ? styles.filterActive : ''}`}
+              aria-pressed={status === value}
+              onClick={() => setStatus(value)}
+            >
+              {value ? t(`status.${value}`) : t('threadList.allStatuses')}
+            </button>
+          ))}
+        </div>
+      )}
+      {showFilters && (
+        <div className={styles.filterControls}>
+          <TopicFilter value={topicId} onChange={setTopicId} />
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(e) => setUnreadOnly(e.target.checked)}
+            />
+            {t('threadList.unreadOnly')}
+          </label>
+          <input
+            type="date"
+            className={styles.dateInput}
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            aria-label={t('threadList.updatedFrom')}
+          />
+          <span className={styles.rangeSeparator}>〜</span>
+          <input
+            type="date"
+            className={styles.dateInput}
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            aria-label={t('threadList.updatedTo')}
+          />
+          <select
+            className={styles.select}
+            value={sort}
+            onChange={(e) => setSort(e.target.value as TicketSort)}
+            aria-label={t('threadList.sortLabel')}
+          >
+            {SORT_ORDERS.map((value) => (
+              <option key={value} value={value}>
+                {t(`threadList.sort.${value}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {infinite ? (
+        <InfiniteTicketList query={query} filtered={filtered} onSelectTicket={onSelectTicket} />
+      ) : (
+        <PagedTicketList query={query} filtered={filtered} onSelectTicket={onSelectTicket} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,20 @@
+import { useAsqioI18n } from '../../context/AsqioContext';
+import type { TicketStatus } from '../../types';
+import styles from './TicketStatusChip.module.css';
+
+const STATUSES: TicketStatus[] = ['open', 'pending', 'resolved', 'closed'];
+
+export interface TicketStatusChipProps {
+  status: TicketStatus;
+  className?: string;
+}
+
+export function TicketStatusChip({ status, className }: TicketStatusChipProps) {
+  const { t } = useAsqioI18n();
+
+  return (
+    <span className={`${styles.chip} ${styles[status] ?? ''} ${className ?? ''}`}>
+      {STATUSES.includes(status) ? t(`status.${status}`) : status}
+    </span>
+  );
+}
@@ -1,11 +1,19 @@
 export { ThreadList } from './ThreadList/ThreadList';
 export type { ThreadListProps } from './ThreadList/ThreadList';
+export { TicketStatusChip } from './TicketStatusChip/TicketStatusChip';
+export type { TicketStatusChipProps } from './TicketStatusChip/TicketStatusChip';
 export { ThreadDetail } from './ThreadDetail/ThreadDetail';
 export type { ThreadDetailProps } from './ThreadDetail/ThreadDetail';
 export { MessageBubble } from './MessageBubble/MessageBubble';
 export type { MessageBubbleProps } from './MessageBubble/MessageBubble';
 export { MessageInput } from './MessageInput/MessageInput';
 export type { MessageInputProps } from './MessageInput/MessageInput';
+export { AttachmentList } from './AttachmentList/AttachmentList';
+export type { AttachmentListProps } from './AttachmentList/AttachmentList';
+export { ScreenshotEditor } from './ScreenshotEditor/ScreenshotEditor';
+export type { ScreenshotEditorProps } from './ScreenshotEditor/ScreenshotEditor';
+export { RedactionWarning } from './RedactionWarning/RedactionWarning';
+export type { RedactionWarningProps } from './RedactionWarning/RedactionWarning';
 export { NewThreadForm } from './NewThreadForm/NewThreadForm';
 export type { NewThreadFormProps } from './NewThreadForm/NewThreadForm';
 export { AsqioSupport } from './AsqioSupport/AsqioSupport';
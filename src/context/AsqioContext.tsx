@@ -1,28 +1,264 @@
-import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { createContext, useContext, useEffect, useLayoutEffect, useMemo, type ReactNode } from 'react';
 import { AsqioClient } from '../client/AsqioClient';
+import { QueryCache } from '../cache/QueryCache';
+import { addMessageToCache } from '../cache/messages';
+import { RealtimeConnection } from '../realtime/RealtimeConnection';
+import { syncQueryCache } from '../realtime/sync';
+import { Outbox } from '../outbox/Outbox';
+import { createOutboxStorage } from '../outbox/storage';
+import { DiagnosticsCollector } from '../diagnostics/Diagnostics';
+import { detectDeviceInfo } from '../client/device-info';
+import { createTranslator, DEFAULT_LOCALE } from '../i18n/translate';
+import { createDateFormatter } from '../i18n/format';
+import { lightTheme } from '../theme/themes';
+import { resolveTheme, themeMode, themeToCssVariables } from '../theme/variables';
+import { usePrefersDarkColorScheme } from '../hooks/usePrefersDarkColorScheme';
+import { useStableValue } from '../hooks/useStableValue';
 import type { AsqioConfig } from '../types/config';
+import type { Message } from '../types/models';
+import type { RealtimeOptions } from '../types/realtime';
+import type { OutboxOptions } from '../types/outbox';
+import type { DiagnosticsOptions } from '../types/diagnostics';
+import type { AsqioDateFormatter, AsqioMessages, Translate } from '../types/i18n';
+import type { AsqioColorScheme, AsqioTheme, AsqioThemeMode, AsqioThemeOptions } from '../types/theme';
+
+export interface AsqioI18n {
+  /** 表示に使っている言語タグ（'en-US' など） */
+  locale: string;
+  /** 日時の表示に使っているタイムゾーン（IANA 名） */
+  timeZone: string;
+  t: Translate;
+  format: AsqioDateFormatter;
+}
+
+function createI18n(locale: string, timeZone: string, messages?: Partial<AsqioMessages>): AsqioI18n {
+  const t = createTranslator(locale, messages);
+  return { locale, timeZone, t, format: createDateFormatter(locale, timeZone, t) };
+}
+
+const defaultI18n = createI18n(DEFAULT_LOCALE, detectDeviceInfo().timezone);
+
+export interface AsqioThemeState {
+  mode: AsqioThemeMode;
+  /** mode が 'auto' のときは prefers-color-scheme から決まる */
+  colorScheme: AsqioColorScheme;
+  theme: AsqioTheme;
+}
+
+const defaultTheme: AsqioThemeState = { mode: 'light', colorScheme: 'light', theme: lightTheme };
+
+// サーバーでの描画では document が無いので、テーマの適用はブラウザでだけ行う
+const useBrowserLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
 
 const AsqioClientContext = createContext<AsqioClient | null>(null);
+const AsqioQueryCacheContext = createContext<QueryCache | null>(null);
+const AsqioRealtimeContext = createContext<RealtimeConnection | null>(null);
+const AsqioOutboxContext = createContext<Outbox | null>(null);
+const AsqioDiagnosticsContext = createContext<DiagnosticsCollector | null>(null);
+const AsqioI18nContext = createContext<AsqioI18n>(defaultI18n);
+const AsqioThemeContext = createContext<AsqioThemeState>(defaultTheme);
 
 export interface AsqioProviderProps extends AsqioConfig {
   children: ReactNode;
+  /** Hooks が取得したデータを再取得せずに使い回す時間（デフォルト: 0） */
+  staleTime?: number;
+  /** 使われなくなったデータをキャッシュから破棄するまでの時間（デフォルト: 5 分） */
+  gcTime?: number;
+  /** 新着メッセージや未読数を WebSocket / SSE で受け取る */
+  realtime?: RealtimeOptions;
+  /** オフライン中のチケット作成・メッセージ送信を保存し、オンラインに戻ったら送る（デフォルト: 無効） */
+  outbox?: boolean | OutboxOptions;
+  /**
+   * 直近のエラー・失敗した通信・画面遷移を記録し、NewThreadForm から作るチケットの
+   * context.diagnostics に添える（デフォルト: 無効）
+   */
+  diagnostics?: boolean | DiagnosticsOptions;
+  /**
+   * コンポーネントの表示言語（'ja' / 'en' / 'ko' または 'en-US' などの言語タグ）。
+   * 省略するとブラウザの言語を使い、同梱していない言語なら英語にする
+   */
+  locale?: string;
+  /** 選んだ言語のメッセージの一部を差し替える */
+  messages?: Partial<AsqioMessages>;
+  /** 日時を表示するタイムゾーン（'Asia/Tokyo' など）。省略するとブラウザのタイムゾーン */
+  timeZone?: string;
+  /**
+   * 組み込みテーマ（'light' / 'dark' / 'auto'）またはその上書き。指定すると --asqio-* を :root に設定する。
+   * 省略すると何も設定せず、CSS での指定とフォールバック値を使う
+   */
+  theme?: AsqioThemeMode | AsqioThemeOptions;
 }
 
 export function AsqioProvider({
   children,
   baseUrl,
   tenantKey,
-  getToken,
+  getToken: getTokenProp,
+  refreshToken: refreshTokenProp,
   appVersion,
+  timeoutMs,
+  retry: retryProp,
+  middleware: middlewareProp,
+  fetch: fetchProp,
+  attachments: attachmentsProp,
+  redaction: redactionProp,
+  staleTime,
+  gcTime,
+  realtime: realtimeProp,
+  outbox,
+  diagnostics,
+  locale,
+  messages: messagesProp,
+  timeZone,
+  theme: themeProp,
 }: AsqioProviderProps) {
+  // インラインで渡されたオブジェクトや関数でも、中身が同じならクライアントやキャッシュを作り直さない
+  const getToken = useStableValue(getTokenProp);
+  const refreshToken = useStableValue(refreshTokenProp);
+  const retry = useStableValue(retryProp);
+  const middleware = useStableValue(middlewareProp);
+  const fetch = useStableValue(fetchProp);
+  const attachments = useStableValue(attachmentsProp);
+  const redaction = useStableValue(redactionProp);
+  const realtime = useStableValue(realtimeProp);
+  const messages = useStableValue(messagesProp);
+  const theme = useStableValue(themeProp);
+
   const client = useMemo(
-    () => new AsqioClient({ baseUrl, tenantKey, getToken, appVersion }),
-    [baseUrl, tenantKey, getToken, appVersion],
+    () => new AsqioClient({
+      baseUrl,
+      tenantKey,
+      getToken,
+      refreshToken,
+      appVersion,
+      timeoutMs,
+      retry,
+      middleware,
+      fetch,
+      attachments,
+      redaction,
+    }),
+    [
+      baseUrl,
+      tenantKey,
+      getToken,
+      refreshToken,
+      appVersion,
+      timeoutMs,
+      retry,
+      middleware,
+      fetch,
+      attachments,
+      redaction,
+    ],
+  );
+
+  // クライアントが変わったら（テナントや認証の変更）キャッシュも作り直す
+  const queryCache = useMemo(
+    () => new QueryCache({ staleTime, gcTime }),
+    [client, staleTime, gcTime],
+  );
+
+  const realtimeConnection = useMemo(
+    () => (realtime
+      ? new RealtimeConnection({
+        ...realtime,
+        tenantKey,
+        // API と同じキャッシュ済みのトークンを使い、拒否されたら API と共有してリフレッシュする
+        getToken: () => client.getAuthToken(),
+        refreshToken: (staleToken) => client.refreshAuthToken(staleToken),
+      })
+      : null),
+    [realtime, tenantKey, client],
+  );
+
+  useEffect(() => {
+    if (!realtimeConnection) return;
+    const unsync = syncQueryCache(realtimeConnection, queryCache);
+    realtimeConnection.start();
+    return () => {
+      unsync();
+      realtimeConnection.stop();
+    };
+  }, [realtimeConnection, queryCache]);
+
+  const outboxOptions = useStableValue(outbox === true ? {} : outbox || null);
+  const outboxQueue = useMemo(
+    () => {
+      if (!outboxOptions) return null;
+      const storage = outboxOptions.storage ?? createOutboxStorage(outboxOptions.namespace ?? tenantKey);
+      return new Outbox(client, storage, {
+        retryBaseDelayMs: outboxOptions.retryBaseDelayMs,
+        retryMaxDelayMs: outboxOptions.retryMaxDelayMs,
+        onSent: (entry, result) => {
+          if (entry.kind === 'sendMessage') {
+            addMessageToCache(queryCache, entry.ticket_id, result as Message);
+          } else {
+            queryCache.invalidate(['unread_count']);
+          }
+          queryCache.invalidate(['tickets']);
+        },
+      });
+    },
+    [client, queryCache, outboxOptions, tenantKey],
+  );
+
+  useEffect(() => outboxQueue?.start(), [outboxQueue]);
+
+  // オブジェクトを毎回渡されても記録が消えないよう、中身が変わったときだけ作り直す
+  const diagnosticsOptions = useStableValue(diagnostics === true ? {} : diagnostics || null);
+  const diagnosticsCollector = useMemo(
+    () => (diagnosticsOptions ? new DiagnosticsCollector(diagnosticsOptions) : null),
+    [diagnosticsOptions],
   );
 
+  useEffect(() => diagnosticsCollector?.start(), [diagnosticsCollector]);
+
+  const deviceInfo = useMemo(() => detectDeviceInfo(), []);
+  const i18n = useMemo(
+    () => createI18n(locale ?? deviceInfo.locale, timeZone ?? deviceInfo.timezone, messages),
+    [deviceInfo, locale, timeZone, messages],
+  );
+
+  const mode = theme ? themeMode(theme) : 'light';
+  const prefersDark = usePrefersDarkColorScheme(mode === 'auto');
+  const colorScheme: AsqioColorScheme = mode === 'dark' || (mode === 'auto' && prefersDark) ? 'dark' : 'light';
+  const themeState = useMemo(
+    () => ({ mode, colorScheme, theme: theme ? resolveTheme(theme, colorScheme) : lightTheme }),
+    [mode, colorScheme, theme],
+  );
+  const applyTheme = Boolean(theme);
+
+  useBrowserLayoutEffect(() => {
+    if (!applyTheme) return;
+    const root = document.documentElement;
+    const variables = {
+      ...themeToCssVariables(themeState.theme),
+      '--asqio-color-scheme': themeState.colorScheme,
+    };
+    for (const [name, value] of Object.entries(variables)) root.style.setProperty(name, value);
+    root.setAttribute('data-asqio-theme', themeState.colorScheme);
+    return () => {
+      for (const name of Object.keys(variables)) root.style.removeProperty(name);
+      root.removeAttribute('data-asqio-theme');
+    };
+  }, [applyTheme, themeState]);
+
   return (
     <AsqioClientContext.Provider value={client}>
-      {children}
+      <AsqioQueryCacheContext.Provider value={queryCache}>
+        <AsqioRealtimeContext.Provider value={realtimeConnection}>
+          <AsqioOutboxContext.Provider value={outboxQueue}>
+            <AsqioDiagnosticsContext.Provider value={diagnosticsCollector}>
+              <AsqioI18nContext.Provider value={i18n}>
+                <AsqioThemeContext.Provider value={themeState}>
+                  {children}
+                </AsqioThemeContext.Provider>
+              </AsqioI18nContext.Provider>
+            </AsqioDiagnosticsContext.Provider>
+          </AsqioOutboxContext.Provider>
+        </AsqioRealtimeContext.Provider>
+      </AsqioQueryCacheContext.Provider>
     </AsqioClientContext.Provider>
   );
 }
@@ -34,3 +270,36 @@ export function useAsqioClient(): AsqioClient {
   }
   return client;
 }
+
+export function useQueryCache(): QueryCache {
+  const cache = useContext(AsqioQueryCacheContext);
+  if (!cache) {
+    throw new Error('useQueryCache must be used within an <AsqioProvider>');
+  }
+  return cache;
+}
+
+/** realtime が設定されていなければ null */
+export function useRealtimeConnection(): RealtimeConnection | null {
+  return useContext(AsqioRealtimeContext);
+}
+
+/** outbox が無効なら null */
+export function useOutboxInstance(): Outbox | null {
+  return useContext(AsqioOutboxContext);
+}
+
+/** diagnostics が無効なら null */
+export function useDiagnostics(): DiagnosticsCollector | null {
+  return useContext(AsqioDiagnosticsContext);
+}
+
+/** コンポーネントの表示言語・タイムゾーンと、t() や日時の表記。AsqioProvider の外では日本語 */
+export function useAsqioI18n(): AsqioI18n {
+  return useContext(AsqioI18nContext);
+}
+
+/** 使っているテーマ。AsqioProvider に theme が無ければライトテーマ */
+export function useAsqioTheme(): AsqioThemeState {
+  return useContext(AsqioThemeContext);
+}
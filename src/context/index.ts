@@ -1,2 +1,2 @@
-export { AsqioProvider, useAsqioClient } from './AsqioContext';
-export type { AsqioProviderProps } from './AsqioContext';
+export { AsqioProvider, useAsqioClient, useQueryCache, useDiagnostics, useAsqioI18n, useAsqioTheme } from './AsqioContext';
+export type { AsqioProviderProps, AsqioI18n, AsqioThemeState } from './AsqioContext';
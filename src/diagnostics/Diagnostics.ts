@@ -0,0 +1,248 @@
+import type {
+  DiagnosticEntry,
+  DiagnosticEntryType,
+  DiagnosticsOptions,
+  DiagnosticsSummary,
+} from '../types/diagnostics';
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_MAX_BYTES = 8192;
+const MAX_MESSAGE_LENGTH = 500;
+
+/** クエリ文字列とフラグメントにはトークンや個人情報が入りやすいので落とす */
+export function stripUrl(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH)}…` : text;
+}
+
+function describe(value: unknown): string {
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+/**
+ * 直近のエラー・失敗した通信・画面遷移をリングバッファに記録し、チケットの context に添える要約を作る。
+ * start() で console / fetch / XMLHttpRequest / history をフックし、戻り値の関数で元に戻す
+ */
+export class DiagnosticsCollector {
+  private readonly options: DiagnosticsOptions;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private entries: DiagnosticEntry[] = [];
+  private dropped = 0;
+
+  constructor(options: DiagnosticsOptions = {}) {
+    this.options = options;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  getEntries(): DiagnosticEntry[] {
+    return this.entries;
+  }
+
+  record(type: DiagnosticEntryType, message: string, data?: DiagnosticEntry['data']): void {
+    let entry: DiagnosticEntry | null = {
+      type,
+      timestamp: new Date().toISOString(),
+      message: truncate(message),
+      ...(data ? { data } : {}),
+    };
+    if (this.options.redact) {
+      entry = this.options.redact(entry);
+      if (!entry) return;
+    }
+    this.entries = [...this.entries, entry];
+    if (this.entries.length > this.maxEntries) {
+      this.dropped += this.entries.length - this.maxEntries;
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+  }
+
+  /** アプリ固有の操作（「決済ボタンを押した」など）を記録する */
+  addBreadcrumb(message: string, data?: DiagnosticEntry['data']): void {
+    this.record('breadcrumb', message, data);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.dropped = 0;
+  }
+
+  /** 新しいものを優先し、JSON にしたときに maxBytes に収まる分だけ返す */
+  summarize(): DiagnosticsSummary {
+    const summary: DiagnosticsSummary = {
+      collected_at: new Date().toISOString(),
+      entries: [],
+      dropped: this.dropped,
+    };
+    let size = new TextEncoder().encode(JSON.stringify(summary)).length;
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entrySize = new TextEncoder().encode(JSON.stringify(this.entries[i])).length + 1;
+      if (size + entrySize > this.maxBytes) {
+        summary.dropped += i + 1;
+        break;
+      }
+      size += entrySize;
+      summary.entries.unshift(this.entries[i]);
+    }
+    return summary;
+  }
+
+  start(): () => void {
+    if (typeof window === 'undefined') return () => {};
+    const stops = [
+      this.options.console !== false && this.hookConsole(),
+      this.options.errors !== false && this.hookErrors(),
+      this.options.network !== false && this.hookFetch(),
+      this.options.network !== false && this.hookXhr(),
+      this.options.navigation !== false && this.hookNavigation(),
+    ].filter((stop): stop is () => void => typeof stop === 'function');
+    return () => stops.forEach((stop) => stop());
+  }
+
+  private hookConsole(): () => void {
+    const original = console.error;
+    const patched = (...args: unknown[]) => {
+      this.record('console', args.map(describe).join(' '));
+      original.apply(console, args);
+    };
+    console.error = patched;
+    return () => {
+      // 後から別のライブラリが差し替えていたら、そちらを壊さない
+      if (console.error === patched) console.error = original;
+    };
+  }
+
+  private hookErrors(): () => void {
+    const onError = (event: ErrorEvent) => {
+      this.record('error', event.error ? describe(event.error) : event.message, {
+        source: event.filename ? stripUrl(event.filename) : null,
+        line: event.lineno ?? null,
+      });
+    };
+    const onRejection = (event: PromiseRejectionEvent) => {
+      this.record('unhandledrejection', describe(event.reason));
+    };
+    window.addEventListener('error', onError);
+    window.addEventListener('unhandledrejection', onRejection);
+    return () => {
+      window.removeEventListener('error', onError);
+      window.removeEventListener('unhandledrejection', onRejection);
+    };
+  }
+
+  private hookFetch(): (() => void) | undefined {
+    const original = window.fetch;
+    if (typeof original !== 'function') return undefined;
+    const patched: typeof fetch = async (input, init) => {
+      const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+      const url = stripUrl(requestUrl(input));
+      try {
+        const res = await original.call(window, input, init);
+        if (!res.ok) {
+          this.record('network', `${method} ${url} ${res.status}`, { method, url, status: res.status });
+        }
+        return res;
+      } catch (e) {
+        // 呼び出し元が中断したものは失敗として扱わない
+        if (!(e instanceof DOMException && e.name === 'AbortError')) {
+          this.record('network', `${method} ${url} failed: ${describe(e)}`, { method, url, status: null });
+        }
+        throw e;
+      }
+    };
+    window.fetch = patched;
+    return () => {
+      if (window.fetch === patched) window.fetch = original;
+    };
+  }
+
+  private hookXhr(): (() => void) | undefined {
+    if (typeof XMLHttpRequest !== 'function') return undefined;
+    const proto = XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+    const record = this.record.bind(this);
+
+    const open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+      requests.set(this, { method: method.toUpperCase(), url: stripUrl(String(url)) });
+      return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+    };
+    const send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const request = requests.get(this);
+      if (request) {
+        let aborted = false;
+        this.addEventListener('abort', () => {
+          aborted = true;
+        });
+        this.addEventListener('loadend', () => {
+          if (aborted || (this.status > 0 && this.status < 400)) return;
+          const status = this.status || null;
+          record('network', `${request.method} ${request.url} ${status ?? 'failed'}`, { ...request, status });
+        });
+      }
+      return originalSend.call(this, body);
+    };
+    proto.open = open as typeof proto.open;
+    proto.send = send;
+    return () => {
+      if (proto.open === (open as typeof proto.open)) proto.open = originalOpen;
+      if (proto.send === send) proto.send = originalSend;
+    };
+  }
+
+  private hookNavigation(): () => void {
+    let current = window.location.pathname;
+    const onChange = () => {
+      const next = window.location.pathname;
+      if (next === current) return;
+      this.record('navigation', `${current} → ${next}`, { from: current, to: next });
+      current = next;
+    };
+    const originalPush = history.pushState;
+    const originalReplace = history.replaceState;
+    const push: typeof history.pushState = function (this: History, ...args) {
+      originalPush.apply(this, args);
+      onChange();
+    };
+    const replace: typeof history.replaceState = function (this: History, ...args) {
+      originalReplace.apply(this, args);
+      onChange();
+    };
+    history.pushState = push;
+    history.replaceState = replace;
+    window.addEventListener('popstate', onChange);
+    window.addEventListener('hashchange', onChange);
+    return () => {
+      if (history.pushState === push) history.pushState = originalPush;
+      if (history.replaceState === replace) history.replaceState = originalReplace;
+      window.removeEventListener('popstate', onChange);
+      window.removeEventListener('hashchange', onChange);
+    };
+  }
+}
+
+/** context に diagnostics を足したものを返す。collector が無ければ context をそのまま返す */
+export function withDiagnostics(
+  context: Record<string, unknown> | undefined,
+  collector: DiagnosticsCollector | null,
+): Record<string, unknown> | undefined {
+  if (!collector) return context;
+  return { ...context, diagnostics: collector.summarize() };
+}
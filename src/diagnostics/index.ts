@@ -0,0 +1 @@
+export { DiagnosticsCollector, withDiagnostics, stripUrl } from './Diagnostics';
@@ -2,15 +2,37 @@ export { useTopics } from './useTopics';
 export type { UseTopicsResult } from './useTopics';
 export { useTickets } from './useTickets';
 export type { UseTicketsResult } from './useTickets';
+export { useInfiniteTickets } from './useInfiniteTickets';
+export type { UseInfiniteTicketsResult } from './useInfiniteTickets';
 export { useTicket } from './useTicket';
 export type { UseTicketResult } from './useTicket';
+export { useTicketSummary } from './useTicketSummary';
+export type { UseTicketSummaryResult } from './useTicketSummary';
 export { useCreateTicket } from './useCreateTicket';
 export type { UseCreateTicketResult } from './useCreateTicket';
 export { useMessages } from './useMessages';
 export type { UseMessagesResult } from './useMessages';
+export { useInfiniteMessages } from './useInfiniteMessages';
+export type { UseInfiniteMessagesResult } from './useInfiniteMessages';
 export { useSendMessage } from './useSendMessage';
 export type { UseSendMessageResult } from './useSendMessage';
+export { useOutgoingMessages } from './useOutgoingMessages';
+export { useAttachmentUpload } from './useAttachmentUpload';
+export type {
+  PendingAttachment,
+  UseAttachmentUploadOptions,
+  UseAttachmentUploadResult,
+} from './useAttachmentUpload';
+export { useSensitiveDataCheck } from './useSensitiveDataCheck';
+export { useOutbox } from './useOutbox';
+export type { UseOutboxResult } from './useOutbox';
+export { useCloseTicket } from './useCloseTicket';
+export type { UseCloseTicketResult } from './useCloseTicket';
+export { useReopenTicket } from './useReopenTicket';
+export type { UseReopenTicketResult } from './useReopenTicket';
 export { useMarkAsRead } from './useMarkAsRead';
 export type { UseMarkAsReadResult } from './useMarkAsRead';
 export { useUnreadCount } from './useUnreadCount';
 export type { UseUnreadCountOptions, UseUnreadCountResult } from './useUnreadCount';
+export { useRealtimeStatus } from './useRealtimeStatus';
+export { useRealtimeEvent } from './useRealtimeEvent';
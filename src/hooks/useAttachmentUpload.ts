@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAsqioClient } from '../context/AsqioContext';
+import { AsqioAbortError, AsqioAttachmentError } from '../client/errors';
+import { generateId } from '../client/id';
+import type { Attachment } from '../types';
+
+const DEFAULT_MAX_FILES = 5;
+
+export interface PendingAttachment {
+  /** ローカルで振った ID（Attachment の id とは別） */
+  id: string;
+  file: File;
+  status: 'uploading' | 'uploaded' | 'failed';
+  /** 0〜1 */
+  progress: number;
+  attachment: Attachment | null;
+  error: Error | null;
+}
+
+export interface UseAttachmentUploadOptions {
+  /** 一度に添付できるファイル数（デフォルト: 5） */
+  maxFiles?: number;
+}
+
+export interface UseAttachmentUploadResult {
+  attachments: PendingAttachment[];
+  /** アップロードが完了した添付 */
+  uploaded: Attachment[];
+  uploading: boolean;
+  /** ファイル選択の accept 属性に渡す値 */
+  accept: string;
+  /** 検証してアップロードを始める。検証に失敗したファイルは failed として残る */
+  add: (files: File[]) => void;
+  /** アップロード中なら中断して取り除く */
+  remove: (id: string) => void;
+  /** 送信後などにすべて取り除く */
+  clear: () => void;
+}
+
+export function useAttachmentUpload(options?: UseAttachmentUploadOptions): UseAttachmentUploadResult {
+  const client = useAsqioClient();
+  const maxFiles = options?.maxFiles ?? DEFAULT_MAX_FILES;
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const countRef = useRef(0);
+  countRef.current = attachments.filter((a) => a.status !== 'failed').length;
+
+  const patch = useCallback((id: string, next: Partial<PendingAttachment>) => {
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...next } : a)));
+  }, []);
+
+  const upload = useCallback(
+    async (id: string, file: File) => {
+      const controller = new AbortController();
+      controllersRef.current.set(id, controller);
+      try {
+        const attachment = await client.uploadAttachment(file, {
+          signal: controller.signal,
+          onProgress: ({ loaded, total }) => {
+            if (!controller.signal.aborted) patch(id, { progress: total > 0 ? loaded / total : 0 });
+          },
+        });
+        if (controller.signal.aborted) return;
+        patch(id, { status: 'uploaded', progress: 1, attachment });
+      } catch (e) {
+        if (controller.signal.aborted || e instanceof AsqioAbortError) return;
+        patch(id, { status: 'failed', error: e instanceof Error ? e : new Error(String(e)) });
+      } finally {
+        controllersRef.current.delete(id);
+      }
+    },
+    [client, patch],
+  );
+
+  const add = useCallback(
+    (files: File[]) => {
+      const added = files.map((file): PendingAttachment => {
+        const item: PendingAttachment = {
+          id: generateId(),
+          file,
+          status: 'uploading',
+          progress: 0,
+          attachment: null,
+          error: null,
+        };
+        if (countRef.current >= maxFiles) {
+          return {
+            ...item,
+            status: 'failed',
+            error: new AsqioAttachmentError(`Up to ${maxFiles} files can be attached`, 'too_many'),
+          };
+        }
+        countRef.current++;
+        return item;
+      });
+      setAttachments((prev) => [...prev, ...added]);
+      added.filter((a) => a.status === 'uploading').forEach((a) => upload(a.id, a.file));
+    },
+    [maxFiles, upload],
+  );
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    setAttachments([]);
+  }, []);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  return {
+    attachments,
+    uploaded: attachments.flatMap((a) => (a.attachment ? [a.attachment] : [])),
+    uploading: attachments.some((a) => a.status === 'uploading'),
+    accept: client.attachmentRules.acceptedTypes.join(','),
+    add,
+    remove,
+    clear,
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import { useAsqioClient, useQueryCache } from '../context/AsqioContext';
+import { updateTicketInCache } from '../cache/tickets';
+import type { Ticket } from '../types';
+
+export interface UseCloseTicketResult {
+  closeTicket: (ticketId: string) => Promise<Ticket>;
+  loading: boolean;
+  error: Error | null;
+}
+
+export function useCloseTicket(): UseCloseTicketResult {
+  const client = useAsqioClient();
+  const cache = useQueryCache();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const closeTicket = useCallback(
+    async (ticketId: string): Promise<Ticket> => {
+      setLoading(true);
+      setError(null);
+      try {
+        const ticket = await client.closeTicket(ticketId);
+        updateTicketInCache(cache, ticket);
+        // ステータスで絞り込んだ一覧から外れるため取り直す
+        cache.invalidate(['tickets']);
+        return ticket;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        setError(err);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client, cache],
+  );
+
+  return { closeTicket, loading, error };
+}
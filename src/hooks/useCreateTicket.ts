@@ -1,24 +1,55 @@
 import { useCallback, useState } from 'react';
-import { useAsqioClient } from '../context/AsqioContext';
-import type { CreateTicketParams, Ticket } from '../types';
+import { useAsqioClient, useOutboxInstance, useQueryCache } from '../context/AsqioContext';
+import { generateId } from '../client/id';
+import { sendOrEnqueue } from '../outbox/Outbox';
+import type { CreateTicketParams, MutationOptions, Ticket } from '../types';
 
 export interface UseCreateTicketResult {
-  create: (params: CreateTicketParams) => Promise<Ticket>;
+  /**
+   * オフラインで outbox が有効なら、オンラインに戻って送信できるまで resolve しない。
+   * 同じ内容の作成をやり直すときは同じ idempotencyKey を渡すと重複作成を防げる
+   */
+  create: (params: CreateTicketParams, options?: MutationOptions) => Promise<Ticket>;
   loading: boolean;
+  /** オフラインのため outbox に積まれ、送信を待っている */
+  queued: boolean;
   error: Error | null;
 }
 
 export function useCreateTicket(): UseCreateTicketResult {
   const client = useAsqioClient();
+  const cache = useQueryCache();
+  const outbox = useOutboxInstance();
   const [loading, setLoading] = useState(false);
+  const [queued, setQueued] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const create = useCallback(
-    async (params: CreateTicketParams): Promise<Ticket> => {
+    async (params: CreateTicketParams, options?: MutationOptions): Promise<Ticket> => {
+      const idempotencyKey = options?.idempotencyKey ?? generateId();
       setLoading(true);
       setError(null);
       try {
-        const ticket = await client.createTicket(params);
+        const ticket = await sendOrEnqueue(
+          outbox,
+          () => client.createTicket(params, { ...options, idempotencyKey }),
+          (queue) => queue.enqueue({
+            id: idempotencyKey,
+            kind: 'createTicket',
+            // 端末に残る内容も、サーバーに届くのと同じく伏せておく
+            params: {
+              ...params,
+              message: client.redactText(params.message),
+              title: params.title && client.redactText(params.title),
+              context: params.context && client.redactContext(params.context),
+            },
+            created_at: new Date().toISOString(),
+            attempts: 0,
+          }),
+          () => setQueued(true),
+        );
+        cache.invalidate(['tickets']);
+        cache.invalidate(['unread_count']);
         return ticket;
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
@@ -26,10 +57,11 @@ export function useCreateTicket(): UseCreateTicketResult {
         throw err;
       } finally {
         setLoading(false);
+        setQueued(false);
       }
     },
-    [client],
+    [client, cache, outbox],
   );
 
-  return { create, loading, error };
+  return { create, loading, queued, error };
 }
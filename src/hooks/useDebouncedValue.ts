@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** value が delayMs のあいだ変わらなかったときに、その値を返す */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { useAsqioClient } from '../context/AsqioContext';
+import { useInfiniteQuery } from './useInfiniteQuery';
+import type { Message, PaginationMeta, MessageListParams } from '../types';
+
+export interface UseInfiniteMessagesResult {
+  /** 読み込み済みの全ページのメッセージ */
+  messages: Message[];
+  /** 最後に読み込んだページの meta */
+  meta: PaginationMeta | null;
+  loading: boolean;
+  error: Error | null;
+  hasNextPage: boolean;
+  fetchingNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+/** 読み込み後に届いたメッセージの分だけページ境界がずれ、次のページと重複することがある */
+function uniqueById(messages: Message[]): Message[] {
+  const seen = new Set<string>();
+  return messages.filter((m) => {
+    if (seen.has(m.id)) return false;
+    seen.add(m.id);
+    return true;
+  });
+}
+
+/**
+ * チケットのメッセージを 1 ページ目から積み上げて取得する。params.page は無視する。
+ * order: 'desc' なら最新のページから遡る（messages も新しい順）
+ */
+export function useInfiniteMessages(ticketId: string, params?: MessageListParams): UseInfiniteMessagesResult {
+  const client = useAsqioClient();
+  const { pages, ...rest } = useInfiniteQuery(
+    // ページ単位の一覧と同じ prefix に置き、invalidate で一緒に取り直されるようにする
+    ['messages', ticketId, 'infinite', params ?? null],
+    (page, signal) => client.getMessages(ticketId, { ...params, page }, { signal }),
+  );
+
+  const messages = useMemo(() => uniqueById(pages.flatMap((res) => res.messages)), [pages]);
+
+  return {
+    messages,
+    meta: pages[pages.length - 1]?.meta ?? null,
+    ...rest,
+  };
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryCache } from '../context/AsqioContext';
+import { hashQueryKey, type InfiniteData, type QueryKey } from '../cache/QueryCache';
+import { useQuery } from './useQuery';
+import type { PaginationMeta } from '../types';
+
+/** 未取得の間も同じ参照を返し、pages に依存する useMemo を毎回やり直させない */
+const NO_PAGES: never[] = [];
+
+export type PageFetcher<T> = (page: number, signal: AbortSignal) => Promise<T>;
+
+export interface UseInfiniteQueryResult<T> {
+  pages: T[];
+  loading: boolean;
+  error: Error | null;
+  hasNextPage: boolean;
+  fetchingNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * 1 ページ目から順にページを積み上げる useQuery。
+ * 再取得（refetch・invalidate）では読み込み済みのページ数だけ取り直す。
+ */
+export function useInfiniteQuery<T extends { meta: PaginationMeta }>(
+  key: QueryKey,
+  fetchPage: PageFetcher<T>,
+): UseInfiniteQueryResult<T> {
+  const cache = useQueryCache();
+  const hash = hashQueryKey(key);
+  const keyRef = useRef({ hash, key });
+  if (keyRef.current.hash !== hash) keyRef.current = { hash, key };
+  const stableKey = keyRef.current.key;
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const { data, loading, error, refetch } = useQuery<InfiniteData<T>>(stableKey, async (signal) => {
+    const count = Math.max(1, cache.getState<InfiniteData<T>>(stableKey).data?.pages.length ?? 0);
+    const pages: T[] = [];
+    for (let page = 1; page <= count; page++) {
+      const res = await fetchPageRef.current(page, signal);
+      pages.push(res);
+      if (res.meta.current_page >= res.meta.total_pages) break;
+    }
+    return { pages };
+  });
+
+  const [fetchingNextPage, setFetchingNextPage] = useState(false);
+  const [nextPageError, setNextPageError] = useState<Error | null>(null);
+  const nextPageRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    nextPageRef.current?.abort();
+    nextPageRef.current = null;
+    setFetchingNextPage(false);
+    setNextPageError(null);
+  }, [stableKey]);
+
+  const fetchNextPage = useCallback(async () => {
+    const current = cache.getState<InfiniteData<T>>(stableKey).data;
+    const last = current?.pages[current.pages.length - 1];
+    if (!current || !last || last.meta.current_page >= last.meta.total_pages) return;
+    if (nextPageRef.current) return;
+
+    const controller = new AbortController();
+    nextPageRef.current = controller;
+    setFetchingNextPage(true);
+    setNextPageError(null);
+    try {
+      const res = await fetchPageRef.current(last.meta.current_page + 1, controller.signal);
+      // 取得中に refetch でページが入れ替わっていたら、続きとして繋げられないので捨てる
+      cache.setData<InfiniteData<T>>(stableKey, (data) =>
+        data && data.pages.length === current.pages.length ? { pages: [...data.pages, res] } : data,
+      );
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setNextPageError(e instanceof Error ? e : new Error(String(e)));
+      }
+    } finally {
+      if (nextPageRef.current === controller) {
+        nextPageRef.current = null;
+        setFetchingNextPage(false);
+      }
+    }
+  }, [cache, stableKey]);
+
+  const pages = data?.pages ?? NO_PAGES;
+  const last = pages[pages.length - 1];
+
+  return {
+    pages,
+    loading,
+    error: error ?? nextPageError,
+    hasNextPage: !!last && last.meta.current_page < last.meta.total_pages,
+    fetchingNextPage,
+    fetchNextPage,
+    refetch,
+  };
+}
@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { useAsqioClient } from '../context/AsqioContext';
+import { useInfiniteQuery } from './useInfiniteQuery';
+import type { Ticket, PaginationMeta, TicketQuery } from '../types';
+
+export interface UseInfiniteTicketsResult {
+  /** 読み込み済みの全ページのチケット */
+  tickets: Ticket[];
+  /** 最後に読み込んだページの meta */
+  meta: PaginationMeta | null;
+  loading: boolean;
+  error: Error | null;
+  hasNextPage: boolean;
+  fetchingNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+/** チケット一覧を 1 ページ目から積み上げて取得する。params.page は無視する */
+export function useInfiniteTickets(params?: TicketQuery): UseInfiniteTicketsResult {
+  const client = useAsqioClient();
+  const { pages, ...rest } = useInfiniteQuery(
+    // ページ単位の一覧と同じ prefix に置き、invalidate で一緒に取り直されるようにする
+    ['tickets', 'infinite', params ?? null],
+    (page, signal) => client.getTickets({ ...params, page }, { signal }),
+  );
+
+  const tickets = useMemo(() => pages.flatMap((res) => res.tickets), [pages]);
+
+  return {
+    tickets,
+    meta: pages[pages.length - 1]?.meta ?? null,
+    ...rest,
+  };
+}
@@ -1,5 +1,7 @@
 import { useCallback, useState } from 'react';
-import { useAsqioClient } from '../context/AsqioContext';
+import type { Ticket } from '../types';
+import { useAsqioClient, useQueryCache } from '../context/AsqioContext';
+import { mapTicketLists } from '../cache/tickets';
 
 export interface UseMarkAsReadResult {
   markAsRead: (ticketId: string) => Promise<void>;
@@ -9,6 +11,7 @@ export interface UseMarkAsReadResult {
 
 export function useMarkAsRead(): UseMarkAsReadResult {
   const client = useAsqioClient();
+  const cache = useQueryCache();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
@@ -18,6 +21,12 @@ export function useMarkAsRead(): UseMarkAsReadResult {
       setError(null);
       try {
         await client.markAsRead(ticketId);
+        // 一覧と詳細の未読フラグはその場で落とし、未読数だけ取り直す
+        const markRead = <T extends Ticket>(ticket: T): T =>
+          ticket.id === ticketId ? { ...ticket, unread: false } : ticket;
+        cache.setQueriesData<Ticket>(['ticket', ticketId], markRead);
+        mapTicketLists(cache, markRead);
+        cache.invalidate(['unread_count']);
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
         setError(err);
@@ -26,7 +35,7 @@ export function useMarkAsRead(): UseMarkAsReadResult {
         setLoading(false);
       }
     },
-    [client],
+    [client, cache],
   );
 
   return { markAsRead, loading, error };
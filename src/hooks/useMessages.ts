@@ -1,6 +1,7 @@
-import { useCallback, useEffect, useState } from 'react';
-import { useAsqioClient } from '../context/AsqioContext';
-import type { Message, PaginationMeta, PaginationParams } from '../types';
+import { useCallback, useState } from 'react';
+import { useAsqioClient, useQueryCache } from '../context/AsqioContext';
+import { useQuery } from './useQuery';
+import type { Message, PaginationMeta, MessageListParams } from '../types';
 
 export interface UseMessagesResult {
   messages: Message[];
@@ -11,47 +12,33 @@ export interface UseMessagesResult {
   fetchPage: (page: number) => Promise<void>;
 }
 
-export function useMessages(ticketId: string, params?: PaginationParams): UseMessagesResult {
+export function useMessages(ticketId: string, params?: MessageListParams): UseMessagesResult {
   const client = useAsqioClient();
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [meta, setMeta] = useState<PaginationMeta | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const cache = useQueryCache();
   const [currentParams, setCurrentParams] = useState(params);
-
-  const fetchMessages = useCallback(
-    async (p?: PaginationParams) => {
-      setLoading(true);
-      setError(null);
-      try {
-        const res = await client.getMessages(ticketId, p);
-        setMessages(res.messages);
-        setMeta(res.meta);
-      } catch (e) {
-        setError(e instanceof Error ? e : new Error(String(e)));
-      } finally {
-        setLoading(false);
-      }
-    },
-    [client, ticketId],
+  const { data, loading, error, refetch } = useQuery(
+    ['messages', ticketId, currentParams ?? null],
+    (signal) => client.getMessages(ticketId, currentParams, { signal }),
   );
 
-  useEffect(() => {
-    fetchMessages(currentParams);
-  }, [fetchMessages, currentParams]);
-
-  const refetch = useCallback(async () => {
-    await fetchMessages(currentParams);
-  }, [fetchMessages, currentParams]);
-
   const fetchPage = useCallback(
     async (page: number) => {
       const newParams = { ...currentParams, page };
       setCurrentParams(newParams);
-      await fetchMessages(newParams);
+      await cache.fetch(
+        ['messages', ticketId, newParams],
+        (signal) => client.getMessages(ticketId, newParams, { signal }),
+      );
     },
-    [currentParams, fetchMessages],
+    [cache, client, ticketId, currentParams],
   );
 
-  return { messages, meta, loading, error, refetch, fetchPage };
+  return {
+    messages: data?.messages ?? [],
+    meta: data?.meta ?? null,
+    loading,
+    error,
+    refetch,
+    fetchPage,
+  };
 }
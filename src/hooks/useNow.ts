@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** intervalMs ごとに更新される現在時刻。相対時刻の表示を古いままにしないために使う */
+export function useNow(intervalMs = 60 * 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
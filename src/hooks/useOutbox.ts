@@ -0,0 +1,45 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useOutboxInstance } from '../context/AsqioContext';
+import { isOnline, type OutboxState } from '../outbox/Outbox';
+import type { OutboxEntry } from '../types';
+
+export interface UseOutboxResult {
+  /** 未送信のエントリ（積んだ順） */
+  entries: OutboxEntry[];
+  online: boolean;
+  flushing: boolean;
+  /** オンラインに戻るのを待たずに送信を試みる */
+  flush: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const noopSubscribe = () => () => {};
+const EMPTY_ENTRIES: OutboxEntry[] = [];
+
+/**
+ * outbox の状態を返す。AsqioProvider の outbox が無効なら常に空になる。
+ */
+export function useOutbox(): UseOutboxResult {
+  const outbox = useOutboxInstance();
+  const subscribe = useCallback(
+    (listener: () => void) => outbox?.subscribe(listener) ?? noopSubscribe(),
+    [outbox],
+  );
+  const getSnapshot = useCallback((): OutboxState | null => outbox?.getState() ?? null, [outbox]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const flush = useCallback(async () => {
+    await outbox?.flush();
+  }, [outbox]);
+  const remove = useCallback(async (id: string) => {
+    await outbox?.remove(id);
+  }, [outbox]);
+
+  return {
+    entries: state?.entries ?? EMPTY_ENTRIES,
+    online: state?.online ?? isOnline(),
+    flushing: state?.flushing ?? false,
+    flush,
+    remove,
+  };
+}
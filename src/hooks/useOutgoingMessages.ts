@@ -0,0 +1,43 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useQueryCache } from '../context/AsqioContext';
+import { outgoingMessagesKey } from './useSendMessage';
+import { useOutbox } from './useOutbox';
+import type { LocalMessage } from '../types';
+
+const EMPTY: LocalMessage[] = [];
+
+/**
+ * useSendMessage で送信中・送信失敗のメッセージを返す。
+ * リロード前に outbox に積まれたまま未送信のメッセージも queued として含める。
+ */
+export function useOutgoingMessages(ticketId: string): LocalMessage[] {
+  const cache = useQueryCache();
+  const { entries } = useOutbox();
+  const subscribe = useCallback(
+    (listener: () => void) => cache.subscribe(outgoingMessagesKey(ticketId), listener),
+    [cache, ticketId],
+  );
+  const getSnapshot = useCallback(
+    () => cache.getState<LocalMessage[]>(outgoingMessagesKey(ticketId)).data ?? EMPTY,
+    [cache, ticketId],
+  );
+  const local = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  return useMemo(() => {
+    const ids = new Set(local.map((m) => m.client_id));
+    const restored = entries.flatMap((entry): LocalMessage[] =>
+      entry.kind === 'sendMessage' && entry.ticket_id === ticketId && !ids.has(entry.id)
+        ? [{
+          id: entry.id,
+          client_id: entry.id,
+          sender_type: 'user',
+          sender_id: '',
+          body: entry.params.body,
+          created_at: entry.created_at,
+          status: entry.error ? 'failed' : 'queued',
+        }]
+        : [],
+    );
+    return restored.length > 0 ? [...restored, ...local] : local;
+  }, [local, entries, ticketId]);
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-color-scheme: dark)';
+
+function matchDark(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    && window.matchMedia(QUERY).matches;
+}
+
+/** OS・ブラウザの設定がダークモードか。enabled の間だけ設定の変更を追う */
+export function usePrefersDarkColorScheme(enabled: boolean): boolean {
+  const [dark, setDark] = useState(() => enabled && matchDark());
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || typeof window.matchMedia !== 'function') return;
+    const media = window.matchMedia(QUERY);
+    const update = () => setDark(media.matches);
+    update();
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, [enabled]);
+
+  return enabled && dark;
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQueryCache } from '../context/AsqioContext';
+import { hashQueryKey, type QueryFetcher, type QueryKey } from '../cache/QueryCache';
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * QueryCache を購読するデータ取得 hook の共通実装。
+ * キャッシュ済みのデータを即座に返しつつ、古ければ裏で再取得する（stale-while-revalidate）。
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>): UseQueryResult<T> {
+  const cache = useQueryCache();
+  const hash = hashQueryKey(key);
+  // key は毎レンダー作り直されるので、hash が変わったときだけ差し替える
+  const keyRef = useRef({ hash, key });
+  if (keyRef.current.hash !== hash) keyRef.current = { hash, key };
+  const stableKey = keyRef.current.key;
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => cache.subscribe(stableKey, listener),
+    [cache, stableKey],
+  );
+  const getSnapshot = useCallback(() => cache.getState<T>(stableKey), [cache, stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  useEffect(() => {
+    cache.mount<T>(stableKey, (signal) => fetcherRef.current(signal));
+  }, [cache, stableKey]);
+
+  const refetch = useCallback(
+    () => cache.fetch<T>(stableKey, (signal) => fetcherRef.current(signal), { force: true }),
+    [cache, stableKey],
+  );
+
+  return {
+    data: state.data,
+    loading: state.fetching || (state.updatedAt === 0 && !state.error),
+    error: state.error,
+    refetch,
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { useRealtimeConnection } from '../context/AsqioContext';
+import type { RealtimeEvent } from '../types';
+
+/**
+ * realtime で受け取ったイベントごとに handler を呼ぶ。
+ * キャッシュへの反映は AsqioProvider が行うので、通知の表示などに使う。
+ */
+export function useRealtimeEvent(handler: (event: RealtimeEvent) => void): void {
+  const connection = useRealtimeConnection();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!connection) return;
+    return connection.subscribe((event) => handlerRef.current(event));
+  }, [connection]);
+}
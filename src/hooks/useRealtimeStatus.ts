@@ -0,0 +1,18 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useRealtimeConnection } from '../context/AsqioContext';
+import type { RealtimeStatus } from '../types';
+
+const noopSubscribe = () => () => {};
+
+export function useRealtimeStatus(): RealtimeStatus {
+  const connection = useRealtimeConnection();
+  const subscribe = useCallback(
+    (listener: () => void) => connection?.subscribeStatus(listener) ?? noopSubscribe(),
+    [connection],
+  );
+  const getSnapshot = useCallback(
+    (): RealtimeStatus => connection?.getStatus() ?? 'idle',
+    [connection],
+  );
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
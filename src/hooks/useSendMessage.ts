@@ -1,35 +1,163 @@
 import { useCallback, useState } from 'react';
-import { useAsqioClient } from '../context/AsqioContext';
-import type { Message } from '../types';
+import { useAsqioClient, useOutboxInstance, useQueryCache } from '../context/AsqioContext';
+import { generateId } from '../client/id';
+import { AsqioAbortError } from '../client/errors';
+import { sendOrEnqueue } from '../outbox/Outbox';
+import { addMessageToCache } from '../cache/messages';
+import type { Attachment, LocalMessage, Message, SendMessageParams } from '../types';
 
 export interface UseSendMessageResult {
-  send: (ticketId: string, body: string) => Promise<Message>;
+  /**
+   * 送信中のメッセージを即座に表示し、送信に失敗したら status を failed にして残す。
+   * オフラインで outbox が有効なら status を queued にして、オンラインに戻って送信できるまで resolve しない
+   */
+  send: (ticketId: string, body: string, attachments?: Attachment[]) => Promise<Message>;
+  /** 送信に失敗したメッセージを再送する */
+  retry: (ticketId: string, clientId: string) => Promise<Message>;
+  /** 送信に失敗したメッセージを破棄する */
+  discard: (ticketId: string, clientId: string) => void;
   loading: boolean;
   error: Error | null;
 }
 
+/** 楽観的に表示しているメッセージのキャッシュキー */
+export function outgoingMessagesKey(ticketId: string) {
+  return ['outgoing', ticketId] as const;
+}
+
 export function useSendMessage(): UseSendMessageResult {
   const client = useAsqioClient();
+  const cache = useQueryCache();
+  const outbox = useOutboxInstance();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
-  const send = useCallback(
-    async (ticketId: string, body: string): Promise<Message> => {
+  const updateOutgoing = useCallback(
+    (ticketId: string, updater: (messages: LocalMessage[]) => LocalMessage[]) => {
+      cache.setData<LocalMessage[]>(outgoingMessagesKey(ticketId), (messages) => updater(messages ?? []));
+    },
+    [cache],
+  );
+
+  const deliver = useCallback(
+    async (ticketId: string, local: LocalMessage): Promise<Message> => {
+      const patch = (next: Partial<LocalMessage>) =>
+        updateOutgoing(ticketId, (messages) =>
+          messages.map((m) => (m.client_id === local.client_id ? { ...m, ...next } : m)),
+        );
+
+      const params: SendMessageParams = local.attachments?.length
+        ? { body: local.body, attachment_ids: local.attachments.map((a) => a.id) }
+        : { body: local.body };
+
       setLoading(true);
       setError(null);
       try {
-        const message = await client.sendMessage(ticketId, { body });
+        const message = await sendOrEnqueue(
+          outbox,
+          // 再送でも同じキーを使い、サーバー側で二重投稿にならないようにする
+          () => client.sendMessage(
+            ticketId,
+            params,
+            { idempotencyKey: local.client_id },
+          ),
+          (queue) => queue.enqueue({
+            id: local.client_id,
+            kind: 'sendMessage',
+            ticket_id: ticketId,
+            params,
+            created_at: local.created_at,
+            attempts: 0,
+          }),
+          () => {
+            // 積んだ後は入力を塞がない
+            patch({ status: 'queued' });
+            setLoading(false);
+          },
+        );
+        // サーバーの Message に差し替える。realtime で先に届いていれば重複させない
+        addMessageToCache(cache, ticketId, message);
+        if (cache.getState(['ticket', ticketId]).data !== undefined) {
+          updateOutgoing(ticketId, (messages) =>
+            messages.filter((m) => m.client_id !== local.client_id),
+          );
+        } else {
+          patch({ ...message, status: 'sent' });
+        }
+        cache.invalidate(['tickets']);
         return message;
       } catch (e) {
         const err = e instanceof Error ? e : new Error(String(e));
-        setError(err);
+        patch({ status: 'failed' });
+        // discard で outbox から取り除いた場合はエラーにしない
+        if (!(err instanceof AsqioAbortError)) setError(err);
         throw err;
       } finally {
         setLoading(false);
       }
     },
-    [client],
+    [client, cache, outbox, updateOutgoing],
+  );
+
+  const send = useCallback(
+    async (ticketId: string, body: string, attachments?: Attachment[]): Promise<Message> => {
+      const clientId = generateId();
+      const local: LocalMessage = {
+        id: clientId,
+        client_id: clientId,
+        sender_type: 'user',
+        sender_id: '',
+        // サーバーに届くのと同じ内容を表示する
+        body: client.redactText(body),
+        ...(attachments?.length ? { attachments } : {}),
+        created_at: new Date().toISOString(),
+        status: 'pending',
+      };
+      updateOutgoing(ticketId, (messages) => [...messages, local]);
+      return deliver(ticketId, local);
+    },
+    [client, deliver, updateOutgoing],
+  );
+
+  const retry = useCallback(
+    async (ticketId: string, clientId: string): Promise<Message> => {
+      let local = cache
+        .getState<LocalMessage[]>(outgoingMessagesKey(ticketId))
+        .data?.find((m) => m.client_id === clientId);
+      // リロード前に outbox に積まれ、サーバーに拒否されたメッセージ
+      const entry = outbox?.getState().entries.find((e) => e.id === clientId);
+      if (entry?.kind === 'sendMessage') {
+        await outbox?.remove(entry.id);
+        local ??= {
+          id: entry.id,
+          client_id: entry.id,
+          sender_type: 'user',
+          sender_id: '',
+          body: entry.params.body,
+          created_at: entry.created_at,
+          status: 'failed',
+        };
+      }
+      if (!local) {
+        throw new Error(`Unknown message: ${clientId}`);
+      }
+      const pending: LocalMessage = { ...local, status: 'pending' };
+      updateOutgoing(ticketId, (messages) => [
+        ...messages.filter((m) => m.client_id !== clientId),
+        pending,
+      ]);
+      return deliver(ticketId, pending);
+    },
+    [cache, outbox, deliver, updateOutgoing],
+  );
+
+  const discard = useCallback(
+    (ticketId: string, clientId: string) => {
+      updateOutgoing(ticketId, (messages) => messages.filter((m) => m.client_id !== clientId));
+      outbox?.remove(clientId);
+    },
+    [outbox, updateOutgoing],
   );
 
-  return { send, loading, error };
+  return { send, retry, discard, loading, error };
 }
@@ -0,0 +1,12 @@
+import { useCallback } from 'react';
+import { useAsqioClient } from '../context/AsqioContext';
+import type { SensitiveDataMatch } from '../types';
+
+/**
+ * redaction.confirm が有効なとき、送信前に伏せ字になる箇所を調べる関数を返す。無効なら undefined
+ */
+export function useSensitiveDataCheck(): ((text: string) => SensitiveDataMatch[]) | undefined {
+  const client = useAsqioClient();
+  const check = useCallback((text: string) => client.findSensitiveData(text), [client]);
+  return client.confirmRedaction ? check : undefined;
+}
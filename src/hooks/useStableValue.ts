@@ -0,0 +1,67 @@
+import { useRef } from 'react';
+
+type Path = readonly (string | number)[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 配列とプレーンオブジェクトは中身で、正規表現はパターンとフラグで比べる。
+ * 関数は参照が違っても同じとみなし、それ以外は参照で比べる
+ */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a === 'function' && typeof b === 'function') return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]));
+  }
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.source === b.source && a.flags === b.flags;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length
+      && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqualValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function valueAt(value: unknown, path: Path): unknown {
+  return path.reduce<unknown>((current, key) => (current as Record<string | number, unknown>)[key], value);
+}
+
+/** 関数を、呼び出し時に latest の同じ位置にある関数を呼ぶものに差し替えたコピーを作る */
+function delegateFunctions<T>(value: T, latest: { current: unknown }, path: Path = []): T {
+  if (typeof value === 'function') {
+    return function delegate(this: unknown, ...args: unknown[]) {
+      const fn = valueAt(latest.current, path) as (...args: unknown[]) => unknown;
+      return fn.apply(path.length > 0 ? valueAt(latest.current, path.slice(0, -1)) : this, args);
+    } as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => delegateFunctions(item, latest, [...path, i])) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, delegateFunctions(item, latest, [...path, key])]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * 中身が変わらない間は前回と同じ参照を返す。インラインで渡されたオブジェクトを依存配列に使うためのもの。
+ * 含まれる関数は参照が変わっても作り直さず、呼び出し時に最後に渡されたものを呼ぶ
+ */
+export function useStableValue<T>(value: T): T {
+  const latest = useRef<unknown>(value);
+  latest.current = value;
+  const ref = useRef<{ value: T; stable: T } | null>(null);
+  if (!ref.current || !isEqualValue(ref.current.value, value)) {
+    ref.current = { value, stable: delegateFunctions(value, latest) };
+  }
+  return ref.current.stable;
+}
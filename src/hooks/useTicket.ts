@@ -1,5 +1,5 @@
-import { useCallback, useEffect, useState } from 'react';
 import { useAsqioClient } from '../context/AsqioContext';
+import { useQuery } from './useQuery';
 import type { TicketWithMessages } from '../types';
 
 export interface UseTicketResult {
@@ -11,26 +11,10 @@ export interface UseTicketResult {
 
 export function useTicket(ticketId: string): UseTicketResult {
   const client = useAsqioClient();
-  const [ticket, setTicket] = useState<TicketWithMessages | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const { data, loading, error, refetch } = useQuery(
+    ['ticket', ticketId],
+    (signal) => client.getTicket(ticketId, { signal }),
+  );
 
-  const fetchTicket = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const res = await client.getTicket(ticketId);
-      setTicket(res);
-    } catch (e) {
-      setError(e instanceof Error ? e : new Error(String(e)));
-    } finally {
-      setLoading(false);
-    }
-  }, [client, ticketId]);
-
-  useEffect(() => {
-    fetchTicket();
-  }, [fetchTicket]);
-
-  return { ticket, loading, error, refetch: fetchTicket };
+  return { ticket: data ?? null, loading, error, refetch };
 }
@@ -0,0 +1,31 @@
+import { useAsqioClient, useQueryCache } from '../context/AsqioContext';
+import { findTicketInCache, ticketSummaryKey } from '../cache/tickets';
+import { useQuery } from './useQuery';
+import type { Ticket } from '../types';
+
+export interface UseTicketSummaryResult {
+  ticket: Ticket | null;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * メッセージを除いたチケット情報を取得する。読み込み済みの一覧や詳細にあればそれを使い、
+ * なければ getTicket で取得する。メッセージの送受信では取り直さない
+ */
+export function useTicketSummary(ticketId: string): UseTicketSummaryResult {
+  const client = useAsqioClient();
+  const cache = useQueryCache();
+  const { data, loading, error, refetch } = useQuery<Ticket>(
+    ticketSummaryKey(ticketId),
+    async (signal) => {
+      const cached = findTicketInCache(cache, ticketId);
+      if (cached) return cached;
+      const { messages: _messages, ...ticket } = await client.getTicket(ticketId, { signal });
+      return ticket;
+    },
+  );
+
+  return { ticket: data ?? null, loading, error, refetch };
+}
@@ -1,6 +1,8 @@
-import { useCallback, useEffect, useState } from 'react';
-import { useAsqioClient } from '../context/AsqioContext';
-import type { Ticket, PaginationMeta, PaginationParams } from '../types';
+import { useCallback, useState } from 'react';
+import { useAsqioClient, useQueryCache } from '../context/AsqioContext';
+import { hashQueryKey } from '../cache/QueryCache';
+import { useQuery } from './useQuery';
+import type { Ticket, PaginationMeta, TicketQuery } from '../types';
 
 export interface UseTicketsResult {
   tickets: Ticket[];
@@ -11,47 +13,33 @@ export interface UseTicketsResult {
   fetchPage: (page: number) => Promise<void>;
 }
 
-export function useTickets(params?: PaginationParams): UseTicketsResult {
+export function useTickets(params?: TicketQuery): UseTicketsResult {
   const client = useAsqioClient();
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [meta, setMeta] = useState<PaginationMeta | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
-  const [currentParams, setCurrentParams] = useState(params);
-
-  const fetchTickets = useCallback(
-    async (p?: PaginationParams) => {
-      setLoading(true);
-      setError(null);
-      try {
-        const res = await client.getTickets(p);
-        setTickets(res.tickets);
-        setMeta(res.meta);
-      } catch (e) {
-        setError(e instanceof Error ? e : new Error(String(e)));
-      } finally {
-        setLoading(false);
-      }
-    },
-    [client],
+  const cache = useQueryCache();
+  const paramsHash = hashQueryKey([params ?? null]);
+  // fetchPage で移動したページ。絞り込み条件が変わったら params のページに戻す
+  const [paging, setPaging] = useState<{ hash: string; params: TicketQuery } | null>(null);
+  const currentParams = paging?.hash === paramsHash ? paging.params : params;
+  const { data, loading, error, refetch } = useQuery(
+    ['tickets', currentParams ?? null],
+    (signal) => client.getTickets(currentParams, { signal }),
   );
 
-  useEffect(() => {
-    fetchTickets(currentParams);
-  }, [fetchTickets, currentParams]);
-
-  const refetch = useCallback(async () => {
-    await fetchTickets(currentParams);
-  }, [fetchTickets, currentParams]);
-
   const fetchPage = useCallback(
     async (page: number) => {
       const newParams = { ...currentParams, page };
-      setCurrentParams(newParams);
-      await fetchTickets(newParams);
+      setPaging({ hash: paramsHash, params: newParams });
+      await cache.fetch(['tickets', newParams], (signal) => client.getTickets(newParams, { signal }));
     },
-    [currentParams, fetchTickets],
+    [cache, client, currentParams, paramsHash],
   );
 
-  return { tickets, meta, loading, error, refetch, fetchPage };
+  return {
+    tickets: data?.tickets ?? [],
+    meta: data?.meta ?? null,
+    loading,
+    error,
+    refetch,
+    fetchPage,
+  };
 }
@@ -1,5 +1,5 @@
-import { useCallback, useEffect, useState } from 'react';
 import { useAsqioClient } from '../context/AsqioContext';
+import { useQuery } from './useQuery';
 import type { Topic } from '../types';
 
 export interface UseTopicsResult {
@@ -11,26 +11,10 @@ export interface UseTopicsResult {
 
 export function useTopics(): UseTopicsResult {
   const client = useAsqioClient();
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const { data, loading, error, refetch } = useQuery(
+    ['topics'],
+    (signal) => client.getTopics({ signal }),
+  );
 
-  const fetchTopics = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await client.getTopics();
-      setTopics(result);
-    } catch (e) {
-      setError(e instanceof Error ? e : new Error(String(e)));
-    } finally {
-      setLoading(false);
-    }
-  }, [client]);
-
-  useEffect(() => {
-    fetchTopics();
-  }, [fetchTopics]);
-
-  return { topics, loading, error, refetch: fetchTopics };
+  return { topics: data ?? [], loading, error, refetch };
 }
@@ -1,5 +1,9 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useEffect, useRef } from 'react';
 import { useAsqioClient } from '../context/AsqioContext';
+import { AsqioRateLimitError } from '../client/errors';
+import { useQuery } from './useQuery';
+
+const MAX_POLL_BACKOFF_MS = 5 * 60 * 1000;
 
 export interface UseUnreadCountOptions {
   pollInterval?: number;
@@ -12,39 +16,54 @@ export interface UseUnreadCountResult {
   refetch: () => Promise<void>;
 }
 
+interface RateLimitState {
+  failures: number;
+  retryAfterMs: number | null;
+  at: number;
+}
+
 export function useUnreadCount(options?: UseUnreadCountOptions): UseUnreadCountResult {
   const client = useAsqioClient();
-  const [count, setCount] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const rateLimitRef = useRef<RateLimitState | null>(null);
 
-  const fetchCount = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  const { data, loading, error, refetch } = useQuery(['unread_count'], async (signal) => {
     try {
-      const c = await client.getUnreadCount();
-      setCount(c);
+      const c = await client.getUnreadCount({ signal });
+      rateLimitRef.current = null;
+      return c;
     } catch (e) {
-      setError(e instanceof Error ? e : new Error(String(e)));
-    } finally {
-      setLoading(false);
+      if (e instanceof AsqioRateLimitError) {
+        rateLimitRef.current = {
+          failures: (rateLimitRef.current?.failures ?? 0) + 1,
+          retryAfterMs: e.retryAfterMs,
+          at: Date.now(),
+        };
+      }
+      throw e;
     }
-  }, [client]);
-
-  useEffect(() => {
-    fetchCount();
-  }, [fetchCount]);
+  });
 
   useEffect(() => {
     const interval = options?.pollInterval;
     if (interval && interval > 0) {
-      intervalRef.current = setInterval(fetchCount, interval);
+      intervalRef.current = setInterval(() => {
+        // スロットリング中は Retry-After と指数バックオフの長い方だけポーリングを止める
+        const limited = rateLimitRef.current;
+        if (limited) {
+          const backoff = Math.max(
+            limited.retryAfterMs ?? 0,
+            Math.min(MAX_POLL_BACKOFF_MS, interval * 2 ** limited.failures),
+          );
+          if (Date.now() - limited.at < backoff) return;
+        }
+        refetch();
+      }, interval);
       return () => {
         if (intervalRef.current) clearInterval(intervalRef.current);
       };
     }
-  }, [fetchCount, options?.pollInterval]);
+  }, [refetch, options?.pollInterval]);
 
-  return { count, loading, error, refetch: fetchCount };
+  return { count: data ?? 0, loading, error, refetch };
 }
@@ -0,0 +1,248 @@
+import { useCallback, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+}
+
+export interface UseVirtualListOptions {
+  /** スクロールする要素 */
+  scrollRef: RefObject<HTMLElement>;
+  count: number;
+  getKey: (index: number) => string;
+  /** まだ計測していない行の高さの見積もり（px） */
+  estimateSize: number;
+  /** 表示範囲の上下に余分に描画する高さ（px、デフォルト: 400） */
+  overscan?: number;
+  /** 下端にいる間は、行が増えたり高さが変わったりしても下端に留まる */
+  stickToBottom?: boolean;
+}
+
+export interface UseVirtualListResult {
+  /** 描画する行 */
+  items: VirtualItem[];
+  /** 描画しない上側の行の高さの合計。先頭のスペーサーに使う */
+  paddingTop: number;
+  /** 描画しない下側の行の高さの合計。末尾のスペーサーに使う */
+  paddingBottom: number;
+  /** 先頭のスペーサーに渡す ref。スクロール要素の中での一覧の位置を測る */
+  startRef: (el: HTMLElement | null) => void;
+  /** 行の要素に渡す ref を返す。行の高さを計測する */
+  measureRef: (key: string) => (el: HTMLElement | null) => void;
+  /** スクロール要素の onScroll から呼ぶ */
+  handleScroll: () => void;
+  /** 下端（BOTTOM_THRESHOLD 以内）にいるか。スクロールのたびに更新する */
+  atBottom: boolean;
+  /** 下端までスクロールし、stickToBottom なら以後下端に留まる */
+  scrollToBottom: () => void;
+  /** 指定した行が表示範囲の先頭に来るようにスクロールする */
+  scrollToIndex: (index: number) => void;
+}
+
+/** 下端からこの距離（px）以内なら下端にいるとみなす */
+const BOTTOM_THRESHOLD = 24;
+
+interface Layout {
+  keys: string[];
+  starts: number[];
+  total: number;
+}
+
+/** start が top 以下の最後の行 */
+function findIndex(starts: number[], top: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid] <= top) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * 高さの異なる行を、表示範囲の付近だけ描画する。
+ * 行の高さは描画後に計測し、計測や行の追加で位置が変わっても、表示中の先頭の行がずれないようにスクロール位置を補正する
+ */
+export function useVirtualList({
+  scrollRef,
+  count,
+  getKey,
+  estimateSize,
+  overscan = 400,
+  stickToBottom = false,
+}: UseVirtualListOptions): UseVirtualListResult {
+  const sizesRef = useRef(new Map<string, number>());
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const startElRef = useRef<HTMLElement | null>(null);
+  // 表示範囲の先頭の行と、その行の上端から表示範囲の上端までの距離
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const atBottomRef = useRef(stickToBottom);
+  const [atBottom, setAtBottom] = useState(stickToBottom);
+
+  const keys: string[] = [];
+  const starts: number[] = [];
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const key = getKey(i);
+    keys.push(key);
+    starts.push(total);
+    total += sizesRef.current.get(key) ?? estimateSize;
+  }
+  const layoutRef = useRef<Layout>({ keys, starts, total });
+  layoutRef.current = { keys, starts, total };
+
+  /** スクロール要素の上端から一覧の先頭までの距離 */
+  const listOffset = useCallback((el: HTMLElement) => {
+    const start = startElRef.current;
+    if (!start) return 0;
+    return start.getBoundingClientRect().top - el.getBoundingClientRect().top + el.scrollTop;
+  }, []);
+
+  const readViewport = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = el.scrollTop - listOffset(el);
+    const height = el.clientHeight;
+    setViewport((prev) => (prev.top === top && prev.height === height ? prev : { top, height }));
+
+    const layout = layoutRef.current;
+    if (layout.keys.length > 0) {
+      const index = findIndex(layout.starts, Math.max(0, top));
+      anchorRef.current = { key: layout.keys[index], offset: top - layout.starts[index] };
+    } else {
+      anchorRef.current = null;
+    }
+  }, [scrollRef, listOffset]);
+
+  const isAtBottom = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return true;
+    return el.scrollHeight - el.scrollTop - el.clientHeight <= BOTTOM_THRESHOLD;
+  }, [scrollRef]);
+
+  const updateAtBottom = useCallback((value: boolean) => {
+    atBottomRef.current = value;
+    setAtBottom(value);
+  }, []);
+
+  const handleScroll = useCallback(() => {
+    updateAtBottom(isAtBottom());
+    readViewport();
+  }, [isAtBottom, updateAtBottom, readViewport]);
+
+  const scrollToBottom = useCallback(() => {
+    const el = scrollRef.current;
+    updateAtBottom(true);
+    if (!el) return;
+    el.scrollTop = el.scrollHeight;
+    readViewport();
+  }, [scrollRef, updateAtBottom, readViewport]);
+
+  const scrollToIndex = useCallback((index: number) => {
+    const el = scrollRef.current;
+    const layout = layoutRef.current;
+    if (!el || index < 0 || index >= layout.keys.length) return;
+    updateAtBottom(false);
+    anchorRef.current = { key: layout.keys[index], offset: 0 };
+    el.scrollTop = listOffset(el) + layout.starts[index];
+    readViewport();
+  }, [scrollRef, listOffset, updateAtBottom, readViewport]);
+
+  // 計測や行の増減で位置が変わったら、下端または表示中の先頭の行に合わせ直す
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    if (stickToBottom && atBottomRef.current) {
+      if (el.scrollHeight - el.scrollTop - el.clientHeight > 1) el.scrollTop = el.scrollHeight;
+    } else if (anchorRef.current) {
+      const index = keys.indexOf(anchorRef.current.key);
+      if (index >= 0) {
+        const target = listOffset(el) + starts[index] + anchorRef.current.offset;
+        if (Math.abs(el.scrollTop - target) >= 1) el.scrollTop = target;
+      }
+    }
+    readViewport();
+  });
+
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const measureRefs = useRef(new Map<string, (el: HTMLElement | null) => void>());
+
+  const measure = useCallback((key: string, el: HTMLElement) => {
+    const size = el.offsetHeight;
+    // 描画されていない（jsdom や display: none）ときは見積もりのままにする
+    if (size === 0 || sizesRef.current.get(key) === size) return;
+    sizesRef.current.set(key, size);
+    setMeasureVersion((v) => v + 1);
+  }, []);
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current && typeof ResizeObserver !== 'undefined') {
+      observerRef.current = new ResizeObserver((entries) => {
+        entries.forEach((entry) => {
+          const key = (entry.target as HTMLElement).dataset.virtualKey;
+          if (key !== undefined) measure(key, entry.target as HTMLElement);
+        });
+      });
+    }
+    return observerRef.current;
+  }, [measure]);
+
+  useLayoutEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureRef = useCallback((key: string) => {
+    let ref = measureRefs.current.get(key);
+    if (!ref) {
+      const callback = (el: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== el) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (!el) {
+          // 表示範囲から外れた行の分が溜まっていかないようにする
+          if (measureRefs.current.get(key) === callback) measureRefs.current.delete(key);
+          return;
+        }
+        el.dataset.virtualKey = key;
+        elementsRef.current.set(key, el);
+        getObserver()?.observe(el);
+        measure(key, el);
+      };
+      ref = callback;
+      measureRefs.current.set(key, ref);
+    }
+    return ref;
+  }, [getObserver, measure]);
+
+  const startRef = useCallback((el: HTMLElement | null) => {
+    startElRef.current = el;
+  }, []);
+
+  // 未計測（初回の描画や jsdom）の間は、画面の高さぶん描画する
+  const viewportHeight = viewport.height || (typeof window !== 'undefined' ? window.innerHeight : 0);
+  const items: VirtualItem[] = [];
+  let paddingTop = 0;
+  let paddingBottom = 0;
+  if (count > 0) {
+    const first = findIndex(starts, Math.max(0, viewport.top - overscan));
+    const last = findIndex(starts, viewport.top + viewportHeight + overscan);
+    for (let i = first; i <= last; i++) items.push({ index: i, key: keys[i] });
+    paddingTop = starts[first];
+    paddingBottom = total - (starts[last] + (sizesRef.current.get(keys[last]) ?? estimateSize));
+  }
+
+  return {
+    items,
+    paddingTop,
+    paddingBottom,
+    startRef,
+    measureRef,
+    handleScroll,
+    atBottom,
+    scrollToBottom,
+    scrollToIndex,
+  };
+}
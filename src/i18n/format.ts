@@ -0,0 +1,114 @@
+import { resolveLocale } from './translate';
+import type { AsqioDateFormatter, DateInput, Translate } from '../types/i18n';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** これより前は相対表記をやめて日付で表示する（日数） */
+const RELATIVE_DAYS = 7;
+
+function toDate(value: DateInput): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+// 不正なタイムゾーンは実行環境のタイムゾーンに、不正な言語タグはカタログの言語に置き換える
+function createDateTimeFormat(
+  locale: string,
+  timeZone: string | undefined,
+  options: Intl.DateTimeFormatOptions,
+): Intl.DateTimeFormat {
+  for (const [tag, zone] of [[locale, timeZone], [locale, undefined], [resolveLocale(locale), undefined]]) {
+    try {
+      return new Intl.DateTimeFormat(tag, { ...options, timeZone: zone });
+    } catch {
+      // 次の組み合わせを試す
+    }
+  }
+  return new Intl.DateTimeFormat(undefined, options);
+}
+
+function createRelativeTimeFormat(locale: string): Intl.RelativeTimeFormat {
+  try {
+    return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  } catch {
+    return new Intl.RelativeTimeFormat(resolveLocale(locale), { numeric: 'auto' });
+  }
+}
+
+/** locale と timeZone（IANA 名、省略時は実行環境）で日時を表記する */
+export function createDateFormatter(
+  locale: string,
+  timeZone: string | undefined,
+  t: Translate,
+): AsqioDateFormatter {
+  const timeFormat = createDateTimeFormat(locale, timeZone, { hour: '2-digit', minute: '2-digit' });
+  const dateFormat = createDateTimeFormat(locale, timeZone, { year: 'numeric', month: '2-digit', day: '2-digit' });
+  const dayFormat = createDateTimeFormat(locale, timeZone, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    weekday: 'short',
+  });
+  const fullFormat = createDateTimeFormat(locale, timeZone, { dateStyle: 'full', timeStyle: 'medium' });
+  // en-CA は YYYY-MM-DD で表記する
+  const keyFormat = createDateTimeFormat('en-CA', timeZone, { year: 'numeric', month: '2-digit', day: '2-digit' });
+  const partsFormat = createDateTimeFormat('en-US', timeZone, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+  const relativeFormat = createRelativeTimeFormat(locale);
+
+  /** time の時点でのタイムゾーンの UTC からのずれ（ミリ秒） */
+  const offsetAt = (time: number) => {
+    const parts: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+    partsFormat.formatToParts(new Date(time)).forEach((part) => {
+      parts[part.type] = Number(part.value);
+    });
+    const local = Date.UTC(parts.year ?? 0, (parts.month ?? 1) - 1, parts.day, parts.hour, parts.minute, parts.second);
+    // 表記は秒までなので、time もミリ秒を切り捨てて比べる
+    return local - Math.floor(time / 1000) * 1000;
+  };
+
+  const dayKey = (value: DateInput) => keyFormat.format(toDate(value));
+
+  /** タイムゾーンでの日付が now から何日前か */
+  const daysAgo = (date: Date, now: number) =>
+    Math.round((Date.parse(dayKey(now)) - Date.parse(dayKey(date))) / DAY);
+
+  return {
+    time: (value) => timeFormat.format(toDate(value)),
+    date: (value) => dateFormat.format(toDate(value)),
+    dateTime: (value) => fullFormat.format(toDate(value)),
+    relative: (value, now = Date.now()) => {
+      const date = toDate(value);
+      const elapsed = now - date.getTime();
+      // 端末の時計のずれで未来の時刻になっても「たった今」にする
+      if (elapsed < MINUTE) return relativeFormat.format(0, 'second');
+      if (elapsed < HOUR) return relativeFormat.format(-Math.floor(elapsed / MINUTE), 'minute');
+      const days = daysAgo(date, now);
+      if (days <= 0) return relativeFormat.format(-Math.floor(elapsed / HOUR), 'hour');
+      if (days < RELATIVE_DAYS) return relativeFormat.format(-days, 'day');
+      return dateFormat.format(date);
+    },
+    day: (value, now = Date.now()) => {
+      const date = toDate(value);
+      const days = daysAgo(date, now);
+      if (days === 0) return t('date.today');
+      if (days === 1) return t('date.yesterday');
+      return dayFormat.format(date);
+    },
+    dayKey,
+    dayStart: (key) => {
+      const midnight = Date.parse(`${key}T00:00:00Z`);
+      // 求めた時刻でのずれで計算し直し、夏時間が切り替わる日にも合わせる
+      const guess = midnight - offsetAt(midnight);
+      return new Date(midnight - offsetAt(guess));
+    },
+  };
+}
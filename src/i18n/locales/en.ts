@@ -0,0 +1,94 @@
+import type { AsqioMessages } from '../../types/i18n';
+
+export const en: AsqioMessages = {
+  'common.loading': 'Loading...',
+  'common.error': 'Something went wrong',
+  'common.timeout': 'The server is taking too long to respond',
+  'common.retry': 'Retry',
+  'common.back': '← Back',
+  'common.untitled': '(Untitled)',
+  'common.send': 'Send',
+  'common.sending': 'Sending...',
+  'common.queued': 'Will be sent when you are back online',
+  'common.attachFile': 'Attach a file',
+
+  'date.today': 'Today',
+  'date.yesterday': 'Yesterday',
+
+  'status.open': 'Open',
+  'status.pending': 'Awaiting reply',
+  'status.resolved': 'Resolved',
+  'status.closed': 'Closed',
+
+  'threadList.title': 'Support',
+  'threadList.newThread': 'New',
+  'threadList.searchPlaceholder': 'Search',
+  'threadList.searchLabel': 'Search conversations',
+  'threadList.statusFilterLabel': 'Filter by status',
+  'threadList.allStatuses': 'All',
+  'threadList.topicLabel': 'Topic',
+  'threadList.allTopics': 'All topics',
+  'threadList.unreadOnly': 'Unread only',
+  'threadList.updatedFrom': 'Updated from',
+  'threadList.updatedTo': 'Updated until',
+  'threadList.sortLabel': 'Sort by',
+  'threadList.sort.updated_desc': 'Recently updated',
+  'threadList.sort.updated_asc': 'Least recently updated',
+  'threadList.sort.created_desc': 'Newest',
+  'threadList.sort.created_asc': 'Oldest',
+  'threadList.empty': 'No conversations yet',
+  'threadList.emptyFiltered': 'No conversations match your filters',
+  'threadList.previous': 'Previous',
+  'threadList.next': 'Next',
+  'threadList.loadMore': 'Load more',
+
+  'threadDetail.close': 'Close',
+  'threadDetail.closedNotice': 'This conversation has been closed',
+  'threadDetail.reopen': 'Reopen',
+  'threadDetail.loadOlder': 'Load earlier messages',
+  'threadDetail.loadOlderFailed': 'Could not load messages',
+  'threadDetail.unreadDivider': 'New',
+  'threadDetail.newMessages': {
+    one: '{count} new message ↓',
+    other: '{count} new messages ↓',
+  },
+
+  'message.sendFailed': 'Not sent',
+  'message.resend': 'Resend',
+  'message.delete': 'Delete',
+
+  'messageInput.placeholder': 'Type a message...',
+  'messageInput.attach': 'Attach',
+
+  'attachment.tooLarge': 'The file is too large',
+  'attachment.typeNotAllowed': 'This file type cannot be attached',
+  'attachment.tooMany': 'Too many files attached',
+  'attachment.uploadFailed': 'Upload failed',
+  'attachment.remove': 'Remove {name}',
+
+  'newThread.title': 'New conversation',
+  'newThread.titlePlaceholder': 'Title (optional)',
+  'newThread.topicPlaceholder': 'Select a topic (optional)',
+  'newThread.bodyPlaceholder': 'How can we help?',
+  'newThread.capturing': 'Capturing...',
+  'newThread.captureScreenshot': 'Attach a screenshot of this page',
+  'newThread.captureFailed': 'Could not capture a screenshot',
+  'newThread.sendFailed': 'Failed to send',
+
+  'redaction.email': 'an email address',
+  'redaction.phone': 'a phone number',
+  'redaction.credit_card': 'a card number',
+  'redaction.jwt': 'an access token',
+  'redaction.custom': 'personal information',
+  'redaction.separator': ', ',
+  'redaction.warning': 'Your message may contain {types}. It will be masked when sent.',
+  'redaction.edit': 'Edit',
+  'redaction.sendAnyway': 'Send anyway',
+
+  'screenshot.hint': 'Drag over the areas you want to black out',
+  'screenshot.alt': 'Screenshot',
+  'screenshot.failed': 'Could not create the image',
+  'screenshot.undo': 'Undo',
+  'screenshot.cancel': 'Cancel',
+  'screenshot.attach': 'Attach',
+};
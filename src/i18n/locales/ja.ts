@@ -0,0 +1,91 @@
+import type { AsqioMessages } from '../../types/i18n';
+
+export const ja: AsqioMessages = {
+  'common.loading': '読み込み中...',
+  'common.error': 'エラーが発生しました',
+  'common.timeout': '応答に時間がかかっています',
+  'common.retry': '再試行',
+  'common.back': '← 戻る',
+  'common.untitled': '(無題)',
+  'common.send': '送信',
+  'common.sending': '送信中...',
+  'common.queued': 'オンラインに戻ったら送信します',
+  'common.attachFile': 'ファイルを添付',
+
+  'date.today': '今日',
+  'date.yesterday': '昨日',
+
+  'status.open': '対応中',
+  'status.pending': '返信待ち',
+  'status.resolved': '解決済み',
+  'status.closed': 'クローズ',
+
+  'threadList.title': 'お問い合わせ',
+  'threadList.newThread': '新規作成',
+  'threadList.searchPlaceholder': '検索',
+  'threadList.searchLabel': 'お問い合わせを検索',
+  'threadList.statusFilterLabel': 'ステータスで絞り込む',
+  'threadList.allStatuses': 'すべて',
+  'threadList.topicLabel': 'トピック',
+  'threadList.allTopics': 'すべてのトピック',
+  'threadList.unreadOnly': '未読のみ',
+  'threadList.updatedFrom': '更新日（から）',
+  'threadList.updatedTo': '更新日（まで）',
+  'threadList.sortLabel': '並び順',
+  'threadList.sort.updated_desc': '更新が新しい順',
+  'threadList.sort.updated_asc': '更新が古い順',
+  'threadList.sort.created_desc': '作成が新しい順',
+  'threadList.sort.created_asc': '作成が古い順',
+  'threadList.empty': '問い合わせはありません',
+  'threadList.emptyFiltered': '条件に一致する問い合わせはありません',
+  'threadList.previous': '前へ',
+  'threadList.next': '次へ',
+  'threadList.loadMore': 'さらに読み込む',
+
+  'threadDetail.close': 'クローズ',
+  'threadDetail.closedNotice': 'このお問い合わせはクローズされています',
+  'threadDetail.reopen': '再開する',
+  'threadDetail.loadOlder': '以前のメッセージを読み込む',
+  'threadDetail.loadOlderFailed': '読み込めませんでした',
+  'threadDetail.unreadDivider': 'ここから未読',
+  'threadDetail.newMessages': '{count}件の新着メッセージ ↓',
+
+  'message.sendFailed': '送信できませんでした',
+  'message.resend': '再送',
+  'message.delete': '削除',
+
+  'messageInput.placeholder': 'メッセージを入力...',
+  'messageInput.attach': '添付',
+
+  'attachment.tooLarge': 'ファイルサイズが大きすぎます',
+  'attachment.typeNotAllowed': 'このファイル形式は添付できません',
+  'attachment.tooMany': '添付できるファイル数を超えています',
+  'attachment.uploadFailed': 'アップロードに失敗しました',
+  'attachment.remove': '{name} を削除',
+
+  'newThread.title': '新規お問い合わせ',
+  'newThread.titlePlaceholder': 'タイトル（任意）',
+  'newThread.topicPlaceholder': 'トピックを選択（任意）',
+  'newThread.bodyPlaceholder': 'お問い合わせ内容を入力してください',
+  'newThread.capturing': '撮影中...',
+  'newThread.captureScreenshot': 'このページのスクリーンショットを添付',
+  'newThread.captureFailed': 'スクリーンショットを撮影できませんでした',
+  'newThread.sendFailed': '送信に失敗しました',
+
+  'redaction.email': 'メールアドレス',
+  'redaction.phone': '電話番号',
+  'redaction.credit_card': 'カード番号',
+  'redaction.jwt': '認証トークン',
+  'redaction.custom': '個人情報',
+  'redaction.separator': '・',
+  'redaction.warning': '{types}が含まれている可能性があります。送信時に伏せ字に置き換えられます。',
+  'redaction.edit': '修正する',
+  'redaction.sendAnyway': 'このまま送信',
+
+  'screenshot.hint': '隠したい部分をドラッグして黒く塗りつぶしてください',
+  'screenshot.alt': 'スクリーンショット',
+  'screenshot.failed': '画像を作成できませんでした',
+  'screenshot.undo': '元に戻す',
+  'screenshot.cancel': 'キャンセル',
+  'screenshot.attach': '添付する',
+};
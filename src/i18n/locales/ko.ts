@@ -0,0 +1,91 @@
+import type { AsqioMessages } from '../../types/i18n';
+
+export const ko: AsqioMessages = {
+  'common.loading': '불러오는 중...',
+  'common.error': '오류가 발생했습니다',
+  'common.timeout': '응답이 지연되고 있습니다',
+  'common.retry': '다시 시도',
+  'common.back': '← 뒤로',
+  'common.untitled': '(제목 없음)',
+  'common.send': '보내기',
+  'common.sending': '보내는 중...',
+  'common.queued': '온라인 상태가 되면 보냅니다',
+  'common.attachFile': '파일 첨부',
+
+  'date.today': '오늘',
+  'date.yesterday': '어제',
+
+  'status.open': '처리 중',
+  'status.pending': '답변 대기',
+  'status.resolved': '해결됨',
+  'status.closed': '종료',
+
+  'threadList.title': '문의',
+  'threadList.newThread': '새 문의',
+  'threadList.searchPlaceholder': '검색',
+  'threadList.searchLabel': '문의 검색',
+  'threadList.statusFilterLabel': '상태로 필터링',
+  'threadList.allStatuses': '전체',
+  'threadList.topicLabel': '주제',
+  'threadList.allTopics': '모든 주제',
+  'threadList.unreadOnly': '읽지 않은 문의만',
+  'threadList.updatedFrom': '업데이트일(부터)',
+  'threadList.updatedTo': '업데이트일(까지)',
+  'threadList.sortLabel': '정렬',
+  'threadList.sort.updated_desc': '최근 업데이트순',
+  'threadList.sort.updated_asc': '오래된 업데이트순',
+  'threadList.sort.created_desc': '최신 작성순',
+  'threadList.sort.created_asc': '오래된 작성순',
+  'threadList.empty': '문의가 없습니다',
+  'threadList.emptyFiltered': '조건에 맞는 문의가 없습니다',
+  'threadList.previous': '이전',
+  'threadList.next': '다음',
+  'threadList.loadMore': '더 보기',
+
+  'threadDetail.close': '종료',
+  'threadDetail.closedNotice': '종료된 문의입니다',
+  'threadDetail.reopen': '다시 열기',
+  'threadDetail.loadOlder': '이전 메시지 불러오기',
+  'threadDetail.loadOlderFailed': '불러오지 못했습니다',
+  'threadDetail.unreadDivider': '여기서부터 읽지 않음',
+  'threadDetail.newMessages': '새 메시지 {count}개 ↓',
+
+  'message.sendFailed': '보내지 못했습니다',
+  'message.resend': '다시 보내기',
+  'message.delete': '삭제',
+
+  'messageInput.placeholder': '메시지를 입력하세요...',
+  'messageInput.attach': '첨부',
+
+  'attachment.tooLarge': '파일 크기가 너무 큽니다',
+  'attachment.typeNotAllowed': '첨부할 수 없는 파일 형식입니다',
+  'attachment.tooMany': '첨부할 수 있는 파일 수를 초과했습니다',
+  'attachment.uploadFailed': '업로드하지 못했습니다',
+  'attachment.remove': '{name} 삭제',
+
+  'newThread.title': '새 문의',
+  'newThread.titlePlaceholder': '제목(선택)',
+  'newThread.topicPlaceholder': '주제 선택(선택)',
+  'newThread.bodyPlaceholder': '문의 내용을 입력하세요',
+  'newThread.capturing': '캡처 중...',
+  'newThread.captureScreenshot': '이 페이지의 스크린샷 첨부',
+  'newThread.captureFailed': '스크린샷을 캡처하지 못했습니다',
+  'newThread.sendFailed': '보내지 못했습니다',
+
+  'redaction.email': '이메일 주소',
+  'redaction.phone': '전화번호',
+  'redaction.credit_card': '카드 번호',
+  'redaction.jwt': '인증 토큰',
+  'redaction.custom': '개인정보',
+  'redaction.separator': ', ',
+  'redaction.warning': '{types}이(가) 포함되어 있을 수 있습니다. 보낼 때 마스킹됩니다.',
+  'redaction.edit': '수정하기',
+  'redaction.sendAnyway': '그대로 보내기',
+
+  'screenshot.hint': '가리고 싶은 부분을 드래그해서 검게 칠하세요',
+  'screenshot.alt': '스크린샷',
+  'screenshot.failed': '이미지를 만들지 못했습니다',
+  'screenshot.undo': '되돌리기',
+  'screenshot.cancel': '취소',
+  'screenshot.attach': '첨부하기',
+};
@@ -0,0 +1,46 @@
+import { ja } from './locales/ja';
+import { en } from './locales/en';
+import { ko } from './locales/ko';
+import type { AsqioLocale, AsqioMessages, Translate } from '../types/i18n';
+
+const catalogs: Record<AsqioLocale, AsqioMessages> = { ja, en, ko };
+
+/** AsqioProvider の外で描画したときのロケール */
+export const DEFAULT_LOCALE: AsqioLocale = 'ja';
+
+/** 同梱していない言語のときに使うカタログ */
+const FALLBACK_LOCALE: AsqioLocale = 'en';
+
+/** 'en-US' のような言語タグから同梱のカタログを選ぶ。無ければ英語 */
+export function resolveLocale(locale: string): AsqioLocale {
+  const language = locale.toLowerCase().split(/[-_]/)[0];
+  return language in catalogs ? (language as AsqioLocale) : FALLBACK_LOCALE;
+}
+
+function interpolate(text: string, params?: Record<string, string | number>): string {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// 不正な言語タグ（独自のロケール名など）では例外になるので、カタログの言語で数え分ける
+function createPluralRules(locale: string): Intl.PluralRules {
+  try {
+    return new Intl.PluralRules(locale);
+  } catch {
+    return new Intl.PluralRules(resolveLocale(locale));
+  }
+}
+
+/** locale のカタログに overrides を重ねた t() を作る */
+export function createTranslator(locale: string, overrides?: Partial<AsqioMessages>): Translate {
+  const messages: AsqioMessages = { ...catalogs[resolveLocale(locale)], ...overrides };
+  let pluralRules: Intl.PluralRules | null = null;
+
+  return (key, params) => {
+    const message = messages[key] ?? catalogs[FALLBACK_LOCALE][key];
+    if (typeof message === 'string') return interpolate(message, params);
+    if (!pluralRules) pluralRules = createPluralRules(locale);
+    const category = pluralRules.select(Number(params?.count ?? 0));
+    return interpolate(message[category] ?? message.other, params);
+  };
+}
@@ -2,11 +2,22 @@
 export type {
   Topic,
   Ticket,
+  TicketStatus,
   Message,
+  Attachment,
+  MessageStatus,
+  LocalMessage,
   TicketWithMessages,
   Device,
   PaginationMeta,
   PaginationParams,
+  TicketQuery,
+  MessageListParams,
+  TicketSort,
+  RequestOptions,
+  MutationOptions,
+  UploadOptions,
+  UploadProgress,
   CreateTicketParams,
   SendMessageParams,
   RegisterDeviceParams,
@@ -18,36 +29,141 @@ export type {
   ApiErrorCode,
   ApiErrorResponse,
   AsqioConfig,
+  AsqioMiddleware,
+  RequestContext,
+  RetryOptions,
+  RetryAttempt,
+  RetryEvent,
+  AttachmentRules,
+  RedactionOptions,
+  RedactionPattern,
+  SensitiveDataType,
+  SensitiveDataMatch,
+  RealtimeEvent,
+  RealtimeStatus,
+  RealtimeTransport,
+  RealtimeTransportFactory,
+  RealtimeTransportHandlers,
+  RealtimeOptions,
+  OutboxEntry,
+  CreateTicketOutboxEntry,
+  SendMessageOutboxEntry,
+  OutboxStorage,
+  OutboxOptions,
+  RedactionRect,
+  CaptureScreenshotOptions,
+  Screenshot,
+  DiagnosticEntry,
+  DiagnosticEntryType,
+  DiagnosticsOptions,
+  DiagnosticsSummary,
+  AsqioLocale,
+  AsqioMessage,
+  AsqioMessages,
+  AsqioMessageKey,
+  PluralMessage,
+  Translate,
+  DateInput,
+  AsqioDateFormatter,
+  AsqioThemeMode,
+  AsqioColorScheme,
+  AsqioThemeColors,
+  AsqioColorPair,
+  AsqioThemeRadii,
+  AsqioThemeFontSizes,
+  AsqioThemeFonts,
+  AsqioThemeSpacing,
+  AsqioTheme,
+  AsqioThemeOverrides,
+  AsqioThemeOptions,
 } from './types';
 
 // Client
 export { AsqioClient } from './client';
-export { AsqioError, AsqioNetworkError } from './client';
+export {
+  AsqioError,
+  AsqioRateLimitError,
+  AsqioNetworkError,
+  AsqioTimeoutError,
+  AsqioAbortError,
+  AsqioAttachmentError,
+} from './client';
+export type { AttachmentErrorReason } from './client';
 export { detectDeviceInfo } from './client';
 export type { DeviceInfo } from './client';
 
+// Cache
+export { QueryCache } from './cache';
+export type { QueryKey, QueryState, QueryFetcher, QueryCacheOptions, InfiniteData } from './cache';
+
+// Realtime
+export { createWebSocketTransport, createEventSourceTransport } from './realtime';
+
+// Outbox
+export {
+  createIndexedDBStorage,
+  createLocalStorageStorage,
+  createMemoryStorage,
+} from './outbox';
+
+// Diagnostics
+export { DiagnosticsCollector } from './diagnostics';
+
+// Theme
+export { lightTheme, darkTheme } from './theme';
+
+// Screenshot
+export { captureScreenshot, redactScreenshot } from './screenshot';
+
 // Context
-export { AsqioProvider, useAsqioClient } from './context';
-export type { AsqioProviderProps } from './context';
+export {
+  AsqioProvider,
+  useAsqioClient,
+  useQueryCache,
+  useDiagnostics,
+  useAsqioI18n,
+  useAsqioTheme,
+} from './context';
+export type { AsqioProviderProps, AsqioI18n, AsqioThemeState } from './context';
 
 // Hooks
 export {
   useTopics,
   useTickets,
+  useInfiniteTickets,
   useTicket,
+  useTicketSummary,
   useCreateTicket,
   useMessages,
+  useInfiniteMessages,
   useSendMessage,
+  useOutgoingMessages,
+  useAttachmentUpload,
+  useSensitiveDataCheck,
+  useOutbox,
+  useCloseTicket,
+  useReopenTicket,
   useMarkAsRead,
   useUnreadCount,
+  useRealtimeStatus,
+  useRealtimeEvent,
 } from './hooks';
 export type {
   UseTopicsResult,
   UseTicketsResult,
+  UseInfiniteTicketsResult,
   UseTicketResult,
+  UseTicketSummaryResult,
   UseCreateTicketResult,
   UseMessagesResult,
+  UseInfiniteMessagesResult,
   UseSendMessageResult,
+  PendingAttachment,
+  UseAttachmentUploadOptions,
+  UseAttachmentUploadResult,
+  UseOutboxResult,
+  UseCloseTicketResult,
+  UseReopenTicketResult,
   UseMarkAsReadResult,
   UseUnreadCountOptions,
   UseUnreadCountResult,
@@ -56,17 +172,25 @@ export type {
 // Components
 export {
   ThreadList,
+  TicketStatusChip,
   ThreadDetail,
   MessageBubble,
   MessageInput,
+  AttachmentList,
+  ScreenshotEditor,
+  RedactionWarning,
   NewThreadForm,
   AsqioSupport,
 } from './components';
 export type {
   ThreadListProps,
+  TicketStatusChipProps,
   ThreadDetailProps,
   MessageBubbleProps,
   MessageInputProps,
+  AttachmentListProps,
+  ScreenshotEditorProps,
+  RedactionWarningProps,
   NewThreadFormProps,
   AsqioSupportProps,
 } from './components';
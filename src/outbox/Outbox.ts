@@ -0,0 +1,269 @@
+import type { AsqioClient } from '../client/AsqioClient';
+import { AsqioAbortError, AsqioNetworkError } from '../client/errors';
+import type { Message, Ticket } from '../types/models';
+import type {
+  CreateTicketOutboxEntry,
+  OutboxEntry,
+  OutboxOptions,
+  OutboxStorage,
+  SendMessageOutboxEntry,
+} from '../types/outbox';
+
+const DEFAULT_RETRY_BASE_DELAY_MS = 2000;
+const DEFAULT_RETRY_MAX_DELAY_MS = 60_000;
+
+export interface OutboxState {
+  /** 未送信のエントリ（積んだ順） */
+  entries: OutboxEntry[];
+  online: boolean;
+  flushing: boolean;
+}
+
+export interface OutboxCallbacks {
+  /** エントリの送信に成功したときに呼ばれる（リロード前に積んだエントリも含む） */
+  onSent?: (entry: OutboxEntry, result: Ticket | Message) => void;
+}
+
+export interface OutboxConfig
+  extends OutboxCallbacks, Pick<OutboxOptions, 'retryBaseDelayMs' | 'retryMaxDelayMs'> {}
+
+type OutboxResult = Ticket | Message;
+
+interface Waiter {
+  resolve: (result: OutboxResult) => void;
+  reject: (error: Error) => void;
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * オフライン中の createTicket / sendMessage を永続化し、オンラインに戻ったら積んだ順に送信する。
+ * オンラインのまま通信エラーになったら、start() している間は間隔を空けながら再送を試みる。
+ * 保存に失敗してもメモリ上のキューで動作を続ける。
+ */
+export class Outbox {
+  private readonly client: AsqioClient;
+  private readonly storage: OutboxStorage;
+  private readonly config: OutboxConfig;
+  private readonly listeners = new Set<() => void>();
+  private readonly waiters = new Map<string, Waiter[]>();
+  private state: OutboxState = { entries: [], online: isOnline(), flushing: false };
+  private ready: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private running = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 続けて通信エラーになった回数。送信に成功したら 0 に戻す */
+  private failures = 0;
+
+  constructor(client: AsqioClient, storage: OutboxStorage, config: OutboxConfig = {}) {
+    this.client = client;
+    this.storage = storage;
+    this.config = config;
+  }
+
+  getState(): OutboxState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 保存済みのエントリを読み込み、online / offline の監視を始める。戻り値で監視を止める。
+   */
+  start(): () => void {
+    const onOnline = () => {
+      this.update({ online: true });
+      this.flush();
+    };
+    const onOffline = () => {
+      this.cancelRetry();
+      this.update({ online: false });
+    };
+    this.running = true;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', onOnline);
+      window.addEventListener('offline', onOffline);
+    }
+    this.load().then(() => {
+      if (isOnline()) this.flush();
+    });
+    return () => {
+      this.running = false;
+      this.cancelRetry();
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+      }
+    };
+  }
+
+  /**
+   * エントリを積み、送信できたらその結果で resolve する。同じ ID のエントリが既にあれば積み直さない。
+   */
+  enqueue(entry: CreateTicketOutboxEntry): Promise<Ticket>;
+  enqueue(entry: SendMessageOutboxEntry): Promise<Message>;
+  async enqueue(entry: OutboxEntry): Promise<OutboxResult> {
+    await this.load();
+    const result = new Promise<OutboxResult>((resolve, reject) => {
+      this.waiters.set(entry.id, [...(this.waiters.get(entry.id) ?? []), { resolve, reject }]);
+    });
+    if (!this.state.entries.some((e) => e.id === entry.id)) {
+      this.update({ entries: [...this.state.entries, entry] });
+      await this.persist(() => this.storage.put(entry));
+    }
+    if (isOnline()) this.flush();
+    return result;
+  }
+
+  /**
+   * 未送信のエントリを積んだ順に送る。通信エラーになったらそこで止め、次の機会に続きから送る。
+   */
+  flush(): Promise<void> {
+    this.cancelRetry();
+    this.flushing ??= this.drain().finally(() => {
+      this.flushing = null;
+      this.update({ flushing: false });
+    });
+    return this.flushing;
+  }
+
+  /**
+   * エントリを破棄する。enqueue の待機は AsqioAbortError で reject される。
+   */
+  async remove(id: string): Promise<void> {
+    this.update({ entries: this.state.entries.filter((e) => e.id !== id) });
+    this.settle(id, (waiter) => waiter.reject(new AsqioAbortError('Removed from outbox')));
+    await this.persist(() => this.storage.delete(id));
+  }
+
+  private async drain(): Promise<void> {
+    await this.load();
+    this.update({ flushing: true });
+    // 送信中に積まれたエントリも同じ flush で送る
+    const attempted = new Set<string>();
+    for (;;) {
+      const entry = this.state.entries.find((e) => !e.error && !attempted.has(e.id));
+      if (!entry) return;
+      attempted.add(entry.id);
+      let result: OutboxResult;
+      try {
+        result = await this.send(entry);
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        const failed = {
+          ...entry,
+          attempts: entry.attempts + 1,
+          error: error instanceof AsqioNetworkError ? undefined : error.message,
+        };
+        this.replace(failed);
+        await this.persist(() => this.storage.put(failed));
+        if (error instanceof AsqioNetworkError) {
+          this.scheduleRetry();
+          return;
+        }
+        this.settle(entry.id, (waiter) => waiter.reject(error));
+        continue;
+      }
+      this.failures = 0;
+      this.update({ entries: this.state.entries.filter((e) => e.id !== entry.id) });
+      await this.persist(() => this.storage.delete(entry.id));
+      this.settle(entry.id, (waiter) => waiter.resolve(result));
+      this.config.onSent?.(entry, result);
+    }
+  }
+
+  /** オフラインなら online イベントを待つので、オンラインのときだけ予約する */
+  private scheduleRetry(): void {
+    if (!this.running || !isOnline()) return;
+    const base = this.config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    const max = this.config.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+    const delayMs = Math.min(max, base * 2 ** this.failures);
+    this.failures++;
+    this.cancelRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (isOnline()) this.flush();
+    }, delayMs);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer === null) return;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private send(entry: OutboxEntry): Promise<OutboxResult> {
+    switch (entry.kind) {
+      case 'createTicket':
+        return this.client.createTicket(entry.params, { idempotencyKey: entry.id });
+      case 'sendMessage':
+        return this.client.sendMessage(entry.ticket_id, entry.params, { idempotencyKey: entry.id });
+    }
+  }
+
+  private load(): Promise<void> {
+    this.ready ??= this.storage.getAll().then(
+      (stored) => {
+        const ids = new Set(stored.map((e) => e.id));
+        this.update({ entries: [...stored, ...this.state.entries.filter((e) => !ids.has(e.id))] });
+      },
+      () => {
+        // 読み込めなくてもメモリ上のキューで続ける
+      },
+    );
+    return this.ready;
+  }
+
+  private async persist(operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch {
+      // 永続化できなくても送信は続ける
+    }
+  }
+
+  private replace(entry: OutboxEntry): void {
+    this.update({ entries: this.state.entries.map((e) => (e.id === entry.id ? entry : e)) });
+  }
+
+  private settle(id: string, fn: (waiter: Waiter) => void): void {
+    this.waiters.get(id)?.forEach(fn);
+    this.waiters.delete(id);
+  }
+
+  private update(patch: Partial<OutboxState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * オンラインなら send を呼び、オフライン（または送信中にオフラインになった）なら enqueue に切り替える。
+ */
+export async function sendOrEnqueue<T>(
+  outbox: Outbox | null,
+  send: () => Promise<T>,
+  enqueue: (outbox: Outbox) => Promise<T>,
+  onQueued: () => void,
+): Promise<T> {
+  if (outbox && !isOnline()) {
+    onQueued();
+    return enqueue(outbox);
+  }
+  try {
+    return await send();
+  } catch (e) {
+    if (outbox && e instanceof AsqioNetworkError && !isOnline()) {
+      onQueued();
+      return enqueue(outbox);
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,8 @@
+export { Outbox, isOnline, sendOrEnqueue } from './Outbox';
+export type { OutboxState, OutboxCallbacks, OutboxConfig } from './Outbox';
+export {
+  createOutboxStorage,
+  createIndexedDBStorage,
+  createLocalStorageStorage,
+  createMemoryStorage,
+} from './storage';
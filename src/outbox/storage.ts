@@ -0,0 +1,133 @@
+import type { OutboxEntry, OutboxStorage } from '../types/outbox';
+
+const DB_NAME = 'asqio-outbox';
+const STORE_NAME = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(namespace: string): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(`${DB_NAME}:${namespace}`, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function databaseStorage(db: IDBDatabase): OutboxStorage {
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async getAll() {
+      const entries = await promisify(store('readonly').getAll() as IDBRequest<OutboxEntry[]>);
+      return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+    async put(entry) {
+      await promisify(store('readwrite').put(entry));
+    },
+    async delete(id) {
+      await promisify(store('readwrite').delete(id));
+    },
+  };
+}
+
+/** 最初に使うときに保存先を用意する */
+function lazyStorage(create: () => Promise<OutboxStorage>): OutboxStorage {
+  let storage: Promise<OutboxStorage> | null = null;
+  const get = () => (storage ??= create());
+  return {
+    getAll: async () => (await get()).getAll(),
+    put: async (entry) => (await get()).put(entry),
+    delete: async (id) => (await get()).delete(id),
+  };
+}
+
+export function createIndexedDBStorage(namespace: string): OutboxStorage {
+  return lazyStorage(() => openDatabase(namespace).then(databaseStorage));
+}
+
+export function createLocalStorageStorage(namespace: string): OutboxStorage {
+  const key = `${DB_NAME}:${namespace}`;
+  const read = (): OutboxEntry[] => {
+    try {
+      return JSON.parse(localStorage.getItem(key) ?? '[]') as OutboxEntry[];
+    } catch {
+      return [];
+    }
+  };
+  const write = (entries: OutboxEntry[]) => {
+    if (entries.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(entries));
+    }
+  };
+
+  return {
+    async getAll() {
+      return read();
+    },
+    async put(entry) {
+      const entries = read();
+      const index = entries.findIndex((e) => e.id === entry.id);
+      if (index >= 0) {
+        entries[index] = entry;
+      } else {
+        entries.push(entry);
+      }
+      write(entries);
+    },
+    async delete(id) {
+      write(read().filter((e) => e.id !== id));
+    },
+  };
+}
+
+export function createMemoryStorage(): OutboxStorage {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    async getAll() {
+      return [...entries.values()];
+    },
+    async put(entry) {
+      entries.set(entry.id, entry);
+    },
+    async delete(id) {
+      entries.delete(id);
+    },
+  };
+}
+
+function hasLocalStorage(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch {
+    // Safari のプライベートモードなどではアクセスしただけで例外になる
+    return false;
+  }
+}
+
+function createWebStorage(namespace: string): OutboxStorage {
+  return hasLocalStorage() ? createLocalStorageStorage(namespace) : createMemoryStorage();
+}
+
+/**
+ * IndexedDB → localStorage → メモリの順に使えるものを選ぶ。
+ * Firefox のプライベートモードなど、IndexedDB があっても開けないときは localStorage に切り替える
+ */
+export function createOutboxStorage(namespace: string): OutboxStorage {
+  if (typeof indexedDB !== 'undefined') {
+    return lazyStorage(() => openDatabase(namespace).then(
+      databaseStorage,
+      () => createWebStorage(namespace),
+    ));
+  }
+  return createWebStorage(namespace);
+}
@@ -0,0 +1,153 @@
+import type {
+  RealtimeEvent,
+  RealtimeOptions,
+  RealtimeStatus,
+  RealtimeTransport,
+  RealtimeTransportFactory,
+} from '../types/realtime';
+import { createEventSourceTransport, createWebSocketTransport } from './transports';
+import { AsqioError } from '../client/errors';
+
+const DEFAULT_CHANNEL = 'Asqio::NotificationsChannel';
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 1_000;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 30_000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 3;
+
+export interface RealtimeConnectionOptions extends RealtimeOptions {
+  tenantKey: string;
+  getToken: () => Promise<string>;
+  /** 認証で拒否されたトークンを受け取り、リフレッシュしたトークンを返す */
+  refreshToken?: (staleToken: string) => Promise<string>;
+}
+
+function resolveTransport(options: RealtimeOptions): RealtimeTransportFactory {
+  const transport = options.transport ?? 'websocket';
+  if (typeof transport === 'function') return transport;
+  if (transport === 'sse') return createEventSourceTransport;
+  return createWebSocketTransport(options.channel ?? DEFAULT_CHANNEL);
+}
+
+/**
+ * realtime トランスポートの接続を管理する。
+ * 切断時は指数バックオフで再接続し、maxReconnectAttempts 回続けて失敗したら status を `polling` にする。
+ */
+export class RealtimeConnection {
+  private readonly options: RealtimeConnectionOptions;
+  private readonly transport: RealtimeTransportFactory;
+  private readonly eventListeners = new Set<(event: RealtimeEvent) => void>();
+  private readonly statusListeners = new Set<() => void>();
+  private status: RealtimeStatus = 'closed';
+  private current: RealtimeTransport | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  /** 認証で拒否されたトークン。次の接続ではリフレッシュしてから使う */
+  private unauthorizedToken: string | null = null;
+  /** 古いトランスポートからのコールバックを無視するための世代番号 */
+  private generation = 0;
+
+  constructor(options: RealtimeConnectionOptions) {
+    this.options = options;
+    this.transport = resolveTransport(options);
+  }
+
+  get pollInterval(): number {
+    return this.options.pollInterval ?? 30_000;
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (event: RealtimeEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  subscribeStatus(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  start(): void {
+    if (this.status !== 'closed') return;
+    this.failures = 0;
+    this.connect();
+  }
+
+  stop(): void {
+    this.generation++;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.current?.close();
+    this.current = null;
+    this.setStatus('closed');
+  }
+
+  private async connect(): Promise<void> {
+    const generation = ++this.generation;
+    if (this.status !== 'polling') {
+      this.setStatus(this.failures > 0 ? 'reconnecting' : 'connecting');
+    }
+
+    try {
+      const staleToken = this.unauthorizedToken;
+      this.unauthorizedToken = null;
+      const token = staleToken && this.options.refreshToken
+        ? await this.options.refreshToken(staleToken)
+        : await this.options.getToken();
+      if (generation !== this.generation) return;
+
+      const url = new URL(this.options.url, globalThis.location?.href);
+      url.searchParams.set('token', token);
+      url.searchParams.set('tenant_key', this.options.tenantKey);
+
+      this.current = this.transport(url.toString(), {
+        onOpen: () => {
+          if (generation !== this.generation) return;
+          this.failures = 0;
+          this.setStatus('open');
+        },
+        onEvent: (event) => {
+          if (generation !== this.generation) return;
+          this.eventListeners.forEach((listener) => listener(event));
+        },
+        onClose: (error) => {
+          if (generation !== this.generation) return;
+          if (error instanceof AsqioError && error.statusCode === 401) this.unauthorizedToken = token;
+          this.current = null;
+          this.scheduleReconnect();
+        },
+      });
+    } catch {
+      if (generation !== this.generation) return;
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.generation++;
+    this.failures++;
+    const maxAttempts = this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    this.setStatus(this.failures >= maxAttempts ? 'polling' : 'reconnecting');
+
+    const base = this.options.reconnectBaseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS;
+    const max = this.options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS;
+    const exponential = Math.min(max, base * 2 ** (this.failures - 1));
+    // 一斉に再接続しないよう、待機時間の半分をランダムにずらす
+    const delay = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,4 @@
+export { RealtimeConnection } from './RealtimeConnection';
+export type { RealtimeConnectionOptions } from './RealtimeConnection';
+export { createWebSocketTransport, createEventSourceTransport } from './transports';
+export { syncQueryCache } from './sync';
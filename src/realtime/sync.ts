@@ -0,0 +1,58 @@
+import type { QueryCache } from '../cache/QueryCache';
+import { updateTicketInCache } from '../cache/tickets';
+import { addMessageToCache } from '../cache/messages';
+import type { RealtimeEvent, RealtimeStatus } from '../types/realtime';
+import type { RealtimeConnection } from './RealtimeConnection';
+
+const LIVE_QUERIES = [['ticket'], ['messages'], ['tickets'], ['unread_count']] as const;
+
+function applyEvent(cache: QueryCache, event: RealtimeEvent): void {
+  switch (event.type) {
+    case 'message.created':
+      addMessageToCache(cache, event.ticket_id, event.message);
+      cache.invalidate(['tickets']);
+      return;
+    case 'ticket.updated': {
+      updateTicketInCache(cache, event.ticket);
+      return;
+    }
+    case 'unread_count.updated':
+      cache.setData<number>(['unread_count'], () => event.unread_count);
+      return;
+  }
+}
+
+/**
+ * realtime のイベントを QueryCache に反映する。
+ * 接続できない間はポーリングで代替し、再接続したら取りこぼした分を取り直す。
+ */
+export function syncQueryCache(connection: RealtimeConnection, cache: QueryCache): () => void {
+  const invalidateAll = () => LIVE_QUERIES.forEach((key) => cache.invalidate(key));
+
+  let previous: RealtimeStatus = connection.getStatus();
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const onStatus = () => {
+    const status = connection.getStatus();
+    if (status === 'polling' && !pollTimer) {
+      invalidateAll();
+      pollTimer = setInterval(invalidateAll, connection.pollInterval);
+    } else if (status !== 'polling' && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+    if (status === 'open' && (previous === 'reconnecting' || previous === 'polling')) {
+      invalidateAll();
+    }
+    previous = status;
+  };
+
+  const unsubscribeStatus = connection.subscribeStatus(onStatus);
+  const unsubscribeEvents = connection.subscribe((event) => applyEvent(cache, event));
+
+  return () => {
+    unsubscribeStatus();
+    unsubscribeEvents();
+    if (pollTimer) clearInterval(pollTimer);
+  };
+}
@@ -0,0 +1,119 @@
+import type {
+  RealtimeEvent,
+  RealtimeTransportFactory,
+} from '../types/realtime';
+import { AsqioError } from '../client/errors';
+
+/** ActionCable はサーバーが 3 秒ごとに ping を送る。これだけ途絶えたら接続が死んでいるとみなす */
+const STALE_THRESHOLD_MS = 10_000;
+
+const ACTION_CABLE_PROTOCOLS = ['actioncable-v1-json', 'actioncable-unsupported'];
+
+interface ActionCableFrame {
+  type?: 'welcome' | 'ping' | 'confirm_subscription' | 'reject_subscription' | 'disconnect';
+  identifier?: string;
+  message?: unknown;
+  reason?: string;
+}
+
+function isRealtimeEvent(value: unknown): value is RealtimeEvent {
+  return typeof value === 'object' && value !== null && typeof (value as RealtimeEvent).type === 'string';
+}
+
+/**
+ * ActionCable 互換のフレームでチャンネルを購読する WebSocket トランスポート。
+ */
+export function createWebSocketTransport(channel: string): RealtimeTransportFactory {
+  return (url, handlers) => {
+    if (typeof WebSocket !== 'function') {
+      throw new TypeError('WebSocket is not available in this environment');
+    }
+    const identifier = JSON.stringify({ channel });
+    const socket = new WebSocket(url, ACTION_CABLE_PROTOCOLS);
+    let closed = false;
+    let lastSeen = Date.now();
+
+    const close = (error?: Error) => {
+      if (closed) return;
+      closed = true;
+      clearInterval(staleTimer);
+      socket.close();
+      handlers.onClose(error);
+    };
+
+    const staleTimer = setInterval(() => {
+      if (Date.now() - lastSeen > STALE_THRESHOLD_MS) {
+        close(new Error('Realtime connection is stale'));
+      }
+    }, STALE_THRESHOLD_MS / 2);
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ command: 'subscribe', identifier }));
+    };
+    socket.onmessage = (e: MessageEvent) => {
+      lastSeen = Date.now();
+      let frame: ActionCableFrame;
+      try {
+        frame = JSON.parse(String(e.data)) as ActionCableFrame;
+      } catch {
+        return;
+      }
+      switch (frame.type) {
+        case 'welcome':
+        case 'ping':
+          return;
+        case 'confirm_subscription':
+          if (frame.identifier === identifier) handlers.onOpen();
+          return;
+        case 'reject_subscription':
+          close(new Error(`Subscription to ${channel} was rejected`));
+          return;
+        case 'disconnect':
+          // ActionCable は認証できなかった接続を reason: unauthorized で切る
+          close(frame.reason === 'unauthorized'
+            ? new AsqioError('Realtime connection was unauthorized', 'UNAUTHORIZED', 401)
+            : new Error(`Disconnected by server: ${frame.reason ?? 'unknown'}`));
+          return;
+      }
+      if (frame.identifier === identifier && isRealtimeEvent(frame.message)) {
+        handlers.onEvent(frame.message);
+      }
+    };
+    socket.onerror = () => close(new Error('Realtime connection failed'));
+    socket.onclose = () => close();
+
+    return { close: () => close() };
+  };
+}
+
+/**
+ * 各イベントの data に RealtimeEvent の JSON が入っている Server-Sent Events トランスポート。
+ * 再接続は EventSource 任せにせず RealtimeConnection 側で制御する。
+ */
+export const createEventSourceTransport: RealtimeTransportFactory = (url, handlers) => {
+  if (typeof EventSource !== 'function') {
+    throw new TypeError('EventSource is not available in this environment');
+  }
+  const source = new EventSource(url);
+  let closed = false;
+
+  const close = (error?: Error) => {
+    if (closed) return;
+    closed = true;
+    source.close();
+    handlers.onClose(error);
+  };
+
+  source.onopen = () => handlers.onOpen();
+  source.onmessage = (e: MessageEvent) => {
+    try {
+      const event: unknown = JSON.parse(String(e.data));
+      if (isRealtimeEvent(event)) handlers.onEvent(event);
+    } catch {
+      // ignore malformed events
+    }
+  };
+  source.onerror = () => close(new Error('Realtime connection failed'));
+
+  return { close: () => close() };
+};
@@ -0,0 +1,246 @@
+import type { CaptureScreenshotOptions, RedactionRect, Screenshot } from '../types/screenshot';
+
+const DEFAULT_IGNORE_SELECTOR = '[data-asqio-ignore]';
+const DEFAULT_PRIVATE_SELECTOR = '[data-asqio-private]';
+const MAX_SCALE = 2;
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+interface CaptureArea {
+  /** root の描画範囲のうち、撮影する部分の左上（root 基準） */
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+  /** root 全体の大きさ */
+  contentWidth: number;
+  contentHeight: number;
+  /** 撮影範囲の左上のビューポート座標 */
+  viewportX: number;
+  viewportY: number;
+}
+
+function measureArea(root: HTMLElement): CaptureArea {
+  if (root === document.documentElement) {
+    return {
+      offsetX: window.scrollX,
+      offsetY: window.scrollY,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      contentWidth: Math.max(root.scrollWidth, window.innerWidth),
+      contentHeight: Math.max(root.scrollHeight, window.innerHeight),
+      viewportX: 0,
+      viewportY: 0,
+    };
+  }
+  const rect = root.getBoundingClientRect();
+  return {
+    offsetX: 0,
+    offsetY: 0,
+    width: rect.width,
+    height: rect.height,
+    contentWidth: rect.width,
+    contentHeight: rect.height,
+    viewportX: rect.left,
+    viewportY: rect.top,
+  };
+}
+
+/**
+ * 自動で黒塗りする要素の位置を、撮影範囲の左上を原点とした座標で返す。
+ * パスワード欄は指定がなくても含める
+ */
+export function collectPrivateRects(
+  root: HTMLElement,
+  privateSelector = DEFAULT_PRIVATE_SELECTOR,
+): RedactionRect[] {
+  const area = measureArea(root);
+  const selector = `${privateSelector}, input[type="password"]`;
+  return Array.from(root.querySelectorAll<HTMLElement>(selector))
+    .map((el) => el.getBoundingClientRect())
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map((rect) => ({
+      x: rect.left - area.viewportX,
+      y: rect.top - area.viewportY,
+      width: rect.width,
+      height: rect.height,
+    }))
+    .filter((rect) => rect.x < area.width && rect.y < area.height
+      && rect.x + rect.width > 0 && rect.y + rect.height > 0);
+}
+
+/** cloneNode では入力中の値が複製されないため、属性に書き戻す */
+function copyFormState(source: HTMLElement, clone: HTMLElement) {
+  const selector = 'input, textarea, select';
+  const originals = source.querySelectorAll<HTMLElement>(selector);
+  const copies = clone.querySelectorAll<HTMLElement>(selector);
+  originals.forEach((original, i) => {
+    const copy = copies[i];
+    if (original instanceof HTMLInputElement) {
+      if (original.type === 'checkbox' || original.type === 'radio') {
+        copy.toggleAttribute('checked', original.checked);
+      } else if (original.type !== 'password' && original.type !== 'file') {
+        copy.setAttribute('value', original.value);
+      }
+    } else if (original instanceof HTMLTextAreaElement) {
+      copy.textContent = original.value;
+    } else if (original instanceof HTMLSelectElement) {
+      Array.from(original.options).forEach((option, j) => {
+        (copy as HTMLSelectElement).options[j]?.toggleAttribute('selected', option.selected);
+      });
+    }
+  });
+}
+
+/** canvas は中身が複製されないため画像に置き換える。外部画像で汚れている場合は空のまま */
+function copyCanvases(source: HTMLElement, clone: HTMLElement) {
+  const originals = source.querySelectorAll('canvas');
+  const copies = clone.querySelectorAll('canvas');
+  originals.forEach((original, i) => {
+    try {
+      const img = document.createElement('img');
+      img.src = original.toDataURL();
+      img.width = original.width;
+      img.height = original.height;
+      img.style.cssText = original.style.cssText;
+      img.className = original.className;
+      copies[i].replaceWith(img);
+    } catch {
+      // tainted canvas
+    }
+  });
+}
+
+/**
+ * 撮影用に root を複製する。黒塗り対象の中身は複製に残さず、除外対象と script は取り除く
+ */
+export function cloneForSnapshot(
+  root: HTMLElement,
+  options: Pick<CaptureScreenshotOptions, 'ignoreSelector' | 'privateSelector'> = {},
+): HTMLElement {
+  const clone = root.cloneNode(true) as HTMLElement;
+  copyFormState(root, clone);
+  copyCanvases(root, clone);
+
+  const privateSelector = `${options.privateSelector ?? DEFAULT_PRIVATE_SELECTOR}, input[type="password"]`;
+  clone.querySelectorAll<HTMLElement>(privateSelector).forEach((el) => {
+    // レイアウトを保ったまま中身を消す。位置は collectPrivateRects で黒塗りする
+    [el, ...Array.from(el.querySelectorAll<HTMLElement>('*'))].forEach((node) => {
+      node.style.setProperty('visibility', 'hidden', 'important');
+      node.removeAttribute('value');
+      if (node instanceof HTMLImageElement) node.removeAttribute('src');
+    });
+    // 画像データに文字列が残らないよう、文字数だけ保って伏せる
+    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      node.textContent = (node.textContent ?? '').replace(/\S/g, '•');
+    }
+  });
+
+  clone.querySelectorAll(options.ignoreSelector ?? DEFAULT_IGNORE_SELECTOR).forEach((el) => el.remove());
+  clone.querySelectorAll('script, noscript').forEach((el) => el.remove());
+  return clone;
+}
+
+/** 同一オリジンのスタイルシートを 1 つの CSS にまとめる。読めないもの（クロスオリジン）は諦める */
+function collectStyles(): string {
+  return Array.from(document.styleSheets)
+    .map((sheet) => {
+      try {
+        return Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n');
+      } catch {
+        return '';
+      }
+    })
+    .join('\n');
+}
+
+function buildSvg(clone: HTMLElement, area: CaptureArea): string {
+  const style = document.createElementNS(XHTML_NS, 'style');
+  style.textContent = collectStyles();
+  clone.insertBefore(style, clone.firstChild);
+  if (clone.tagName === 'HTML') {
+    clone.style.setProperty('width', `${area.contentWidth}px`);
+  }
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${area.width}" height="${area.height}"`
+    + ` viewBox="${area.offsetX} ${area.offsetY} ${area.width} ${area.height}">`
+    + `<foreignObject x="0" y="0" width="${area.contentWidth}" height="${area.contentHeight}">`
+    + markup
+    + '</foreignObject></svg>';
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render the screenshot'));
+    image.src = src;
+  });
+}
+
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this environment');
+  return ctx;
+}
+
+/**
+ * WebKit では foreignObject を描いた canvas が汚染扱いになり、書き出すと SecurityError になる。
+ * 表示や送信の時点で落ちないよう、撮影の時点で失敗させる
+ */
+function assertExportable(canvas: HTMLCanvasElement) {
+  try {
+    canvas.toDataURL('image/png');
+  } catch {
+    throw new Error('The screenshot cannot be exported in this browser');
+  }
+}
+
+function fillRects(ctx: CanvasRenderingContext2D, rects: RedactionRect[], scale: number) {
+  ctx.fillStyle = '#000';
+  rects.forEach((rect) => {
+    ctx.fillRect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale);
+  });
+}
+
+/**
+ * 表示中のページを画像にする。外部ライブラリを使わず、DOM を SVG の foreignObject に埋め込んで描画するため、
+ * クロスオリジンの画像やフォントは写らないことがある。
+ * data-asqio-private の要素とパスワード欄は黒塗りし、data-asqio-ignore の要素は写さない
+ */
+export async function captureScreenshot(options: CaptureScreenshotOptions = {}): Promise<Screenshot> {
+  const root = options.root ?? document.documentElement;
+  const scale = options.scale ?? Math.min(window.devicePixelRatio || 1, MAX_SCALE);
+  const area = measureArea(root);
+  const privateRects = collectPrivateRects(root, options.privateSelector);
+  const svg = buildSvg(cloneForSnapshot(root, options), area);
+
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(area.width * scale);
+  canvas.height = Math.round(area.height * scale);
+  const ctx = getContext(canvas);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  fillRects(ctx, privateRects, scale);
+  assertExportable(canvas);
+
+  return { canvas, width: area.width, height: area.height };
+}
+
+/** ユーザーが指定した領域を黒塗りした PNG を作る。元の Screenshot は変更しない */
+export function redactScreenshot(screenshot: Screenshot, rects: RedactionRect[]): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = screenshot.canvas.width;
+  canvas.height = screenshot.canvas.height;
+  const ctx = getContext(canvas);
+  ctx.drawImage(screenshot.canvas, 0, 0);
+  fillRects(ctx, rects, canvas.width / screenshot.width);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to encode the screenshot'));
+    }, 'image/png');
+  });
+}
@@ -0,0 +1 @@
+export { captureScreenshot, redactScreenshot, collectPrivateRects, cloneForSnapshot } from './capture';
@@ -0,0 +1 @@
+export { lightTheme, darkTheme } from './themes';
@@ -0,0 +1,69 @@
+import type { AsqioTheme } from '../types/theme';
+
+const fonts: AsqioTheme['fonts'] = {
+  family: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  sizes: { xs: '11px', sm: '12px', md: '13px', lg: '14px', xl: '16px', xxl: '18px' },
+};
+
+const radii: AsqioTheme['radii'] = { sm: '4px', md: '6px', lg: '8px', bubble: '12px', full: '999px' };
+
+const spacing: AsqioTheme['spacing'] = { xs: '4px', sm: '8px', md: '12px', lg: '16px', xl: '32px' };
+
+/** CSS のフォールバック値と同じ配色 */
+export const lightTheme: AsqioTheme = {
+  colors: {
+    primary: '#007aff',
+    onPrimary: '#fff',
+    background: '#fff',
+    surface: '#f8f9fa',
+    inputBackground: '#fff',
+    text: '#212529',
+    muted: '#6c757d',
+    border: '#dee2e6',
+    error: '#dc3545',
+    warning: '#f0ad4e',
+    warningBackground: '#fff8e6',
+  },
+  bubbles: {
+    user: { background: '#007aff', text: '#fff' },
+    operator: { background: '#e9ecef', text: '#212529' },
+  },
+  statuses: {
+    open: { background: '#e7f1ff', text: '#0b5ed7' },
+    pending: { background: '#fff3cd', text: '#997404' },
+    resolved: { background: '#d1e7dd', text: '#146c43' },
+    closed: { background: '#e9ecef', text: '#6c757d' },
+  },
+  radii,
+  fonts,
+  spacing,
+};
+
+export const darkTheme: AsqioTheme = {
+  colors: {
+    primary: '#0a84ff',
+    onPrimary: '#fff',
+    background: '#1c1c1e',
+    surface: '#2c2c2e',
+    inputBackground: '#2c2c2e',
+    text: '#f2f2f7',
+    muted: '#98989f',
+    border: '#3a3a3c',
+    error: '#ff453a',
+    warning: '#ffd60a',
+    warningBackground: '#332b00',
+  },
+  bubbles: {
+    user: { background: '#0a84ff', text: '#fff' },
+    operator: { background: '#3a3a3c', text: '#f2f2f7' },
+  },
+  statuses: {
+    open: { background: '#0a2a4d', text: '#64a8ff' },
+    pending: { background: '#3d3000', text: '#ffd60a' },
+    resolved: { background: '#0f3320', text: '#4cd282' },
+    closed: { background: '#3a3a3c', text: '#aeaeb2' },
+  },
+  radii,
+  fonts,
+  spacing,
+};
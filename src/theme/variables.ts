@@ -0,0 +1,78 @@
+import { darkTheme, lightTheme } from './themes';
+import type {
+  AsqioColorPair,
+  AsqioColorScheme,
+  AsqioTheme,
+  AsqioThemeMode,
+  AsqioThemeOptions,
+  AsqioThemeOverrides,
+} from '../types/theme';
+
+function mergePairs<K extends string>(
+  base: Record<K, AsqioColorPair>,
+  overrides: Partial<Record<K, Partial<AsqioColorPair>>> = {},
+): Record<K, AsqioColorPair> {
+  const merged = { ...base };
+  for (const key of Object.keys(overrides) as K[]) {
+    merged[key] = { ...base[key], ...overrides[key] };
+  }
+  return merged;
+}
+
+function applyOverrides(theme: AsqioTheme, overrides?: AsqioThemeOverrides): AsqioTheme {
+  if (!overrides) return theme;
+  return {
+    colors: { ...theme.colors, ...overrides.colors },
+    bubbles: mergePairs(theme.bubbles, overrides.bubbles),
+    statuses: mergePairs(theme.statuses, overrides.statuses),
+    radii: { ...theme.radii, ...overrides.radii },
+    fonts: {
+      family: overrides.fonts?.family ?? theme.fonts.family,
+      sizes: { ...theme.fonts.sizes, ...overrides.fonts?.sizes },
+    },
+    spacing: { ...theme.spacing, ...overrides.spacing },
+  };
+}
+
+export function themeMode(theme: AsqioThemeMode | AsqioThemeOptions): AsqioThemeMode {
+  return typeof theme === 'string' ? theme : theme.mode ?? 'light';
+}
+
+/** 組み込みテーマに theme の上書きを重ねる。ダークのときは theme.dark も重ねる */
+export function resolveTheme(theme: AsqioThemeMode | AsqioThemeOptions, scheme: AsqioColorScheme): AsqioTheme {
+  const base = scheme === 'dark' ? darkTheme : lightTheme;
+  if (typeof theme === 'string') return base;
+  const merged = applyOverrides(base, theme);
+  return scheme === 'dark' ? applyOverrides(merged, theme.dark) : merged;
+}
+
+/** テーマを --asqio-* のカスタムプロパティにする */
+export function themeToCssVariables(theme: AsqioTheme): Record<string, string> {
+  const { colors } = theme;
+  const variables: Record<string, string> = {
+    '--asqio-primary-color': colors.primary,
+    '--asqio-on-primary-color': colors.onPrimary,
+    '--asqio-bg': colors.background,
+    '--asqio-hover-bg': colors.surface,
+    '--asqio-input-bg': colors.inputBackground,
+    '--asqio-text-color': colors.text,
+    '--asqio-muted-color': colors.muted,
+    '--asqio-border-color': colors.border,
+    '--asqio-error-color': colors.error,
+    '--asqio-warning-color': colors.warning,
+    '--asqio-warning-bg': colors.warningBackground,
+    '--asqio-font-family': theme.fonts.family,
+  };
+  for (const [sender, pair] of Object.entries(theme.bubbles)) {
+    variables[`--asqio-${sender}-bubble-bg`] = pair.background;
+    variables[`--asqio-${sender}-bubble-color`] = pair.text;
+  }
+  for (const [status, pair] of Object.entries(theme.statuses)) {
+    variables[`--asqio-status-${status}-bg`] = pair.background;
+    variables[`--asqio-status-${status}-color`] = pair.text;
+  }
+  for (const [name, value] of Object.entries(theme.radii)) variables[`--asqio-radius-${name}`] = value;
+  for (const [name, value] of Object.entries(theme.fonts.sizes)) variables[`--asqio-font-size-${name}`] = value;
+  for (const [name, value] of Object.entries(theme.spacing)) variables[`--asqio-spacing-${name}`] = value;
+  return variables;
+}
@@ -1,4 +1,13 @@
-import type { Message, PaginationMeta, Ticket, TicketWithMessages, Device, Topic } from './models';
+import type {
+  Attachment,
+  Message,
+  PaginationMeta,
+  Ticket,
+  TicketStatus,
+  TicketWithMessages,
+  Device,
+  Topic,
+} from './models';
 
 // --- Request types ---
 
@@ -7,8 +16,60 @@ export interface PaginationParams {
   per_page?: number;
 }
 
+/** updated_desc（デフォルト）: 更新日時の新しい順 / created_*: 作成日時順 */
+export type TicketSort = 'updated_desc' | 'updated_asc' | 'created_desc' | 'created_asc';
+
+export interface TicketQuery extends PaginationParams {
+  /** タイトルとメッセージ本文の全文検索 */
+  q?: string;
+  topic_id?: string;
+  /** true なら未読のチケットだけを返す */
+  unread?: boolean;
+  /** 指定したステータスのチケットだけを返す。配列ならいずれかに一致するもの */
+  status?: TicketStatus | TicketStatus[];
+  /** この日時以降に更新されたもの（ISO 8601） */
+  updated_from?: string;
+  /** この日時以前に更新されたもの（ISO 8601） */
+  updated_to?: string;
+  sort?: TicketSort;
+}
+
+export interface MessageListParams extends PaginationParams {
+  /**
+   * asc（デフォルト）: 古い順で 1 ページ目が最初のメッセージ /
+   * desc: 新しい順で 1 ページ目が最新のメッセージ
+   */
+  order?: 'asc' | 'desc';
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** AsqioConfig.timeoutMs をこのリクエストだけ上書きする */
+  timeoutMs?: number;
+}
+
+export interface MutationOptions extends RequestOptions {
+  /**
+   * Idempotency-Key ヘッダーに使うキー。省略時は呼び出しごとに生成する。
+   * 同じ操作をやり直すときに同じキーを渡すと、サーバー側で重複作成を防げる
+   */
+  idempotencyKey?: string;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions extends MutationOptions {
+  /** 送信済みのバイト数。XMLHttpRequest が使えない環境（fetch を注入した場合など）では完了時のみ呼ばれる */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
 export interface CreateTicketParams {
   message: string;
+  /** uploadAttachment で得た Attachment の ID */
+  attachment_ids?: string[];
   title?: string;
   topic_id?: string;
   context?: Record<string, unknown>;
@@ -22,6 +83,8 @@ export interface CreateTicketParams {
 
 export interface SendMessageParams {
   body: string;
+  /** uploadAttachment で得た Attachment の ID */
+  attachment_ids?: string[];
 }
 
 export interface RegisterDeviceParams {
@@ -62,7 +125,7 @@ export interface UnreadCountResponse {
 }
 
 // Re-export for convenience
-export type { Ticket, TicketWithMessages, Message, Device, Topic, PaginationMeta };
+export type { Ticket, TicketStatus, TicketWithMessages, Message, Attachment, Device, Topic, PaginationMeta };
 
 // --- Error types ---
 
@@ -73,6 +136,7 @@ export type ApiErrorCode =
   | 'NOT_FOUND'
   | 'VALIDATION_ERROR'
   | 'BAD_REQUEST'
+  | 'RATE_LIMITED'
   | 'INTERNAL_SERVER_ERROR';
 
 export interface ApiErrorResponse {
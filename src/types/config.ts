@@ -1,6 +1,121 @@
+export interface RetryAttempt {
+  /** 失敗した試行の番号（1 始まり） */
+  attempt: number;
+  method: string;
+  path: string;
+  error: Error;
+}
+
+export interface RetryEvent extends RetryAttempt {
+  /** 次の試行までの待機時間（ミリ秒） */
+  delayMs: number;
+}
+
+export interface RetryOptions {
+  /** 初回を含む最大試行回数（デフォルト: 3） */
+  maxAttempts?: number;
+  /** 指数バックオフの基準待機時間（デフォルト: 300ms） */
+  baseDelayMs?: number;
+  /** 待機時間の上限（デフォルト: 10000ms） */
+  maxDelayMs?: number;
+  /** full jitter を適用するか（デフォルト: true） */
+  jitter?: boolean;
+  /** リトライ対象の HTTP ステータス（デフォルト: 408, 500, 502, 503, 504） */
+  retryOnStatus?: number[];
+  /** 429 応答を Retry-After に従って待機・リトライするか（デフォルト: true）。POST も対象 */
+  retryOnRateLimit?: boolean;
+  /** これより長い Retry-After は待たずにエラーとする（デフォルト: 60000ms） */
+  maxRetryAfterMs?: number;
+  /** 通信エラーをリトライするか（デフォルト: true） */
+  retryOnNetworkError?: boolean;
+  /** エラーの判定を差し替える。冪等でないリクエストはこの関数に関わらずリトライしない */
+  shouldRetry?: (attempt: RetryAttempt) => boolean;
+  /** リトライ直前に呼ばれる（ログ用途） */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RequestContext {
+  /** リクエスト先の完全な URL。書き換えるとプロキシ経由などに変更できる */
+  url: string;
+  /** baseUrl を除いたパス（例: `/tickets`） */
+  path: string;
+  method: string;
+  /** 試行番号（1 始まり） */
+  attempt: number;
+  init: Omit<RequestInit, 'headers'> & { headers: Record<string, string> };
+}
+
+export interface AsqioMiddleware {
+  /** fetch の直前に呼ばれる。返した context で送信する */
+  onRequest?: (context: RequestContext) => RequestContext | void | Promise<RequestContext | void>;
+  /** fetch の直後、ステータスの判定前に呼ばれる。返した Response で処理を続ける */
+  onResponse?: (
+    response: Response,
+    context: RequestContext,
+  ) => Response | void | Promise<Response | void>;
+  /** 試行が失敗したときに呼ばれる。返したエラーでリトライ判定と throw を行う */
+  onError?: (error: Error, context: RequestContext) => Error | void | Promise<Error | void>;
+}
+
+export interface AttachmentRules {
+  /** 1 ファイルあたりの上限（デフォルト: 10MB） */
+  maxBytes?: number;
+  /** 許可する MIME タイプ。`image/*` のようなワイルドカードも使える（デフォルト: 画像・PDF・テキスト） */
+  acceptedTypes?: string[];
+}
+
+export type SensitiveDataType = 'email' | 'phone' | 'credit_card' | 'jwt' | 'custom';
+
+export interface SensitiveDataMatch {
+  type: SensitiveDataType;
+  /** 検出した文字列 */
+  value: string;
+  index: number;
+}
+
+export interface RedactionPattern {
+  pattern: RegExp;
+  /** 置き換える文字列（デフォルト: `[redacted]`） */
+  replacement?: string;
+}
+
+export interface RedactionOptions {
+  /** 組み込みの検出器（デフォルト: すべて） */
+  detectors?: Exclude<SensitiveDataType, 'custom'>[];
+  /** 追加で伏せる正規表現。g フラグが無くてもすべての一致を置き換える */
+  patterns?: (RegExp | RedactionPattern)[];
+  /** 検出器と patterns の後に適用する任意の変換 */
+  transforms?: ((text: string) => string)[];
+  /**
+   * context 内で値ごと伏せるキー（入れ子も対象）。文字列は大文字小文字と `-` / `_` を無視して完全一致で比べる。
+   * 指定すると password / token などの既定のリストを置き換える
+   */
+  denyKeys?: (string | RegExp)[];
+  /** 送信前に UI で確認を求める（NewThreadForm / ThreadDetail） */
+  confirm?: boolean;
+}
+
 export interface AsqioConfig {
   baseUrl: string;
   tenantKey: string;
+  /** JWT の exp が読める場合は期限までキャッシュされる */
   getToken: () => Promise<string>;
+  /** 401 を受けたときに 1 度だけ呼ばれる。省略時は getToken を呼び直す */
+  refreshToken?: () => Promise<string>;
   appVersion?: string;
+  /** 1 試行あたりのタイムアウト（デフォルト: 30000ms）。0 で無効 */
+  timeoutMs?: number;
+  /** false でリトライを無効化 */
+  retry?: RetryOptions | false;
+  /** fetch の実装（undici、テストダブルなど）。省略時は呼び出し時点の globalThis.fetch */
+  fetch?: typeof fetch;
+  /** 全エンドポイント共通のミドルウェア。配列の順に適用される */
+  middleware?: AsqioMiddleware[];
+  /** uploadAttachment でアップロード前に検証するルール */
+  attachments?: AttachmentRules;
+  /**
+   * createTicket / sendMessage の本文・タイトル・context からメールアドレスやカード番号などを伏せてから送る。
+   * true で既定の設定を使う（デフォルト: 無効）
+   */
+  redaction?: boolean | RedactionOptions;
 }
@@ -0,0 +1,40 @@
+export type DiagnosticEntryType =
+  | 'console'
+  | 'error'
+  | 'unhandledrejection'
+  | 'network'
+  | 'navigation'
+  | 'breadcrumb';
+
+export interface DiagnosticEntry {
+  type: DiagnosticEntryType;
+  /** 記録した時刻（ISO 8601） */
+  timestamp: string;
+  message: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
+export interface DiagnosticsOptions {
+  /** 保持する件数。超えたら古いものから捨てる（デフォルト: 50） */
+  maxEntries?: number;
+  /** チケットの context に入れる要約の上限（JSON のバイト数、デフォルト: 8192） */
+  maxBytes?: number;
+  /** console.error を記録する（デフォルト: true） */
+  console?: boolean;
+  /** window の error / unhandledrejection を記録する（デフォルト: true） */
+  errors?: boolean;
+  /** 失敗した fetch / XMLHttpRequest を記録する（デフォルト: true） */
+  network?: boolean;
+  /** history の遷移を記録する（デフォルト: true） */
+  navigation?: boolean;
+  /** 記録前にエントリを書き換える。null を返すと記録しない */
+  redact?: (entry: DiagnosticEntry) => DiagnosticEntry | null;
+}
+
+/** チケットの context.diagnostics に入る内容 */
+export interface DiagnosticsSummary {
+  collected_at: string;
+  entries: DiagnosticEntry[];
+  /** 件数やサイズの上限で省いたエントリの数 */
+  dropped: number;
+}
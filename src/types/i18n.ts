@@ -0,0 +1,127 @@
+/** 同梱しているメッセージカタログのロケール */
+export type AsqioLocale = 'ja' | 'en' | 'ko';
+
+/**
+ * 数によって変わるメッセージ。Intl.PluralRules の分類（one, few など）で選び、無ければ other を使う。
+ * 文中の {count} は数に置き換わる
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/** 文中の {name} は t() に渡した値に置き換わる */
+export type AsqioMessage = string | PluralMessage;
+
+export interface AsqioMessages {
+  'common.loading': AsqioMessage;
+  'common.error': AsqioMessage;
+  'common.timeout': AsqioMessage;
+  'common.retry': AsqioMessage;
+  'common.back': AsqioMessage;
+  'common.untitled': AsqioMessage;
+  'common.send': AsqioMessage;
+  'common.sending': AsqioMessage;
+  'common.queued': AsqioMessage;
+  'common.attachFile': AsqioMessage;
+
+  'date.today': AsqioMessage;
+  'date.yesterday': AsqioMessage;
+
+  'status.open': AsqioMessage;
+  'status.pending': AsqioMessage;
+  'status.resolved': AsqioMessage;
+  'status.closed': AsqioMessage;
+
+  'threadList.title': AsqioMessage;
+  'threadList.newThread': AsqioMessage;
+  'threadList.searchPlaceholder': AsqioMessage;
+  'threadList.searchLabel': AsqioMessage;
+  'threadList.statusFilterLabel': AsqioMessage;
+  'threadList.allStatuses': AsqioMessage;
+  'threadList.topicLabel': AsqioMessage;
+  'threadList.allTopics': AsqioMessage;
+  'threadList.unreadOnly': AsqioMessage;
+  'threadList.updatedFrom': AsqioMessage;
+  'threadList.updatedTo': AsqioMessage;
+  'threadList.sortLabel': AsqioMessage;
+  'threadList.sort.updated_desc': AsqioMessage;
+  'threadList.sort.updated_asc': AsqioMessage;
+  'threadList.sort.created_desc': AsqioMessage;
+  'threadList.sort.created_asc': AsqioMessage;
+  'threadList.empty': AsqioMessage;
+  'threadList.emptyFiltered': AsqioMessage;
+  'threadList.previous': AsqioMessage;
+  'threadList.next': AsqioMessage;
+  'threadList.loadMore': AsqioMessage;
+
+  'threadDetail.close': AsqioMessage;
+  'threadDetail.closedNotice': AsqioMessage;
+  'threadDetail.reopen': AsqioMessage;
+  'threadDetail.loadOlder': AsqioMessage;
+  'threadDetail.loadOlderFailed': AsqioMessage;
+  'threadDetail.unreadDivider': AsqioMessage;
+  'threadDetail.newMessages': AsqioMessage;
+
+  'message.sendFailed': AsqioMessage;
+  'message.resend': AsqioMessage;
+  'message.delete': AsqioMessage;
+
+  'messageInput.placeholder': AsqioMessage;
+  'messageInput.attach': AsqioMessage;
+
+  'attachment.tooLarge': AsqioMessage;
+  'attachment.typeNotAllowed': AsqioMessage;
+  'attachment.tooMany': AsqioMessage;
+  'attachment.uploadFailed': AsqioMessage;
+  'attachment.remove': AsqioMessage;
+
+  'newThread.title': AsqioMessage;
+  'newThread.titlePlaceholder': AsqioMessage;
+  'newThread.topicPlaceholder': AsqioMessage;
+  'newThread.bodyPlaceholder': AsqioMessage;
+  'newThread.capturing': AsqioMessage;
+  'newThread.captureScreenshot': AsqioMessage;
+  'newThread.captureFailed': AsqioMessage;
+  'newThread.sendFailed': AsqioMessage;
+
+  'redaction.email': AsqioMessage;
+  'redaction.phone': AsqioMessage;
+  'redaction.credit_card': AsqioMessage;
+  'redaction.jwt': AsqioMessage;
+  'redaction.custom': AsqioMessage;
+  'redaction.separator': AsqioMessage;
+  'redaction.warning': AsqioMessage;
+  'redaction.edit': AsqioMessage;
+  'redaction.sendAnyway': AsqioMessage;
+
+  'screenshot.hint': AsqioMessage;
+  'screenshot.alt': AsqioMessage;
+  'screenshot.failed': AsqioMessage;
+  'screenshot.undo': AsqioMessage;
+  'screenshot.cancel': AsqioMessage;
+  'screenshot.attach': AsqioMessage;
+}
+
+export type AsqioMessageKey = keyof AsqioMessages;
+
+/** メッセージを取り出し、{name} を params の値に置き換える。PluralMessage は params.count で選ぶ */
+export type Translate = (key: AsqioMessageKey, params?: Record<string, string | number>) => string;
+
+/** ISO 8601 の文字列・エポックミリ秒・Date */
+export type DateInput = string | number | Date;
+
+/** 表示言語とタイムゾーンに合わせた日時の表記 */
+export interface AsqioDateFormatter {
+  /** 時刻（10:05） */
+  time: (value: DateInput) => string;
+  /** 日付（2026/01/15） */
+  date: (value: DateInput) => string;
+  /** 日付・曜日・秒までの日時。ホバー時の表示に使う */
+  dateTime: (value: DateInput) => string;
+  /** 「たった今」「5 分前」「昨日」などの相対表記。7 日以上前は日付にする */
+  relative: (value: DateInput, now?: number) => string;
+  /** 日付の区切りの見出し（今日・昨日・2026年1月15日(木)） */
+  day: (value: DateInput, now?: number) => string;
+  /** タイムゾーンでの日付（YYYY-MM-DD）。同じ日かどうかの比較に使う */
+  dayKey: (value: DateInput) => string;
+  /** タイムゾーンで dayKey（YYYY-MM-DD）の日が始まる時刻 */
+  dayStart: (dayKey: string) => Date;
+}
@@ -1,7 +1,11 @@
 export type {
   Topic,
   Ticket,
+  TicketStatus,
   Message,
+  Attachment,
+  MessageStatus,
+  LocalMessage,
   TicketWithMessages,
   Device,
   PaginationMeta,
@@ -9,6 +13,13 @@ export type {
 
 export type {
   PaginationParams,
+  TicketQuery,
+  MessageListParams,
+  TicketSort,
+  RequestOptions,
+  MutationOptions,
+  UploadOptions,
+  UploadProgress,
   CreateTicketParams,
   SendMessageParams,
   RegisterDeviceParams,
@@ -21,4 +32,71 @@ export type {
   ApiErrorResponse,
 } from './api';
 
-export type { AsqioConfig } from './config';
+export type {
+  AsqioConfig,
+  AsqioMiddleware,
+  RequestContext,
+  RetryOptions,
+  RetryAttempt,
+  RetryEvent,
+  AttachmentRules,
+  RedactionOptions,
+  RedactionPattern,
+  SensitiveDataType,
+  SensitiveDataMatch,
+} from './config';
+
+export type {
+  RealtimeEvent,
+  RealtimeStatus,
+  RealtimeTransport,
+  RealtimeTransportFactory,
+  RealtimeTransportHandlers,
+  RealtimeOptions,
+} from './realtime';
+
+export type {
+  OutboxEntry,
+  CreateTicketOutboxEntry,
+  SendMessageOutboxEntry,
+  OutboxStorage,
+  OutboxOptions,
+} from './outbox';
+
+export type {
+  RedactionRect,
+  CaptureScreenshotOptions,
+  Screenshot,
+} from './screenshot';
+
+export type {
+  DiagnosticEntry,
+  DiagnosticEntryType,
+  DiagnosticsOptions,
+  DiagnosticsSummary,
+} from './diagnostics';
+
+export type {
+  AsqioLocale,
+  AsqioMessage,
+  AsqioMessages,
+  AsqioMessageKey,
+  PluralMessage,
+  Translate,
+  DateInput,
+  AsqioDateFormatter,
+} from './i18n';
+
+export type {
+  AsqioThemeMode,
+  AsqioColorScheme,
+  AsqioThemeColors,
+  AsqioColorPair,
+  AsqioThemeRadii,
+  AsqioThemeFontSizes,
+  AsqioThemeFonts,
+  AsqioThemeSpacing,
+  AsqioTheme,
+  AsqioThemeOverrides,
+  AsqioThemeOptions,
+} from './theme';
@@ -3,9 +3,16 @@ export interface Topic {
   name: string;
 }
 
+/**
+ * open: 対応中 / pending: ユーザーの返信待ち / resolved: 解決済み（返信すると再開する） /
+ * closed: クローズ済み（reopenTicket するまで返信できない）
+ */
+export type TicketStatus = 'open' | 'pending' | 'resolved' | 'closed';
+
 export interface Ticket {
   id: string;
   title: string | null;
+  status: TicketStatus;
   topic: Topic | null;
   context: Record<string, unknown> | null;
   device_info: Record<string, unknown> | null;
@@ -14,14 +21,36 @@ export interface Ticket {
   updated_at: string;
 }
 
+export interface Attachment {
+  /** アップロード後に createTicket / sendMessage の attachment_ids に渡す ID */
+  id: string;
+  filename: string;
+  content_type: string;
+  byte_size: number;
+  url: string;
+  /** 画像の場合の縮小版 URL */
+  thumbnail_url?: string | null;
+}
+
 export interface Message {
   id: string;
   sender_type: 'user' | 'operator';
   sender_id: string;
   body: string;
+  /** 添付ファイル。添付に対応していないサーバーでは省略される */
+  attachments?: Attachment[];
   created_at: string;
 }
 
+/** queued はオフラインのため outbox に積まれ、オンラインに戻るのを待っている状態 */
+export type MessageStatus = 'pending' | 'queued' | 'sent' | 'failed';
+
+/** 楽観的に表示している自分のメッセージ。サーバーの Message が返るまで id は client_id と同じ */
+export interface LocalMessage extends Message {
+  client_id: string;
+  status: MessageStatus;
+}
+
 export interface TicketWithMessages extends Ticket {
   messages: Message[];
 }
@@ -0,0 +1,46 @@
+import type { CreateTicketParams, SendMessageParams } from './api';
+
+interface OutboxEntryBase {
+  /** エントリの ID。冪等キーとしても使い、同じ ID のエントリは二重に積まない */
+  id: string;
+  /** キューに積んだ時刻（ISO 8601） */
+  created_at: string;
+  /** 送信に失敗した回数 */
+  attempts: number;
+  /** サーバーに拒否されたなど、再送しても成功しない失敗のメッセージ。設定されたエントリは flush で送らない */
+  error?: string;
+}
+
+export interface CreateTicketOutboxEntry extends OutboxEntryBase {
+  kind: 'createTicket';
+  params: CreateTicketParams;
+}
+
+export interface SendMessageOutboxEntry extends OutboxEntryBase {
+  kind: 'sendMessage';
+  ticket_id: string;
+  params: SendMessageParams;
+}
+
+export type OutboxEntry = CreateTicketOutboxEntry | SendMessageOutboxEntry;
+
+/** エントリの永続化先。IndexedDB・localStorage・メモリの実装を同梱している */
+export interface OutboxStorage {
+  getAll: () => Promise<OutboxEntry[]>;
+  put: (entry: OutboxEntry) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+export interface OutboxOptions {
+  /**
+   * 保存先を分けるための名前（デフォルト: tenantKey）。
+   * 同じブラウザでユーザーが切り替わるアプリでは、別のユーザーとして送信されないようユーザー ID を含めること
+   */
+  namespace?: string;
+  /** 保存先を差し替える（デフォルト: IndexedDB、開けなければ localStorage） */
+  storage?: OutboxStorage;
+  /** オンラインのまま通信エラーで止まったとき、再送を試みるまでの初回の待ち時間（ミリ秒、デフォルト: 2000）。失敗するたびに倍にする */
+  retryBaseDelayMs?: number;
+  /** 再送を試みるまでの待ち時間の上限（ミリ秒、デフォルト: 60000） */
+  retryMaxDelayMs?: number;
+}
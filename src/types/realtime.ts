@@ -0,0 +1,47 @@
+import type { Message, Ticket } from './models';
+
+export type RealtimeEvent =
+  | { type: 'message.created'; ticket_id: string; message: Message }
+  | { type: 'ticket.updated'; ticket: Ticket }
+  | { type: 'unread_count.updated'; unread_count: number };
+
+/**
+ * - `idle`: realtime が設定されていない
+ * - `polling`: 再接続に失敗し続けているため、ポーリングで代替している（裏で再接続は続ける）
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'polling' | 'closed';
+
+export interface RealtimeTransportHandlers {
+  /** 購読が確立したときに呼ぶ */
+  onOpen: () => void;
+  onEvent: (event: RealtimeEvent) => void;
+  /** 接続が切れたときに呼ぶ。以降このトランスポートのハンドラは無視される */
+  onClose: (error?: Error) => void;
+}
+
+export interface RealtimeTransport {
+  close: () => void;
+}
+
+/** 認証情報を付与済みの URL に接続するトランスポートを生成する */
+export type RealtimeTransportFactory = (
+  url: string,
+  handlers: RealtimeTransportHandlers,
+) => RealtimeTransport;
+
+export interface RealtimeOptions {
+  /** 接続先（WebSocket なら `wss://.../cable`、SSE なら `https://.../events`） */
+  url: string;
+  /** デフォルト: `'websocket'`（ActionCable 互換） */
+  transport?: 'websocket' | 'sse' | RealtimeTransportFactory;
+  /** ActionCable のチャンネル名（デフォルト: `'Asqio::NotificationsChannel'`） */
+  channel?: string;
+  /** 再接続の基準待機時間（デフォルト: 1000ms） */
+  reconnectBaseDelayMs?: number;
+  /** 再接続の待機時間の上限（デフォルト: 30000ms） */
+  reconnectMaxDelayMs?: number;
+  /** この回数続けて接続に失敗したらポーリングに切り替える（デフォルト: 3） */
+  maxReconnectAttempts?: number;
+  /** ポーリング時の間隔（デフォルト: 30000ms） */
+  pollInterval?: number;
+}
@@ -0,0 +1,26 @@
+/** スクリーンショット上の矩形（CSS ピクセル、ビューポート左上が原点） */
+export interface RedactionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CaptureScreenshotOptions {
+  /** 撮影する要素（デフォルト: document.documentElement）。表示されているビューポートの範囲だけを撮る */
+  root?: HTMLElement;
+  /** この CSS セレクタに一致する要素を写さない（デフォルト: '[data-asqio-ignore]'） */
+  ignoreSelector?: string;
+  /** 黒塗りにする要素の CSS セレクタ（デフォルト: '[data-asqio-private]'） */
+  privateSelector?: string;
+  /** 出力の倍率（デフォルト: devicePixelRatio、最大 2） */
+  scale?: number;
+}
+
+export interface Screenshot {
+  /** 自動で黒塗りした領域を焼き込み済みの画像 */
+  canvas: HTMLCanvasElement;
+  /** 撮影時のビューポートの幅と高さ（CSS ピクセル） */
+  width: number;
+  height: number;
+}
@@ -0,0 +1,100 @@
+import type { Message, TicketStatus } from './models';
+
+/** 'auto' は prefers-color-scheme に合わせてライト・ダークを切り替える */
+export type AsqioThemeMode = 'light' | 'dark' | 'auto';
+
+export type AsqioColorScheme = 'light' | 'dark';
+
+export interface AsqioThemeColors {
+  /** ボタン・リンク・未読の印（--asqio-primary-color） */
+  primary: string;
+  /** primary の上に置く文字（--asqio-on-primary-color） */
+  onPrimary: string;
+  /** 背景（--asqio-bg） */
+  background: string;
+  /** ホバーや区切りの背景（--asqio-hover-bg） */
+  surface: string;
+  /** 入力欄の背景（--asqio-input-bg） */
+  inputBackground: string;
+  /** 本文（--asqio-text-color） */
+  text: string;
+  /** 日時などの補足（--asqio-muted-color） */
+  muted: string;
+  /** 枠線（--asqio-border-color） */
+  border: string;
+  /** エラー（--asqio-error-color） */
+  error: string;
+  /** 個人情報の警告の枠（--asqio-warning-color） */
+  warning: string;
+  /** 個人情報の警告の背景（--asqio-warning-bg） */
+  warningBackground: string;
+}
+
+export interface AsqioColorPair {
+  background: string;
+  text: string;
+}
+
+/** 角丸（--asqio-radius-*） */
+export interface AsqioThemeRadii {
+  sm: string;
+  md: string;
+  lg: string;
+  /** メッセージの吹き出し */
+  bubble: string;
+  /** チップや丸いボタン */
+  full: string;
+}
+
+/** 文字の大きさ（--asqio-font-size-*） */
+export interface AsqioThemeFontSizes {
+  xs: string;
+  sm: string;
+  md: string;
+  lg: string;
+  xl: string;
+  xxl: string;
+}
+
+export interface AsqioThemeFonts {
+  /** --asqio-font-family */
+  family: string;
+  sizes: AsqioThemeFontSizes;
+}
+
+/** 余白（--asqio-spacing-*） */
+export interface AsqioThemeSpacing {
+  xs: string;
+  sm: string;
+  md: string;
+  lg: string;
+  xl: string;
+}
+
+export interface AsqioTheme {
+  colors: AsqioThemeColors;
+  /** 送信者ごとの吹き出しの色（--asqio-user-bubble-bg など） */
+  bubbles: Record<Message['sender_type'], AsqioColorPair>;
+  /** ステータスごとのチップの色（--asqio-status-open-bg など） */
+  statuses: Record<TicketStatus, AsqioColorPair>;
+  radii: AsqioThemeRadii;
+  fonts: AsqioThemeFonts;
+  spacing: AsqioThemeSpacing;
+}
+
+/** テーマの一部だけを上書きする */
+export interface AsqioThemeOverrides {
+  colors?: Partial<AsqioThemeColors>;
+  bubbles?: Partial<Record<Message['sender_type'], Partial<AsqioColorPair>>>;
+  statuses?: Partial<Record<TicketStatus, Partial<AsqioColorPair>>>;
+  radii?: Partial<AsqioThemeRadii>;
+  fonts?: { family?: string; sizes?: Partial<AsqioThemeFontSizes> };
+  spacing?: Partial<AsqioThemeSpacing>;
+}
+
+export interface AsqioThemeOptions extends AsqioThemeOverrides {
+  /** 元にする組み込みテーマ（デフォルト: 'light'） */
+  mode?: AsqioThemeMode;
+  /** ダークテーマのときだけ重ねる上書き */
+  dark?: AsqioThemeOverrides;
+}
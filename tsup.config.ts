@@ -1,7 +1,8 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  // client は React に依存しないため、Node / SSR 向けに単独のエントリとしても提供する
+  entry: { index: 'src/index.ts', client: 'src/client/index.ts' },
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,